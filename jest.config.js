@@ -11,6 +11,10 @@ export default {
       'ts-jest',
       {
         useESM: true,
+        // Tests share fixtures from tests/, outside the build's rootDir
+        tsconfig: {
+          rootDir: '.',
+        },
       },
     ],
   },
@@ -8,6 +8,7 @@
  * Transport Modes:
  * - STDIO (default with --stdio flag): For Claude Code (local)
  * - SSE (default without flag): For Claude Chat (web) via HTTP/SSE
+ * - Streamable HTTP (served alongside SSE on /mcp): For newer MCP clients
  *
  * Usage:
  *   STDIO mode (Claude Code):
@@ -15,20 +16,27 @@
  *
  *   SSE mode (Claude Chat):
  *     node build/index.js
- *     # Then connect via: https://your-server.onrender.com/sse?token=YOUR_TOKEN
+ *     # Then connect via: https://your-server.onrender.com/sse?token=YOUR_SUPABASE_ACCESS_TOKEN
+ *     # (or send it as an Authorization: Bearer header)
+ *     # Newer clients use Streamable HTTP: https://your-server.onrender.com/mcp
  *
  * Environment Variables:
  *   SUPABASE_URL - Your Supabase project URL
  *   SUPABASE_SERVICE_ROLE_KEY - Your Supabase service role key
+ *   SUPABASE_ANON_KEY - (Recommended for SSE) Anon key used for per-user clients
  *   DEFAULT_WORKSPACE_ID - (Optional) Default workspace to use
+ *   CANVAS_BACKEND - (Optional) "supabase" (default) or "local" for an offline JSON store (stdio only)
+ *   CANVAS_DATA_FILE - (Optional) JSON file for the local backend (default: .canvas-data.json)
  *   PORT - (Optional) Port for SSE server (default: 3000)
  */
 
 import 'dotenv/config';
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { initializeSupabase } from './supabase/client.js';
+import { initializeRepository } from './repository/index.js';
+import { initializeChangeFeed } from './realtime/index.js';
 import { createMCPServer, SERVER_NAME, SERVER_VERSION, TOOLS } from './server/createMCPServer.js';
+import { createServiceContext } from './tools/context.js';
 import { startSSEServer } from './server/sse.js';
 import type { ServerConfig } from './types/index.js';
 
@@ -37,15 +45,26 @@ import type { ServerConfig } from './types/index.js';
 // ============================================================================
 
 const config: ServerConfig = {
+  backend: process.env.CANVAS_BACKEND === 'local' ? 'local' : 'supabase',
+  localDataFile: process.env.CANVAS_DATA_FILE || '.canvas-data.json',
   supabaseUrl: process.env.SUPABASE_URL || '',
   supabaseServiceKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  supabaseAnonKey: process.env.SUPABASE_ANON_KEY,
   defaultWorkspaceId: process.env.DEFAULT_WORKSPACE_ID,
+  logChanges: process.env.CANVAS_LOG_CHANGES === 'true',
+  weightSubtasks: process.env.CANVAS_WEIGHT_SUBTASKS === 'true',
+  wipLimit: process.env.CANVAS_WIP_LIMIT ? parseInt(process.env.CANVAS_WIP_LIMIT, 10) : undefined,
+  timeZone: process.env.CANVAS_TIME_ZONE,
 };
 
 /**
  * Validate required environment variables
  */
 function validateConfig(): boolean {
+  if (config.backend === 'local') {
+    return true;
+  }
+
   if (!config.supabaseUrl || !config.supabaseServiceKey) {
     console.error(`[${SERVER_NAME}] Error: Missing required environment variables.`);
     console.error('');
@@ -55,6 +74,11 @@ function validateConfig(): boolean {
     console.error('');
     console.error('Optional:');
     console.error('  DEFAULT_WORKSPACE_ID=your-workspace-id');
+    console.error('  SUPABASE_ANON_KEY=your-anon-key (for SSE mode)');
+    console.error('  CANVAS_BACKEND=local (offline JSON store instead of Supabase, stdio only)');
+    console.error('  CANVAS_LOG_CHANGES=true (send a logging message for each live change)');
+    console.error('  CANVAS_WIP_LIMIT=3 (work in progress per person before get_workload flags them)');
+    console.error('  CANVAS_TIME_ZONE=Europe/Berlin (time zone for relative due dates, default UTC)');
     console.error('  PORT=3000 (for SSE mode)');
     return false;
   }
@@ -72,17 +96,22 @@ async function runStdioMode(): Promise<void> {
     process.exit(1);
   }
 
-  // Initialize Supabase client
+  // Initialize the data backend
   try {
-    initializeSupabase(config);
-    console.error(`[${SERVER_NAME}] Supabase client initialized`);
+    const repo = initializeRepository(config);
+    initializeChangeFeed(config, repo);
+    if (config.backend === 'local') {
+      console.error(`[${SERVER_NAME}] Local backend initialized (${config.localDataFile})`);
+    } else {
+      console.error(`[${SERVER_NAME}] Supabase client initialized`);
+    }
   } catch (error) {
-    console.error(`[${SERVER_NAME}] Failed to initialize Supabase:`, error);
+    console.error(`[${SERVER_NAME}] Failed to initialize ${config.backend} backend:`, error);
     process.exit(1);
   }
 
-  // Create MCP server
-  const server = createMCPServer();
+  // Create MCP server (service role access for local use)
+  const server = createMCPServer(createServiceContext());
 
   // Connect to stdio transport
   const transport = new StdioServerTransport();
@@ -103,6 +132,12 @@ async function runStdioMode(): Promise<void> {
 async function runSSEMode(): Promise<void> {
   console.error(`[${SERVER_NAME}] Starting in SSE mode (Claude Chat)...`);
 
+  // Hosted sessions authenticate against Supabase, so the local backend is stdio-only
+  if (config.backend === 'local') {
+    console.error(`[${SERVER_NAME}] Error: CANVAS_BACKEND=local is only supported with --stdio.`);
+    process.exit(1);
+  }
+
   if (!validateConfig()) {
     process.exit(1);
   }
@@ -0,0 +1,86 @@
+/**
+ * Canvas Change Feeds
+ *
+ * Tools only see the board when they are called. A ChangeFeed tells a
+ * session when tasks or projects change underneath it (for example when a
+ * card is moved in the web app), so subscribed canvas:// resources can be
+ * refreshed. It has two implementations:
+ * - SupabaseChangeFeed: Postgres changes from Supabase Realtime
+ * - LocalChangeFeed: events emitted in-process, used by the local backend
+ *   and tests
+ */
+
+import { getSupabase } from '../supabase/client.js';
+import { LocalRepository } from '../repository/index.js';
+import type { CanvasRepository } from '../repository/index.js';
+import type { ServerConfig } from '../types/index.js';
+import { LocalChangeFeed } from './local.js';
+import { SupabaseChangeFeed } from './supabase.js';
+
+export { LocalChangeFeed, CHANGE_EVENT } from './local.js';
+export { SupabaseChangeFeed } from './supabase.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChangeTable = 'tasks' | 'projects';
+export type ChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+/**
+ * A change to a task or project row.
+ */
+export interface CanvasChange {
+  table: ChangeTable;
+  type: ChangeType;
+  /** ID of the changed row */
+  id: string;
+  /** Project the row belongs to (the row itself for projects) */
+  projectId: string;
+  workspaceId: string;
+}
+
+export type ChangeListener = (change: CanvasChange) => void;
+
+export interface ChangeFeed {
+  /**
+   * Start receiving changes to tasks and projects in a workspace.
+   * Resolves with a function that stops them.
+   */
+  watchWorkspace(workspaceId: string, listener: ChangeListener): Promise<() => void>;
+}
+
+// ============================================================================
+// Shared Instance
+// ============================================================================
+
+let changeFeedInstance: ChangeFeed | undefined;
+let logChanges = false;
+
+/**
+ * Initialize the change feed for the shared repository (stdio mode).
+ * Must be called after initializeRepository().
+ */
+export function initializeChangeFeed(config: ServerConfig, repo: CanvasRepository): ChangeFeed {
+  changeFeedInstance = repo instanceof LocalRepository
+    ? new LocalChangeFeed(repo.events)
+    : new SupabaseChangeFeed(getSupabase());
+
+  logChanges = config.logChanges ?? false;
+  return changeFeedInstance;
+}
+
+/**
+ * Get the shared change feed, or undefined if it hasn't been initialized.
+ */
+export function getChangeFeed(): ChangeFeed | undefined {
+  return changeFeedInstance;
+}
+
+/**
+ * Whether sessions should also send a logging message for each change
+ * (CANVAS_LOG_CHANGES).
+ */
+export function isChangeLoggingEnabled(): boolean {
+  return logChanges;
+}
@@ -0,0 +1,31 @@
+/**
+ * Local Change Feed
+ *
+ * ChangeFeed backed by a Node EventEmitter. LocalRepository emits a
+ * CanvasChange on its `events` emitter for every write; tests can emit
+ * changes on any emitter directly.
+ */
+
+import type { EventEmitter } from 'node:events';
+
+import type { CanvasChange, ChangeFeed, ChangeListener } from './index.js';
+
+/** Event name carrying CanvasChange payloads */
+export const CHANGE_EVENT = 'change';
+
+export class LocalChangeFeed implements ChangeFeed {
+  constructor(private readonly events: EventEmitter) {}
+
+  async watchWorkspace(workspaceId: string, listener: ChangeListener): Promise<() => void> {
+    const handler = (change: CanvasChange) => {
+      if (change.workspaceId === workspaceId) {
+        listener(change);
+      }
+    };
+
+    this.events.on(CHANGE_EVENT, handler);
+    return () => {
+      this.events.off(CHANGE_EVENT, handler);
+    };
+  }
+}
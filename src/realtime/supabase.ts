@@ -0,0 +1,84 @@
+/**
+ * Supabase Change Feed
+ *
+ * ChangeFeed backed by Supabase Realtime Postgres changes. Each watched
+ * workspace gets its own channel. Projects are filtered by workspace on the
+ * server; tasks have no workspace column, so task changes are matched
+ * against the workspace's project IDs here.
+ *
+ * Realtime only reports the primary key of deleted rows unless the table
+ * uses REPLICA IDENTITY FULL, so task deletes are reported only in that case.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+
+import type { ChangeFeed, ChangeListener, ChangeType } from './index.js';
+import type { ProjectRow, TaskRow } from '../types/index.js';
+
+export class SupabaseChangeFeed implements ChangeFeed {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async watchWorkspace(workspaceId: string, listener: ChangeListener): Promise<() => void> {
+    const { data, error } = await this.supabase
+      .from('projects')
+      .select('id')
+      .eq('workspace_id', workspaceId);
+
+    if (error) {
+      throw new Error(`Failed to load projects for workspace ${workspaceId}: ${error.message}`);
+    }
+
+    const projectIds = new Set((data ?? []).map((p: { id: string }) => p.id));
+
+    const channel = this.supabase
+      .channel(`canvas-workspace-${workspaceId}-${randomUUID()}`)
+      .on<Pick<ProjectRow, 'id'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'projects', filter: `workspace_id=eq.${workspaceId}` },
+        (payload) => {
+          const row = changedRow(payload);
+          if (!row.id) {
+            return;
+          }
+
+          // Track new projects so their tasks are picked up too
+          if (payload.eventType === 'DELETE') {
+            projectIds.delete(row.id);
+          } else {
+            projectIds.add(row.id);
+          }
+
+          listener({ table: 'projects', type: payload.eventType as ChangeType, id: row.id, projectId: row.id, workspaceId });
+        }
+      )
+      .on<Pick<TaskRow, 'id' | 'project_id'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tasks' },
+        (payload) => {
+          const row = changedRow(payload);
+          if (!row.id || !row.project_id || !projectIds.has(row.project_id)) {
+            return;
+          }
+
+          listener({ table: 'tasks', type: payload.eventType as ChangeType, id: row.id, projectId: row.project_id, workspaceId });
+        }
+      )
+      .subscribe((status, err) => {
+        if (err) {
+          console.error(`[realtime] Channel for workspace ${workspaceId} ${status}:`, err.message);
+        }
+      });
+
+    return () => {
+      void this.supabase.removeChannel(channel);
+    };
+  }
+}
+
+/**
+ * The row a change applies to: the new row, or the old one for deletes.
+ */
+function changedRow<T extends Record<string, unknown>>(payload: RealtimePostgresChangesPayload<T>): Partial<T> {
+  return payload.eventType === 'DELETE' ? payload.old : payload.new;
+}
@@ -0,0 +1,358 @@
+/**
+ * Canvas Data Repository
+ *
+ * Tool functions never talk to a database client directly. They go through a
+ * CanvasRepository, which has two implementations:
+ * - SupabaseRepository: the hosted Limitless Canvas database (default)
+ * - LocalRepository: an in-memory store persisted to a JSON file, for
+ *   offline use and tests (CANVAS_BACKEND=local)
+ *
+ * Methods mirror Supabase's `{ data, error }` result shape so tool code can
+ * handle both backends the same way.
+ */
+
+import { initializeSupabase, getSupabase } from '../supabase/client.js';
+import { SupabaseRepository } from './supabase.js';
+import { LocalRepository, LOCAL_DEFAULT_WORKSPACE_ID } from './local.js';
+import type {
+  WorkspaceRow,
+  ProjectRow,
+  TaskRow,
+  TaskSearchResult,
+  TeamMemberRow,
+  ActivityRow,
+  ActivityEntityType,
+  TaskDependencyRow,
+  TaskCommentRow,
+  TimeEntryRow,
+  SprintRow,
+  ProjectStatus,
+  TaskStatus,
+  TaskPriority,
+  ServerConfig,
+} from '../types/index.js';
+
+export { SupabaseRepository } from './supabase.js';
+export { LocalRepository, LOCAL_DEFAULT_WORKSPACE_ID } from './local.js';
+export type { LocalData, LocalRepositoryOptions } from './local.js';
+
+// ============================================================================
+// Result and Filter Types
+// ============================================================================
+
+export interface RepoError {
+  message: string;
+}
+
+export type RepoResult<T> = { data: T; error: null } | { data: null; error: RepoError };
+
+export interface ProjectFilter {
+  workspaceId?: string;
+  status?: ProjectStatus;
+  limit?: number;
+}
+
+/**
+ * Columns tasks can be sorted by. Priority and status sort by rank (most
+ * urgent first; board columns left to right), not alphabetically.
+ */
+export type TaskSortColumn =
+  | 'project_id'
+  | 'status'
+  | 'order'
+  | 'priority'
+  | 'due_date'
+  | 'updated_at'
+  | 'created_at'
+  | 'deleted_at';
+
+/** Missing values (no due date, not trashed) sort last either way */
+export interface TaskOrdering {
+  column: TaskSortColumn;
+  ascending: boolean;
+}
+
+/** A task's place in a sort: its ID and its values in the sorted columns */
+export type TaskPosition = Pick<TaskRow, 'id'> & Partial<Pick<TaskRow, TaskSortColumn>>;
+
+/** Whether task queries skip (default), include, or only return trashed tasks */
+export type TrashFilter = 'exclude' | 'include' | 'only';
+
+export interface TaskFilter {
+  taskIds?: string[];
+  projectIds?: string[];
+  parentTaskIds?: string[];
+  sprintIds?: string[];
+  assigneeIds?: string[];
+  /** Only tasks without an assignee */
+  unassigned?: boolean;
+  statuses?: TaskStatus[];
+  priorities?: TaskPriority[];
+  /** Only tasks with at least one of these tags */
+  tagsAny?: string[];
+  /** Only tasks with every one of these tags */
+  tagsAll?: string[];
+  trash?: TrashFilter;
+  /** Only tasks trashed at or before this ISO timestamp (implies trash: 'only') */
+  deletedBefore?: string;
+  /** Only tasks updated at or after this ISO timestamp */
+  updatedSince?: string;
+  /** Only tasks created at or after this ISO timestamp */
+  createdSince?: string;
+  /** Only tasks due on or after this ISO date */
+  dueFrom?: string;
+  /** Only tasks due before this ISO date */
+  dueBefore?: string;
+  /** Sort by these columns in turn, then by ID (default: board order) */
+  orderBy?: TaskOrdering[];
+  /** Only tasks sorting after this one under `orderBy`, for keyset paging */
+  after?: TaskPosition;
+  limit?: number;
+}
+
+export interface TaskSearch {
+  /** Lowercase words (letters and digits only), each matched as a word prefix */
+  terms: string[];
+  workspaceId?: string;
+  projectId?: string;
+  status?: TaskStatus;
+  limit: number;
+}
+
+/**
+ * Fields a caller must provide when creating a project; the rest use column defaults.
+ * An `id` is only passed when restoring a deleted project.
+ */
+export type NewProjectRow = Pick<
+  ProjectRow,
+  'workspace_id' | 'name' | 'status' | 'priority' | 'progress' | 'item_type' | 'created_at' | 'updated_at'
+> &
+  Partial<ProjectRow>;
+
+/**
+ * Fields a caller must provide when creating a task; the rest use column defaults.
+ * An `id` is only passed when restoring a deleted task.
+ */
+export type NewTaskRow = Pick<
+  TaskRow,
+  'project_id' | 'title' | 'status' | 'priority' | 'order' | 'created_at' | 'updated_at'
+> &
+  Partial<TaskRow>;
+
+export interface ActivityFilter {
+  workspaceId?: string;
+  projectIds?: string[];
+  entityType?: ActivityEntityType;
+  entityId?: string;
+  /** Only entries created at or after this ISO timestamp */
+  since?: string;
+  /** Skip this many of the newest matching entries, to read page by page */
+  offset?: number;
+  limit?: number;
+}
+
+export type NewActivityRow = Omit<ActivityRow, 'id'>;
+
+export interface DependencyFilter {
+  /** Dependencies of these tasks */
+  taskIds?: string[];
+  /** Dependencies on these tasks */
+  dependsOnTaskIds?: string[];
+}
+
+export interface SprintFilter {
+  projectIds?: string[];
+  /** Only open (true) or only closed (false) sprints */
+  open?: boolean;
+}
+
+export type NewSprintRow = Omit<SprintRow, 'id'>;
+export type SprintUpdate = Partial<Omit<SprintRow, 'id'>>;
+
+export interface CommentFilter {
+  taskIds: string[];
+  limit?: number;
+}
+
+export type NewTaskCommentRow = Omit<TaskCommentRow, 'id'>;
+
+export interface TimeEntryFilter {
+  taskIds?: string[];
+  projectIds?: string[];
+  /** Only running (true) or only finished (false) entries */
+  running?: boolean;
+  /** Only entries started at or after this ISO timestamp */
+  startedFrom?: string;
+  /** Only entries started before this ISO timestamp */
+  startedBefore?: string;
+}
+
+export type NewTimeEntryRow = Omit<TimeEntryRow, 'id'>;
+export type TimeEntryUpdate = Partial<Omit<TimeEntryRow, 'id'>>;
+
+export type NewTeamMemberRow = Omit<TeamMemberRow, 'id'>;
+export type TeamMemberUpdate = Partial<Omit<TeamMemberRow, 'id' | 'workspace_id'>>;
+
+export type ProjectUpdate = Partial<Omit<ProjectRow, 'id'>>;
+export type TaskUpdate = Partial<Omit<TaskRow, 'id'>>;
+
+// ============================================================================
+// Repository Interface
+// ============================================================================
+
+export interface CanvasRepository {
+  // Workspaces
+  listWorkspaces(options?: { limit?: number }): Promise<RepoResult<WorkspaceRow[]>>;
+  getWorkspace(workspaceId: string): Promise<RepoResult<WorkspaceRow | null>>;
+
+  // Projects
+  listProjects(filter: ProjectFilter): Promise<RepoResult<ProjectRow[]>>;
+  getProject(projectId: string): Promise<RepoResult<ProjectRow | null>>;
+  createProject(project: NewProjectRow): Promise<RepoResult<ProjectRow>>;
+  updateProject(projectId: string, updates: ProjectUpdate): Promise<RepoResult<ProjectRow>>;
+  deleteProject(projectId: string): Promise<RepoResult<null>>;
+
+  // Tasks
+  listTasks(filter: TaskFilter): Promise<RepoResult<TaskRow[]>>;
+  /** Number of tasks matching the filter, ignoring `orderBy`, `after` and `limit` */
+  countTasks(filter: TaskFilter): Promise<RepoResult<number>>;
+  getTask(taskId: string): Promise<RepoResult<TaskRow | null>>;
+  createTask(task: NewTaskRow): Promise<RepoResult<TaskRow>>;
+  updateTask(taskId: string, updates: TaskUpdate): Promise<RepoResult<TaskRow>>;
+  deleteTask(taskId: string): Promise<RepoResult<null>>;
+  /** Insert several tasks at once; rows come back in the order given */
+  createTasks(tasks: NewTaskRow[]): Promise<RepoResult<TaskRow[]>>;
+  /** Overwrite several existing tasks with the given full rows at once */
+  updateTasks(tasks: TaskRow[]): Promise<RepoResult<TaskRow[]>>;
+  /** Best match first; every term must match the title, tags, description or comments */
+  searchTasks(search: TaskSearch): Promise<RepoResult<TaskSearchResult[]>>;
+
+  // Task dependencies
+  listDependencies(filter: DependencyFilter): Promise<RepoResult<TaskDependencyRow[]>>;
+  addDependency(dependency: TaskDependencyRow): Promise<RepoResult<TaskDependencyRow>>;
+  removeDependency(taskId: string, dependsOnTaskId: string): Promise<RepoResult<null>>;
+
+  // Sprints (by start date)
+  listSprints(filter: SprintFilter): Promise<RepoResult<SprintRow[]>>;
+  getSprint(sprintId: string): Promise<RepoResult<SprintRow | null>>;
+  createSprint(sprint: NewSprintRow): Promise<RepoResult<SprintRow>>;
+  updateSprint(sprintId: string, updates: SprintUpdate): Promise<RepoResult<SprintRow>>;
+
+  // Task comments (newest first)
+  listComments(filter: CommentFilter): Promise<RepoResult<TaskCommentRow[]>>;
+  addComment(comment: NewTaskCommentRow): Promise<RepoResult<TaskCommentRow>>;
+
+  // Time entries (oldest first)
+  listTimeEntries(filter: TimeEntryFilter): Promise<RepoResult<TimeEntryRow[]>>;
+  createTimeEntry(entry: NewTimeEntryRow): Promise<RepoResult<TimeEntryRow>>;
+  updateTimeEntry(entryId: string, updates: TimeEntryUpdate): Promise<RepoResult<TimeEntryRow>>;
+
+  // Team members (by name)
+  listTeamMembers(workspaceId: string): Promise<RepoResult<TeamMemberRow[]>>;
+  getTeamMember(memberId: string): Promise<RepoResult<TeamMemberRow | null>>;
+  createTeamMember(member: NewTeamMemberRow): Promise<RepoResult<TeamMemberRow>>;
+  updateTeamMember(memberId: string, updates: TeamMemberUpdate): Promise<RepoResult<TeamMemberRow>>;
+
+  // Activity log (newest first)
+  recordActivity(entries: NewActivityRow[]): Promise<RepoResult<ActivityRow[]>>;
+  listActivity(filter: ActivityFilter): Promise<RepoResult<ActivityRow[]>>;
+}
+
+// ============================================================================
+// Shared Instance
+// ============================================================================
+
+let repositoryInstance: CanvasRepository | null = null;
+let currentConfig: ServerConfig | null = null;
+
+/** WIP limit per person when CANVAS_WIP_LIMIT isn't set */
+const DEFAULT_WIP_LIMIT = 3;
+
+/**
+ * Initialize the shared repository for the configured backend.
+ * Must be called before any tool runs with the service context.
+ */
+export function initializeRepository(config: ServerConfig): CanvasRepository {
+  if (config.backend === 'local') {
+    repositoryInstance = new LocalRepository({ filePath: config.localDataFile });
+  } else {
+    initializeSupabase(config);
+    repositoryInstance = new SupabaseRepository(getSupabase());
+  }
+
+  currentConfig = config;
+  return repositoryInstance;
+}
+
+/**
+ * Get the shared repository.
+ * Throws if it hasn't been initialized.
+ */
+export function getRepository(): CanvasRepository {
+  if (!repositoryInstance) {
+    throw new Error('Repository not initialized. Call initializeRepository() first.');
+  }
+  return repositoryInstance;
+}
+
+/**
+ * Get the default workspace ID from config.
+ * The local backend falls back to its built-in workspace.
+ */
+export function getDefaultWorkspaceId(): string | undefined {
+  if (currentConfig?.defaultWorkspaceId) {
+    return currentConfig.defaultWorkspaceId;
+  }
+  return currentConfig?.backend === 'local' ? LOCAL_DEFAULT_WORKSPACE_ID : undefined;
+}
+
+/**
+ * Whether project progress weights parent tasks by their subtasks.
+ */
+export function isSubtaskWeightingEnabled(): boolean {
+  return currentConfig?.weightSubtasks ?? false;
+}
+
+/**
+ * How many in-progress and review tasks a person can hold before
+ * get_workload flags them.
+ */
+export function getWipLimit(): number {
+  const limit = currentConfig?.wipLimit;
+  return limit && limit > 0 ? limit : DEFAULT_WIP_LIMIT;
+}
+
+/**
+ * Time zone for relative due dates in workspaces without their own.
+ */
+export function getDefaultTimeZone(): string {
+  return currentConfig?.timeZone || 'UTC';
+}
+
+// ============================================================================
+// Validation Helpers
+// ============================================================================
+
+/**
+ * Check if a workspace ID is valid (exists and is visible to this repository).
+ */
+export async function validateWorkspaceId(repo: CanvasRepository, workspaceId: string): Promise<boolean> {
+  const { data, error } = await repo.getWorkspace(workspaceId);
+  return !error && !!data;
+}
+
+/**
+ * Check if a project ID is valid (exists and is visible to this repository).
+ */
+export async function validateProjectId(repo: CanvasRepository, projectId: string): Promise<boolean> {
+  const { data, error } = await repo.getProject(projectId);
+  return !error && !!data;
+}
+
+/**
+ * Check if a task ID is valid (exists and is visible to this repository).
+ */
+export async function validateTaskId(repo: CanvasRepository, taskId: string): Promise<boolean> {
+  const { data, error } = await repo.getTask(taskId);
+  return !error && !!data;
+}
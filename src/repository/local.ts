@@ -0,0 +1,692 @@
+/**
+ * Local Repository
+ *
+ * CanvasRepository backed by an in-memory store, optionally persisted to a
+ * JSON file. Selected with CANVAS_BACKEND=local so the MCP server works
+ * without a Supabase project (offline, CI), and used by the test suite.
+ *
+ * A new store starts with a single "Local Workspace" so tools work
+ * immediately without any setup.
+ *
+ * Every write emits a CanvasChange on `events`, which LocalChangeFeed
+ * turns into resource update notifications.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+import type {
+  CanvasRepository,
+  RepoResult,
+  ProjectFilter,
+  TaskFilter,
+  TaskOrdering,
+  TaskPosition,
+  TaskSearch,
+  ActivityFilter,
+  DependencyFilter,
+  CommentFilter,
+  NewActivityRow,
+  NewTaskCommentRow,
+  NewTimeEntryRow,
+  NewSprintRow,
+  NewTeamMemberRow,
+  SprintFilter,
+  SprintUpdate,
+  TimeEntryFilter,
+  TimeEntryUpdate,
+  NewProjectRow,
+  NewTaskRow,
+  ProjectUpdate,
+  TaskUpdate,
+  TeamMemberUpdate,
+} from './index.js';
+import type {
+  WorkspaceRow,
+  ProjectRow,
+  TaskRow,
+  TaskSearchResult,
+  SearchField,
+  SearchHighlight,
+  TeamMemberRow,
+  ActivityRow,
+  TaskDependencyRow,
+  TaskCommentRow,
+  TimeEntryRow,
+  SprintRow,
+} from '../types/index.js';
+import { taskSortValue } from './ordering.js';
+import { CHANGE_EVENT } from '../realtime/local.js';
+import type { CanvasChange, ChangeTable, ChangeType } from '../realtime/index.js';
+
+export const LOCAL_DEFAULT_WORKSPACE_ID = 'local';
+
+export interface LocalData {
+  workspaces: WorkspaceRow[];
+  projects: ProjectRow[];
+  tasks: TaskRow[];
+  team_members: TeamMemberRow[];
+  activity_log: ActivityRow[];
+  task_dependencies: TaskDependencyRow[];
+  task_comments: TaskCommentRow[];
+  time_entries: TimeEntryRow[];
+  sprints: SprintRow[];
+}
+
+export interface LocalRepositoryOptions {
+  /** JSON file to load from and persist to. Omit for a purely in-memory store. */
+  filePath?: string;
+  /** Initial data for a new store (ignored when filePath already exists) */
+  seed?: Partial<LocalData>;
+}
+
+/**
+ * Create the initial data for an empty store.
+ */
+function createDefaultData(): LocalData {
+  const now = new Date().toISOString();
+  return {
+    workspaces: [
+      {
+        id: LOCAL_DEFAULT_WORKSPACE_ID,
+        name: 'Local Workspace',
+        color: '#8B5CF6',
+        logo: null,
+        owner_id: null,
+        time_zone: null,
+        created_at: now,
+        updated_at: now,
+      },
+    ],
+    projects: [],
+    tasks: [],
+    team_members: [],
+    activity_log: [],
+    task_dependencies: [],
+    task_comments: [],
+    time_entries: [],
+    sprints: [],
+  };
+}
+
+function ok<T>(data: T): RepoResult<T> {
+  return { data: structuredClone(data), error: null };
+}
+
+function notFound<T>(entity: string, id: string): RepoResult<T> {
+  return { data: null, error: { message: `${entity} "${id}" not found` } };
+}
+
+function matchesTrash(task: TaskRow, filter: TaskFilter): boolean {
+  if (filter.deletedBefore) {
+    return !!task.deleted_at && task.deleted_at <= filter.deletedBefore;
+  }
+  if (filter.trash === 'only') {
+    return !!task.deleted_at;
+  }
+  return filter.trash === 'include' || !task.deleted_at;
+}
+
+/**
+ * Compare tasks column by column, then by ID, as the database sorts them:
+ * missing values last either way.
+ */
+function compareTasks(orderings: TaskOrdering[]): (a: TaskPosition, b: TaskPosition) => number {
+  return (a, b) => {
+    for (const { column, ascending } of orderings) {
+      const left = taskSortValue(a, column);
+      const right = taskSortValue(b, column);
+
+      if (left === right) continue;
+      if (left === null) return 1;
+      if (right === null) return -1;
+      return (left < right ? -1 : 1) * (ascending ? 1 : -1);
+    }
+
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  };
+}
+
+function byUpdatedAtDesc(a: { updated_at: string }, b: { updated_at: string }): number {
+  return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
+}
+
+// Full-text search, following the hosted search_tasks function
+// (supabase/migrations/20261019001200_task_search.sql)
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/** What one matching word adds to a task's score, by field (ts_rank's defaults) */
+const SEARCH_WEIGHTS: Record<SearchField, number> = { title: 1, tags: 0.4, description: 0.2, comments: 0.1 };
+
+/** Words kept around the first match in description and comment snippets */
+const SNIPPET_WORDS = 20;
+
+/**
+ * Score a task's fields against the search terms, each matched as a word
+ * prefix. Null unless every term matches in some field.
+ */
+function matchSearch(
+  fields: Record<SearchField, string>,
+  terms: string[]
+): { score: number; highlights: SearchHighlight[] } | null {
+  const matches = (word: string) => terms.some((term) => word.toLowerCase().startsWith(term));
+  const searchFields = Object.keys(SEARCH_WEIGHTS) as SearchField[];
+  const words = (field: SearchField) => fields[field].match(WORD_PATTERN) ?? [];
+
+  const found = terms.every((term) =>
+    searchFields.some((field) => words(field).some((word) => word.toLowerCase().startsWith(term)))
+  );
+  if (!found) {
+    return null;
+  }
+
+  let score = 0;
+  const highlights: SearchHighlight[] = [];
+
+  for (const field of searchFields) {
+    const hits = words(field).filter(matches).length;
+    if (hits > 0) {
+      score += hits * SEARCH_WEIGHTS[field];
+      highlights.push({ field, snippet: snippet(fields[field], matches, field === 'description' || field === 'comments') });
+    }
+  }
+
+  return { score: Math.round(score * 1000) / 1000, highlights };
+}
+
+/**
+ * The text with matching words in **bold**, cut to the words around the
+ * first match if `cut` is set.
+ */
+function snippet(text: string, matches: (word: string) => boolean, cut: boolean): string {
+  let tokens = text.split(/\s+/).filter(Boolean);
+  let prefix = '';
+  let suffix = '';
+
+  if (cut && tokens.length > SNIPPET_WORDS) {
+    const first = tokens.findIndex((token) => (token.match(WORD_PATTERN) ?? []).some(matches));
+    const start = Math.max(0, Math.min(first - 5, tokens.length - SNIPPET_WORDS));
+    prefix = start > 0 ? '… ' : '';
+    suffix = start + SNIPPET_WORDS < tokens.length ? ' …' : '';
+    tokens = tokens.slice(start, start + SNIPPET_WORDS);
+  }
+
+  const marked = tokens.map((token) => token.replace(WORD_PATTERN, (word) => (matches(word) ? `**${word}**` : word)));
+  return prefix + marked.join(' ') + suffix;
+}
+
+export class LocalRepository implements CanvasRepository {
+  /** Emits a CanvasChange (CHANGE_EVENT) for every task and project write */
+  readonly events = new EventEmitter();
+
+  private data: LocalData;
+  private readonly filePath?: string;
+
+  constructor(options: LocalRepositoryOptions = {}) {
+    this.filePath = options.filePath;
+
+    if (this.filePath && existsSync(this.filePath)) {
+      const stored = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Partial<LocalData>;
+      this.data = { ...createDefaultData(), ...stored };
+    } else if (options.seed) {
+      this.data = { ...createDefaultData(), ...structuredClone(options.seed) };
+    } else {
+      this.data = createDefaultData();
+    }
+  }
+
+  // ==========================================================================
+  // Workspaces
+  // ==========================================================================
+
+  async listWorkspaces(options: { limit?: number } = {}): Promise<RepoResult<WorkspaceRow[]>> {
+    const rows = [...this.data.workspaces].sort(byUpdatedAtDesc);
+    return ok(options.limit ? rows.slice(0, options.limit) : rows);
+  }
+
+  async getWorkspace(workspaceId: string): Promise<RepoResult<WorkspaceRow | null>> {
+    return ok(this.data.workspaces.find((w) => w.id === workspaceId) ?? null);
+  }
+
+  // ==========================================================================
+  // Projects
+  // ==========================================================================
+
+  async listProjects(filter: ProjectFilter): Promise<RepoResult<ProjectRow[]>> {
+    const rows = this.data.projects
+      .filter((p) => !filter.workspaceId || p.workspace_id === filter.workspaceId)
+      .filter((p) => !filter.status || p.status === filter.status)
+      .sort(byUpdatedAtDesc);
+
+    return ok(filter.limit ? rows.slice(0, filter.limit) : rows);
+  }
+
+  async getProject(projectId: string): Promise<RepoResult<ProjectRow | null>> {
+    return ok(this.data.projects.find((p) => p.id === projectId) ?? null);
+  }
+
+  async createProject(project: NewProjectRow): Promise<RepoResult<ProjectRow>> {
+    const row: ProjectRow = {
+      id: randomUUID(),
+      description: null,
+      budget: null,
+      spent: null,
+      due_date: null,
+      client_id: null,
+      team_size: null,
+      estimated_duration_hours: null,
+      progress_mode: 'count',
+      ...project,
+    };
+
+    this.data.projects.push(row);
+    this.persist();
+    this.emitChange('projects', 'INSERT', row.id, row.id);
+    return ok(row);
+  }
+
+  async updateProject(projectId: string, updates: ProjectUpdate): Promise<RepoResult<ProjectRow>> {
+    const row = this.data.projects.find((p) => p.id === projectId);
+    if (!row) {
+      return notFound('Project', projectId);
+    }
+
+    Object.assign(row, updates);
+    this.persist();
+    this.emitChange('projects', 'UPDATE', row.id, row.id);
+    return ok(row);
+  }
+
+  async deleteProject(projectId: string): Promise<RepoResult<null>> {
+    const row = this.data.projects.find((p) => p.id === projectId);
+    if (row) {
+      // Emit before removing the row, while its workspace can still be resolved
+      this.emitChange('projects', 'DELETE', row.id, row.id);
+    }
+    this.data.projects = this.data.projects.filter((p) => p.id !== projectId);
+    this.persist();
+    return ok(null);
+  }
+
+  // ==========================================================================
+  // Tasks
+  // ==========================================================================
+
+  async listTasks(filter: TaskFilter): Promise<RepoResult<TaskRow[]>> {
+    const compare = compareTasks(filter.orderBy ?? [{ column: 'order', ascending: true }]);
+    const after = filter.after;
+
+    const rows = this.matchTasks(filter)
+      .filter((t) => !after || compare(t, after) > 0)
+      .sort(compare);
+
+    return ok(filter.limit ? rows.slice(0, filter.limit) : rows);
+  }
+
+  async countTasks(filter: TaskFilter): Promise<RepoResult<number>> {
+    return ok(this.matchTasks(filter).length);
+  }
+
+  /** The tasks meeting the filter's conditions, unsorted */
+  private matchTasks(filter: TaskFilter): TaskRow[] {
+    return this.data.tasks
+      .filter((t) => !filter.taskIds || filter.taskIds.includes(t.id))
+      .filter((t) => !filter.projectIds || filter.projectIds.includes(t.project_id))
+      .filter((t) => !filter.parentTaskIds || (!!t.parent_task_id && filter.parentTaskIds.includes(t.parent_task_id)))
+      .filter((t) => !filter.sprintIds || (!!t.sprint_id && filter.sprintIds.includes(t.sprint_id)))
+      .filter((t) => !filter.assigneeIds || (!!t.assignee_id && filter.assigneeIds.includes(t.assignee_id)))
+      .filter((t) => !filter.unassigned || !t.assignee_id)
+      .filter((t) => !filter.statuses || filter.statuses.includes(t.status))
+      .filter((t) => !filter.priorities || filter.priorities.includes(t.priority))
+      .filter((t) => !filter.tagsAny || filter.tagsAny.some((tag) => t.tags?.includes(tag)))
+      .filter((t) => !filter.tagsAll || filter.tagsAll.every((tag) => t.tags?.includes(tag)))
+      .filter((t) => !filter.updatedSince || t.updated_at >= filter.updatedSince)
+      .filter((t) => !filter.createdSince || t.created_at >= filter.createdSince)
+      .filter((t) => !filter.dueFrom || (t.due_date !== null && t.due_date >= filter.dueFrom))
+      .filter((t) => !filter.dueBefore || (t.due_date !== null && t.due_date < filter.dueBefore))
+      .filter((t) => matchesTrash(t, filter));
+  }
+
+  async getTask(taskId: string): Promise<RepoResult<TaskRow | null>> {
+    return ok(this.data.tasks.find((t) => t.id === taskId) ?? null);
+  }
+
+  async createTask(task: NewTaskRow): Promise<RepoResult<TaskRow>> {
+    const { data, error } = await this.createTasks([task]);
+    return error ? { data: null, error } : { data: data[0], error: null };
+  }
+
+  async createTasks(tasks: NewTaskRow[]): Promise<RepoResult<TaskRow[]>> {
+    const rows: TaskRow[] = tasks.map((task) => ({
+      id: randomUUID(),
+      description: null,
+      assignee: null,
+      assignee_id: null,
+      due_date: null,
+      tags: null,
+      estimate: null,
+      parent_task_id: null,
+      deleted_at: null,
+      sprint_id: null,
+      ...task,
+    }));
+
+    this.data.tasks.push(...rows);
+    this.persist();
+    for (const row of rows) {
+      this.emitChange('tasks', 'INSERT', row.id, row.project_id);
+    }
+    return ok(rows);
+  }
+
+  async updateTasks(tasks: TaskRow[]): Promise<RepoResult<TaskRow[]>> {
+    const rows: TaskRow[] = [];
+    for (const task of tasks) {
+      const row = this.data.tasks.find((t) => t.id === task.id);
+      if (!row) {
+        return notFound('Task', task.id);
+      }
+      rows.push(row);
+    }
+
+    rows.forEach((row, i) => Object.assign(row, tasks[i]));
+    this.persist();
+    for (const row of rows) {
+      this.emitChange('tasks', 'UPDATE', row.id, row.project_id);
+    }
+    return ok(rows);
+  }
+
+  async updateTask(taskId: string, updates: TaskUpdate): Promise<RepoResult<TaskRow>> {
+    const row = this.data.tasks.find((t) => t.id === taskId);
+    if (!row) {
+      return notFound('Task', taskId);
+    }
+
+    Object.assign(row, updates);
+    this.persist();
+    this.emitChange('tasks', 'UPDATE', row.id, row.project_id);
+    return ok(row);
+  }
+
+  async deleteTask(taskId: string): Promise<RepoResult<null>> {
+    const row = this.data.tasks.find((t) => t.id === taskId);
+    this.data.tasks = this.data.tasks.filter((t) => t.id !== taskId);
+    this.data.task_dependencies = this.data.task_dependencies.filter(
+      (d) => d.task_id !== taskId && d.depends_on_task_id !== taskId
+    );
+    this.data.task_comments = this.data.task_comments.filter((c) => c.task_id !== taskId);
+    this.data.time_entries = this.data.time_entries.filter((e) => e.task_id !== taskId);
+    this.persist();
+    if (row) {
+      this.emitChange('tasks', 'DELETE', row.id, row.project_id);
+    }
+    return ok(null);
+  }
+
+  async searchTasks(search: TaskSearch): Promise<RepoResult<TaskSearchResult[]>> {
+    const projects = new Map(this.data.projects.map((p) => [p.id, p]));
+    const comments = new Map<string, string[]>();
+
+    for (const comment of [...this.data.task_comments].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+      comments.set(comment.task_id, [...(comments.get(comment.task_id) ?? []), comment.body]);
+    }
+
+    const rows = this.data.tasks
+      .filter((t) => !t.deleted_at)
+      .filter((t) => !search.projectId || t.project_id === search.projectId)
+      .filter((t) => !search.status || t.status === search.status)
+      .filter((t) => !search.workspaceId || projects.get(t.project_id)?.workspace_id === search.workspaceId)
+      .flatMap((t) => {
+        const match = matchSearch(
+          {
+            title: t.title,
+            tags: (t.tags ?? []).join(' '),
+            description: t.description ?? '',
+            comments: (comments.get(t.id) ?? []).join(' '),
+          },
+          search.terms
+        );
+        if (!match) {
+          return [];
+        }
+
+        const project = projects.get(t.project_id);
+        return [
+          {
+            ...t,
+            project: {
+              id: t.project_id,
+              name: project?.name ?? '',
+              workspace_id: project?.workspace_id ?? '',
+            },
+            ...match,
+          },
+        ];
+      })
+      .sort((a, b) => b.score - a.score || byUpdatedAtDesc(a, b))
+      .slice(0, search.limit);
+
+    return ok(rows);
+  }
+
+  // ==========================================================================
+  // Task Dependencies
+  // ==========================================================================
+
+  async listDependencies(filter: DependencyFilter): Promise<RepoResult<TaskDependencyRow[]>> {
+    return ok(
+      this.data.task_dependencies
+        .filter((d) => !filter.taskIds || filter.taskIds.includes(d.task_id))
+        .filter((d) => !filter.dependsOnTaskIds || filter.dependsOnTaskIds.includes(d.depends_on_task_id))
+    );
+  }
+
+  async addDependency(dependency: TaskDependencyRow): Promise<RepoResult<TaskDependencyRow>> {
+    const exists = this.data.task_dependencies.some(
+      (d) => d.task_id === dependency.task_id && d.depends_on_task_id === dependency.depends_on_task_id
+    );
+    if (exists) {
+      return { data: null, error: { message: 'Dependency already exists' } };
+    }
+
+    this.data.task_dependencies.push({ ...dependency });
+    this.persist();
+    return ok(dependency);
+  }
+
+  async removeDependency(taskId: string, dependsOnTaskId: string): Promise<RepoResult<null>> {
+    this.data.task_dependencies = this.data.task_dependencies.filter(
+      (d) => !(d.task_id === taskId && d.depends_on_task_id === dependsOnTaskId)
+    );
+    this.persist();
+    return ok(null);
+  }
+
+  // ==========================================================================
+  // Sprints
+  // ==========================================================================
+
+  async listSprints(filter: SprintFilter): Promise<RepoResult<SprintRow[]>> {
+    const rows = this.data.sprints
+      .filter((s) => !filter.projectIds || filter.projectIds.includes(s.project_id))
+      .filter((s) => filter.open === undefined || (s.closed_at === null) === filter.open)
+      .sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+    return ok(rows);
+  }
+
+  async getSprint(sprintId: string): Promise<RepoResult<SprintRow | null>> {
+    return ok(this.data.sprints.find((s) => s.id === sprintId) ?? null);
+  }
+
+  async createSprint(sprint: NewSprintRow): Promise<RepoResult<SprintRow>> {
+    const row: SprintRow = { id: randomUUID(), ...sprint };
+    this.data.sprints.push(row);
+    this.persist();
+    return ok(row);
+  }
+
+  async updateSprint(sprintId: string, updates: SprintUpdate): Promise<RepoResult<SprintRow>> {
+    const row = this.data.sprints.find((s) => s.id === sprintId);
+    if (!row) {
+      return notFound('Sprint', sprintId);
+    }
+
+    Object.assign(row, updates);
+    this.persist();
+    return ok(row);
+  }
+
+  // ==========================================================================
+  // Task Comments
+  // ==========================================================================
+
+  async listComments(filter: CommentFilter): Promise<RepoResult<TaskCommentRow[]>> {
+    // Comments are appended in order, so reverse for newest first (stable for equal timestamps)
+    const rows = [...this.data.task_comments].reverse().filter((c) => filter.taskIds.includes(c.task_id));
+    return ok(filter.limit ? rows.slice(0, filter.limit) : rows);
+  }
+
+  async addComment(comment: NewTaskCommentRow): Promise<RepoResult<TaskCommentRow>> {
+    const task = this.data.tasks.find((t) => t.id === comment.task_id);
+    if (!task) {
+      return notFound('Task', comment.task_id);
+    }
+
+    const row: TaskCommentRow = { id: randomUUID(), ...comment };
+    this.data.task_comments.push(row);
+    this.persist();
+    this.emitChange('tasks', 'UPDATE', task.id, task.project_id);
+    return ok(row);
+  }
+
+  // ==========================================================================
+  // Time Entries
+  // ==========================================================================
+
+  async listTimeEntries(filter: TimeEntryFilter): Promise<RepoResult<TimeEntryRow[]>> {
+    const rows = this.data.time_entries
+      .filter((e) => !filter.taskIds || filter.taskIds.includes(e.task_id))
+      .filter((e) => !filter.projectIds || filter.projectIds.includes(e.project_id))
+      .filter((e) => filter.running === undefined || (e.ended_at === null) === filter.running)
+      .filter((e) => !filter.startedFrom || e.started_at >= filter.startedFrom)
+      .filter((e) => !filter.startedBefore || e.started_at < filter.startedBefore)
+      .sort((a, b) => a.started_at.localeCompare(b.started_at));
+
+    return ok(rows);
+  }
+
+  async createTimeEntry(entry: NewTimeEntryRow): Promise<RepoResult<TimeEntryRow>> {
+    const row: TimeEntryRow = { id: randomUUID(), ...entry };
+    this.data.time_entries.push(row);
+    this.persist();
+    return ok(row);
+  }
+
+  async updateTimeEntry(entryId: string, updates: TimeEntryUpdate): Promise<RepoResult<TimeEntryRow>> {
+    const row = this.data.time_entries.find((e) => e.id === entryId);
+    if (!row) {
+      return notFound('Time entry', entryId);
+    }
+
+    Object.assign(row, updates);
+    this.persist();
+    return ok(row);
+  }
+
+  // ==========================================================================
+  // Team Members
+  // ==========================================================================
+
+  async listTeamMembers(workspaceId: string): Promise<RepoResult<TeamMemberRow[]>> {
+    return ok(
+      this.data.team_members
+        .filter((m) => m.workspace_id === workspaceId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }
+
+  async getTeamMember(memberId: string): Promise<RepoResult<TeamMemberRow | null>> {
+    return ok(this.data.team_members.find((m) => m.id === memberId) ?? null);
+  }
+
+  async createTeamMember(member: NewTeamMemberRow): Promise<RepoResult<TeamMemberRow>> {
+    const row: TeamMemberRow = { id: randomUUID(), ...member };
+    this.data.team_members.push(row);
+    this.persist();
+    return ok(row);
+  }
+
+  async updateTeamMember(memberId: string, updates: TeamMemberUpdate): Promise<RepoResult<TeamMemberRow>> {
+    const row = this.data.team_members.find((m) => m.id === memberId);
+    if (!row) {
+      return notFound('Team member', memberId);
+    }
+
+    Object.assign(row, updates);
+    this.persist();
+    return ok(row);
+  }
+
+  // ==========================================================================
+  // Activity Log
+  // ==========================================================================
+
+  async recordActivity(entries: NewActivityRow[]): Promise<RepoResult<ActivityRow[]>> {
+    const rows: ActivityRow[] = entries.map((entry) => ({ id: randomUUID(), ...entry }));
+
+    this.data.activity_log.push(...rows);
+    this.persist();
+    return ok(rows);
+  }
+
+  async listActivity(filter: ActivityFilter): Promise<RepoResult<ActivityRow[]>> {
+    // Entries are appended in order, so reverse for newest first (stable for equal timestamps)
+    const rows = [...this.data.activity_log]
+      .reverse()
+      .filter((a) => !filter.workspaceId || a.workspace_id === filter.workspaceId)
+      .filter((a) => !filter.projectIds || filter.projectIds.includes(a.project_id))
+      .filter((a) => !filter.entityType || a.entity_type === filter.entityType)
+      .filter((a) => !filter.entityId || a.entity_id === filter.entityId)
+      .filter((a) => !filter.since || a.created_at >= filter.since);
+
+    const offset = filter.offset ?? 0;
+    return ok(rows.slice(offset, filter.limit ? offset + filter.limit : undefined));
+  }
+
+  // ==========================================================================
+  // Change Events
+  // ==========================================================================
+
+  private emitChange(table: ChangeTable, type: ChangeType, id: string, projectId: string): void {
+    const workspaceId = this.data.projects.find((p) => p.id === projectId)?.workspace_id;
+    if (!workspaceId) {
+      return;
+    }
+
+    const change: CanvasChange = { table, type, id, projectId, workspaceId };
+    this.events.emit(CHANGE_EVENT, change);
+  }
+
+  // ==========================================================================
+  // Persistence
+  // ==========================================================================
+
+  /**
+   * Write the store to disk (atomically, via a temp file) if file-backed.
+   */
+  private persist(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.data, null, 2));
+    renameSync(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Task Sort Keys
+ *
+ * How each backend turns a task into the values it sorts and pages by, so
+ * LocalRepository and the database agree on the order of tasks.
+ */
+
+import { TASK_STATUSES } from '../types/index.js';
+import type { TaskPriority } from '../types/index.js';
+import type { TaskPosition, TaskSortColumn } from './index.js';
+
+/** Priorities by rank, most urgent first */
+export const PRIORITY_RANK: Record<TaskPriority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * The value a task sorts by in a column: priority and status by rank,
+ * missing values as null.
+ */
+export function taskSortValue(task: TaskPosition, column: TaskSortColumn): string | number | null {
+  switch (column) {
+    case 'priority':
+      return task.priority ? PRIORITY_RANK[task.priority] : null;
+    case 'status':
+      return task.status ? TASK_STATUSES.indexOf(task.status) : null;
+    default:
+      return task[column] ?? null;
+  }
+}
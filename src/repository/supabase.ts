@@ -0,0 +1,618 @@
+/**
+ * Supabase Repository
+ *
+ * CanvasRepository backed by the hosted Limitless Canvas Supabase database.
+ * The client it wraps decides the access level: the service role client in
+ * stdio mode, or a user-scoped (RLS) client for authenticated HTTP sessions.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type {
+  CanvasRepository,
+  RepoResult,
+  ProjectFilter,
+  TaskFilter,
+  TaskOrdering,
+  TaskPosition,
+  TaskSortColumn,
+  TaskSearch,
+  ActivityFilter,
+  DependencyFilter,
+  CommentFilter,
+  NewActivityRow,
+  NewTaskCommentRow,
+  NewTimeEntryRow,
+  NewSprintRow,
+  NewTeamMemberRow,
+  SprintFilter,
+  SprintUpdate,
+  TimeEntryFilter,
+  TimeEntryUpdate,
+  NewProjectRow,
+  NewTaskRow,
+  ProjectUpdate,
+  TaskUpdate,
+  TeamMemberUpdate,
+} from './index.js';
+import type {
+  WorkspaceRow,
+  ProjectRow,
+  TaskRow,
+  TaskWithProject,
+  TaskSearchResult,
+  SearchHighlight,
+  TeamMemberRow,
+  ActivityRow,
+  TaskDependencyRow,
+  TaskCommentRow,
+  TimeEntryRow,
+  SprintRow,
+} from '../types/index.js';
+import { taskSortValue } from './ordering.js';
+
+/**
+ * Sort columns read from the tasks_ranked view, which ranks priority and
+ * status (see supabase/migrations/20261019001300_task_sort_ranks.sql)
+ */
+const RANK_COLUMNS: Partial<Record<TaskSortColumn, string>> = { priority: 'priority_rank', status: 'status_rank' };
+
+/** Sort columns that can be null, which sort last */
+const NULLABLE_COLUMNS: TaskSortColumn[] = ['due_date', 'deleted_at'];
+
+/**
+ * PostgREST filter for the tasks sorting after `after`: for each sort column
+ * in turn, the tasks tied with it on the columns before and past it on this
+ * one. The ID comes last, so no two tasks tie.
+ */
+function keysetFilter(orderings: TaskOrdering[], after: TaskPosition): string {
+  const keys = [
+    ...orderings.map(({ column, ascending }) => ({
+      name: RANK_COLUMNS[column] ?? column,
+      value: taskSortValue(after, column),
+      ascending,
+      nullable: NULLABLE_COLUMNS.includes(column),
+    })),
+    { name: 'id', value: after.id, ascending: true, nullable: false },
+  ];
+
+  const terms: string[] = [];
+  const ties: string[] = [];
+
+  for (const { name, value, ascending, nullable } of keys) {
+    if (value === null) {
+      // Nothing sorts past a missing value
+      ties.push(`${name}.is.null`);
+      continue;
+    }
+
+    const past = `${name}.${ascending ? 'gt' : 'lt'}.${filterValue(value)}`;
+    const term = [...ties, nullable ? `or(${past},${name}.is.null)` : past];
+
+    terms.push(term.length > 1 ? `and(${term.join(',')})` : term[0]);
+    ties.push(`${name}.eq.${filterValue(value)}`);
+  }
+
+  return terms.join(',');
+}
+
+/** A value quoted for a PostgREST filter string */
+function filterValue(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/** A row returned by the search_tasks database function */
+interface SearchHit {
+  task_id: string;
+  score: number;
+  title_snippet: string | null;
+  tags_snippet: string | null;
+  description_snippet: string | null;
+  comments_snippet: string | null;
+}
+
+/** The snippets of the fields that matched, best-weighted field first */
+function highlights(hit: SearchHit): SearchHighlight[] {
+  const snippets: [SearchHighlight['field'], string | null][] = [
+    ['title', hit.title_snippet],
+    ['tags', hit.tags_snippet],
+    ['description', hit.description_snippet],
+    ['comments', hit.comments_snippet],
+  ];
+
+  return snippets.flatMap(([field, snippet]) => (snippet ? [{ field, snippet }] : []));
+}
+
+export class SupabaseRepository implements CanvasRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  // ==========================================================================
+  // Workspaces
+  // ==========================================================================
+
+  async listWorkspaces(options: { limit?: number } = {}): Promise<RepoResult<WorkspaceRow[]>> {
+    let query = this.supabase
+      .from('workspaces')
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    return this.many<WorkspaceRow>(await query);
+  }
+
+  async getWorkspace(workspaceId: string): Promise<RepoResult<WorkspaceRow | null>> {
+    return this.maybeOne<WorkspaceRow>(
+      await this.supabase.from('workspaces').select('*').eq('id', workspaceId).maybeSingle()
+    );
+  }
+
+  // ==========================================================================
+  // Projects
+  // ==========================================================================
+
+  async listProjects(filter: ProjectFilter): Promise<RepoResult<ProjectRow[]>> {
+    let query = this.supabase
+      .from('projects')
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    if (filter.workspaceId) {
+      query = query.eq('workspace_id', filter.workspaceId);
+    }
+
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    if (filter.limit) {
+      query = query.limit(filter.limit);
+    }
+
+    return this.many<ProjectRow>(await query);
+  }
+
+  async getProject(projectId: string): Promise<RepoResult<ProjectRow | null>> {
+    return this.maybeOne<ProjectRow>(
+      await this.supabase.from('projects').select('*').eq('id', projectId).maybeSingle()
+    );
+  }
+
+  async createProject(project: NewProjectRow): Promise<RepoResult<ProjectRow>> {
+    return this.one<ProjectRow>(
+      await this.supabase.from('projects').insert(project).select().single()
+    );
+  }
+
+  async updateProject(projectId: string, updates: ProjectUpdate): Promise<RepoResult<ProjectRow>> {
+    return this.one<ProjectRow>(
+      await this.supabase.from('projects').update(updates).eq('id', projectId).select().single()
+    );
+  }
+
+  async deleteProject(projectId: string): Promise<RepoResult<null>> {
+    const { error } = await this.supabase.from('projects').delete().eq('id', projectId);
+    return error ? { data: null, error } : { data: null, error: null };
+  }
+
+  // ==========================================================================
+  // Tasks
+  // ==========================================================================
+
+  async listTasks(filter: TaskFilter): Promise<RepoResult<TaskRow[]>> {
+    const orderings = filter.orderBy ?? [{ column: 'order', ascending: true }];
+    const ranked = orderings.some((o) => o.column in RANK_COLUMNS);
+
+    let query = this.filterTasks(this.supabase.from(ranked ? 'tasks_ranked' : 'tasks').select('*'), filter);
+
+    for (const { column, ascending } of orderings) {
+      query = query.order(RANK_COLUMNS[column] ?? column, { ascending, nullsFirst: false });
+    }
+    query = query.order('id', { ascending: true });
+
+    if (filter.after) {
+      query = query.or(keysetFilter(orderings, filter.after));
+    }
+
+    if (filter.limit) {
+      query = query.limit(filter.limit);
+    }
+
+    const result = this.many<TaskRow & { priority_rank?: number; status_rank?: number }>(await query);
+    if (result.error || !ranked) {
+      return result;
+    }
+
+    return { data: result.data.map(({ priority_rank, status_rank, ...task }) => task), error: null };
+  }
+
+  async countTasks(filter: TaskFilter): Promise<RepoResult<number>> {
+    const { count, error } = await this.filterTasks(
+      this.supabase.from('tasks').select('*', { count: 'exact', head: true }),
+      filter
+    );
+    return error ? { data: null, error } : { data: count ?? 0, error: null };
+  }
+
+  /** Narrow a tasks query down to the tasks meeting the filter's conditions */
+  private filterTasks<Q extends ReturnType<ReturnType<SupabaseClient['from']>['select']>>(query: Q, filter: TaskFilter): Q {
+    if (filter.taskIds) {
+      query = query.in('id', filter.taskIds);
+    }
+
+    if (filter.projectIds) {
+      query = query.in('project_id', filter.projectIds);
+    }
+
+    if (filter.parentTaskIds) {
+      query = query.in('parent_task_id', filter.parentTaskIds);
+    }
+
+    if (filter.sprintIds) {
+      query = query.in('sprint_id', filter.sprintIds);
+    }
+
+    if (filter.assigneeIds) {
+      query = query.in('assignee_id', filter.assigneeIds);
+    }
+
+    if (filter.unassigned) {
+      query = query.is('assignee_id', null);
+    }
+
+    if (filter.statuses) {
+      query = query.in('status', filter.statuses);
+    }
+
+    if (filter.priorities) {
+      query = query.in('priority', filter.priorities);
+    }
+
+    if (filter.tagsAny) {
+      query = query.overlaps('tags', filter.tagsAny);
+    }
+
+    if (filter.tagsAll) {
+      query = query.contains('tags', filter.tagsAll);
+    }
+
+    if (filter.updatedSince) {
+      query = query.gte('updated_at', filter.updatedSince);
+    }
+
+    if (filter.createdSince) {
+      query = query.gte('created_at', filter.createdSince);
+    }
+
+    if (filter.dueFrom) {
+      query = query.gte('due_date', filter.dueFrom);
+    }
+
+    if (filter.dueBefore) {
+      query = query.lt('due_date', filter.dueBefore);
+    }
+
+    if (filter.deletedBefore) {
+      query = query.lte('deleted_at', filter.deletedBefore);
+    } else if (filter.trash === 'only') {
+      query = query.not('deleted_at', 'is', null);
+    } else if (filter.trash !== 'include') {
+      query = query.is('deleted_at', null);
+    }
+
+    return query;
+  }
+
+  async getTask(taskId: string): Promise<RepoResult<TaskRow | null>> {
+    return this.maybeOne<TaskRow>(
+      await this.supabase.from('tasks').select('*').eq('id', taskId).maybeSingle()
+    );
+  }
+
+  async createTask(task: NewTaskRow): Promise<RepoResult<TaskRow>> {
+    return this.one<TaskRow>(
+      await this.supabase.from('tasks').insert(task).select().single()
+    );
+  }
+
+  async updateTask(taskId: string, updates: TaskUpdate): Promise<RepoResult<TaskRow>> {
+    return this.one<TaskRow>(
+      await this.supabase.from('tasks').update(updates).eq('id', taskId).select().single()
+    );
+  }
+
+  async deleteTask(taskId: string): Promise<RepoResult<null>> {
+    const { error } = await this.supabase.from('tasks').delete().eq('id', taskId);
+    return error ? { data: null, error } : { data: null, error: null };
+  }
+
+  async createTasks(tasks: NewTaskRow[]): Promise<RepoResult<TaskRow[]>> {
+    return this.many<TaskRow>(await this.supabase.from('tasks').insert(tasks).select());
+  }
+
+  async updateTasks(tasks: TaskRow[]): Promise<RepoResult<TaskRow[]>> {
+    // Full rows, so the upsert always resolves to an update of the existing task
+    return this.many<TaskRow>(
+      await this.supabase.from('tasks').upsert(tasks, { onConflict: 'id' }).select()
+    );
+  }
+
+  async searchTasks(search: TaskSearch): Promise<RepoResult<TaskSearchResult[]>> {
+    // Ranked and filtered in the database; the terms are passed as data, never
+    // spliced into filter syntax (see supabase/migrations/20261019001200_task_search.sql)
+    const { data: hits, error } = await this.supabase.rpc('search_tasks', {
+      search_terms: search.terms,
+      search_workspace_id: search.workspaceId ?? null,
+      search_project_id: search.projectId ?? null,
+      search_status: search.status ?? null,
+      result_limit: search.limit,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    const matches = hits as SearchHit[];
+    if (matches.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const { data: tasks, error: taskError } = this.many<TaskWithProject>(
+      await this.supabase
+        .from('tasks')
+        .select(`
+          *,
+          project:projects (
+            id,
+            name,
+            workspace_id
+          )
+        `)
+        .in('id', matches.map((hit) => hit.task_id))
+    );
+
+    if (taskError) {
+      return { data: null, error: taskError };
+    }
+
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+    const rows = matches.flatMap((hit) => {
+      const task = byId.get(hit.task_id);
+      return task ? [{ ...task, score: hit.score, highlights: highlights(hit) }] : [];
+    });
+
+    return { data: rows, error: null };
+  }
+
+  // ==========================================================================
+  // Task Dependencies
+  // ==========================================================================
+
+  async listDependencies(filter: DependencyFilter): Promise<RepoResult<TaskDependencyRow[]>> {
+    let query = this.supabase.from('task_dependencies').select('*');
+
+    if (filter.taskIds) {
+      query = query.in('task_id', filter.taskIds);
+    }
+
+    if (filter.dependsOnTaskIds) {
+      query = query.in('depends_on_task_id', filter.dependsOnTaskIds);
+    }
+
+    return this.many<TaskDependencyRow>(await query);
+  }
+
+  async addDependency(dependency: TaskDependencyRow): Promise<RepoResult<TaskDependencyRow>> {
+    return this.one<TaskDependencyRow>(
+      await this.supabase.from('task_dependencies').insert(dependency).select().single()
+    );
+  }
+
+  async removeDependency(taskId: string, dependsOnTaskId: string): Promise<RepoResult<null>> {
+    const { error } = await this.supabase
+      .from('task_dependencies')
+      .delete()
+      .eq('task_id', taskId)
+      .eq('depends_on_task_id', dependsOnTaskId);
+    return error ? { data: null, error } : { data: null, error: null };
+  }
+
+  // ==========================================================================
+  // Sprints
+  // ==========================================================================
+
+  async listSprints(filter: SprintFilter): Promise<RepoResult<SprintRow[]>> {
+    let query = this.supabase
+      .from('sprints')
+      .select('*')
+      .order('start_date', { ascending: true });
+
+    if (filter.projectIds) {
+      query = query.in('project_id', filter.projectIds);
+    }
+
+    if (filter.open !== undefined) {
+      query = filter.open ? query.is('closed_at', null) : query.not('closed_at', 'is', null);
+    }
+
+    return this.many<SprintRow>(await query);
+  }
+
+  async getSprint(sprintId: string): Promise<RepoResult<SprintRow | null>> {
+    return this.maybeOne<SprintRow>(
+      await this.supabase.from('sprints').select('*').eq('id', sprintId).maybeSingle()
+    );
+  }
+
+  async createSprint(sprint: NewSprintRow): Promise<RepoResult<SprintRow>> {
+    return this.one<SprintRow>(await this.supabase.from('sprints').insert(sprint).select().single());
+  }
+
+  async updateSprint(sprintId: string, updates: SprintUpdate): Promise<RepoResult<SprintRow>> {
+    return this.one<SprintRow>(
+      await this.supabase.from('sprints').update(updates).eq('id', sprintId).select().single()
+    );
+  }
+
+  // ==========================================================================
+  // Task Comments
+  // ==========================================================================
+
+  async listComments(filter: CommentFilter): Promise<RepoResult<TaskCommentRow[]>> {
+    let query = this.supabase
+      .from('task_comments')
+      .select('*')
+      .in('task_id', filter.taskIds)
+      .order('created_at', { ascending: false });
+
+    if (filter.limit) {
+      query = query.limit(filter.limit);
+    }
+
+    return this.many<TaskCommentRow>(await query);
+  }
+
+  async addComment(comment: NewTaskCommentRow): Promise<RepoResult<TaskCommentRow>> {
+    return this.one<TaskCommentRow>(await this.supabase.from('task_comments').insert(comment).select().single());
+  }
+
+  // ==========================================================================
+  // Time Entries
+  // ==========================================================================
+
+  async listTimeEntries(filter: TimeEntryFilter): Promise<RepoResult<TimeEntryRow[]>> {
+    let query = this.supabase
+      .from('time_entries')
+      .select('*')
+      .order('started_at', { ascending: true });
+
+    if (filter.taskIds) {
+      query = query.in('task_id', filter.taskIds);
+    }
+
+    if (filter.projectIds) {
+      query = query.in('project_id', filter.projectIds);
+    }
+
+    if (filter.running !== undefined) {
+      query = filter.running ? query.is('ended_at', null) : query.not('ended_at', 'is', null);
+    }
+
+    if (filter.startedFrom) {
+      query = query.gte('started_at', filter.startedFrom);
+    }
+
+    if (filter.startedBefore) {
+      query = query.lt('started_at', filter.startedBefore);
+    }
+
+    return this.many<TimeEntryRow>(await query);
+  }
+
+  async createTimeEntry(entry: NewTimeEntryRow): Promise<RepoResult<TimeEntryRow>> {
+    return this.one<TimeEntryRow>(await this.supabase.from('time_entries').insert(entry).select().single());
+  }
+
+  async updateTimeEntry(entryId: string, updates: TimeEntryUpdate): Promise<RepoResult<TimeEntryRow>> {
+    return this.one<TimeEntryRow>(
+      await this.supabase.from('time_entries').update(updates).eq('id', entryId).select().single()
+    );
+  }
+
+  // ==========================================================================
+  // Team Members
+  // ==========================================================================
+
+  async listTeamMembers(workspaceId: string): Promise<RepoResult<TeamMemberRow[]>> {
+    return this.many<TeamMemberRow>(
+      await this.supabase.from('team_members').select('*').eq('workspace_id', workspaceId).order('name')
+    );
+  }
+
+  async getTeamMember(memberId: string): Promise<RepoResult<TeamMemberRow | null>> {
+    return this.maybeOne<TeamMemberRow>(
+      await this.supabase.from('team_members').select('*').eq('id', memberId).maybeSingle()
+    );
+  }
+
+  async createTeamMember(member: NewTeamMemberRow): Promise<RepoResult<TeamMemberRow>> {
+    return this.one<TeamMemberRow>(await this.supabase.from('team_members').insert(member).select().single());
+  }
+
+  async updateTeamMember(memberId: string, updates: TeamMemberUpdate): Promise<RepoResult<TeamMemberRow>> {
+    return this.one<TeamMemberRow>(
+      await this.supabase.from('team_members').update(updates).eq('id', memberId).select().single()
+    );
+  }
+
+  // ==========================================================================
+  // Activity Log
+  // ==========================================================================
+
+  async recordActivity(entries: NewActivityRow[]): Promise<RepoResult<ActivityRow[]>> {
+    return this.many<ActivityRow>(await this.supabase.from('activity_log').insert(entries).select());
+  }
+
+  async listActivity(filter: ActivityFilter): Promise<RepoResult<ActivityRow[]>> {
+    let query = this.supabase
+      .from('activity_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      // Entries logged together share a timestamp; the ID keeps offset pages from skipping any
+      .order('id', { ascending: false });
+
+    if (filter.workspaceId) {
+      query = query.eq('workspace_id', filter.workspaceId);
+    }
+
+    if (filter.projectIds) {
+      query = query.in('project_id', filter.projectIds);
+    }
+
+    if (filter.entityType) {
+      query = query.eq('entity_type', filter.entityType);
+    }
+
+    if (filter.entityId) {
+      query = query.eq('entity_id', filter.entityId);
+    }
+
+    if (filter.since) {
+      query = query.gte('created_at', filter.since);
+    }
+
+    if (filter.limit) {
+      const offset = filter.offset ?? 0;
+      query = query.range(offset, offset + filter.limit - 1);
+    }
+
+    return this.many<ActivityRow>(await query);
+  }
+
+  // ==========================================================================
+  // Result Helpers
+  // ==========================================================================
+
+  private many<T>(result: { data: unknown; error: { message: string } | null }): RepoResult<T[]> {
+    if (result.error) {
+      return { data: null, error: result.error };
+    }
+    return { data: (result.data ?? []) as T[], error: null };
+  }
+
+  private one<T>(result: { data: unknown; error: { message: string } | null }): RepoResult<T> {
+    if (result.error) {
+      return { data: null, error: result.error };
+    }
+    return { data: result.data as T, error: null };
+  }
+
+  private maybeOne<T>(result: { data: unknown; error: { message: string } | null }): RepoResult<T | null> {
+    if (result.error) {
+      return { data: null, error: result.error };
+    }
+    return { data: (result.data ?? null) as T | null, error: null };
+  }
+}
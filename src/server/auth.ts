@@ -0,0 +1,75 @@
+/**
+ * Request Authentication for HTTP Transports
+ *
+ * Hosted sessions must present a Supabase access token, either as an
+ * `Authorization: Bearer <token>` header or a `?token=` query parameter.
+ * The token is verified with Supabase Auth and used to build a per-session
+ * client, so Row Level Security limits each user to their own workspaces.
+ */
+
+import type { Request } from 'express';
+
+import { createUserClient, verifyAccessToken } from '../supabase/client.js';
+import { SupabaseRepository } from '../repository/index.js';
+import { SupabaseChangeFeed } from '../realtime/index.js';
+import type { ToolContext } from '../tools/context.js';
+
+/**
+ * Extract a bearer token from the Authorization header or `token` query parameter.
+ * The header takes precedence when both are present.
+ */
+export function extractBearerToken(req: Pick<Request, 'headers' | 'query'>): string | null {
+  const header = req.headers.authorization;
+  if (typeof header === 'string') {
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+
+  const queryToken = req.query.token;
+  if (typeof queryToken === 'string' && queryToken.length > 0) {
+    return queryToken;
+  }
+
+  return null;
+}
+
+export type AuthResult =
+  | { success: true; context: ToolContext }
+  | { success: false; status: 401; error: string };
+
+/**
+ * Authenticate a request and build a user-scoped tool context for it.
+ */
+export async function authenticateRequest(req: Pick<Request, 'headers' | 'query'>): Promise<AuthResult> {
+  const token = extractBearerToken(req);
+
+  if (!token) {
+    return {
+      success: false,
+      status: 401,
+      error: 'Missing access token. Provide an Authorization: Bearer header or a ?token= query parameter.',
+    };
+  }
+
+  const user = await verifyAccessToken(token);
+  if (!user) {
+    return {
+      success: false,
+      status: 401,
+      error: 'Invalid or expired access token.',
+    };
+  }
+
+  const client = createUserClient(token);
+
+  return {
+    success: true,
+    context: {
+      repo: new SupabaseRepository(client),
+      changes: new SupabaseChangeFeed(client),
+      user,
+    },
+  };
+}
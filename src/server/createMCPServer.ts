@@ -1,8 +1,10 @@
 /**
  * MCP Server Factory
  *
- * Creates an MCP server instance with all tool handlers.
+ * Creates an MCP server instance with all tool, resource and prompt handlers.
  * Used by both stdio (Claude Code) and SSE (Claude Chat) transports.
+ * Each server instance is bound to a ToolContext, so SSE sessions
+ * run tool calls with their own user-scoped Supabase client.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -10,6 +12,11 @@ import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
   CallToolResult,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import {
@@ -21,14 +28,20 @@ import {
 } from '../tools/projects.js';
 import {
   createTask,
+  createSubtask,
+  toggleChecklistItem,
   getTask,
   updateTask,
   moveTask,
+  reorderTask,
   completeTask,
   startTask,
   reviewTask,
   searchTasks,
   deleteTask,
+  restoreTask,
+  listTrash,
+  purgeTrash,
   listProjectTasks,
 } from '../tools/tasks.js';
 import {
@@ -37,570 +50,616 @@ import {
   getWorkspaceSummary,
   getWorkInProgress,
 } from '../tools/workspaces.js';
-
-import type { ToolResult } from '../types/index.js';
+import { queryTasks } from '../tools/query.js';
+import { bulkCreateTasks, bulkUpdateTasks, bulkMoveTasks } from '../tools/bulk.js';
+import { createSprint, listSprints, getSprint, addTasksToSprint, closeSprint } from '../tools/sprints.js';
+import { listTeamMembers, getTeamMember, addTeamMember, updateTeamMember } from '../tools/team.js';
+import { getWorkload } from '../tools/workload.js';
+import { getDueTasks, getProjectDeadlines } from '../tools/deadlines.js';
+import { addTaskComment, listTaskComments } from '../tools/comments.js';
+import { addDependency, removeDependency, getBlockedTasks } from '../tools/dependencies.js';
+import { logTime, getTimeReport } from '../tools/time.js';
+import { getBurndown, getVelocity, getCycleTime } from '../tools/analytics.js';
+import { getTaskHistory, getActivityFeed } from '../tools/activity.js';
+import { undoLastAction, undoAction, recordSessionAction } from '../tools/undo.js';
+
+import { RESOURCE_TEMPLATES, listResources, readResource } from './resources.js';
+import { PROMPTS, getPrompt } from './prompts.js';
+import { registerResourceSubscriptions } from './subscriptions.js';
+import { TOOL_SCHEMAS, isToolName, toInputSchema, toInvalidInputError } from './schemas.js';
+import type { ToolName, ToolInput } from './schemas.js';
+import type { ToolContext } from '../tools/context.js';
+import type { ActivityRow, ToolResult } from '../types/index.js';
 
 export const SERVER_NAME = 'limitless-canvas';
 export const SERVER_VERSION = '2.0.0';
 
+/** Tools that revert changes rather than make them; not themselves undoable */
+const UNDO_TOOLS: ToolName[] = ['undo_last_action', 'undo_action'];
+
+/**
+ * Tools that change data the activity log doesn't fully cover, so they can't
+ * be undone. They are still kept in the session history, so undo_last_action
+ * refuses them instead of reverting the call before.
+ */
+const IRREVERSIBLE_TOOLS: ToolName[] = [
+  'create_sprint',
+  'close_sprint',
+  'add_team_member',
+  'update_team_member',
+  'add_task_comment',
+  'add_dependency',
+  'remove_dependency',
+  'log_time',
+];
+
 /**
- * Tool definitions for the MCP server
+ * Tool definitions for the MCP server.
+ * Input schemas are generated from the zod schemas in schemas.ts.
  */
 export const TOOLS = [
   // Workspace Tools
   {
     name: 'list_workspaces',
     description: 'List all workspaces accessible to the service. Returns workspace names, IDs, and colors.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        limit: {
-          type: 'number',
-          description: 'Maximum number of workspaces to return',
-        },
-      },
-    },
+    inputSchema: toInputSchema('list_workspaces'),
   },
   {
     name: 'get_workspace',
     description: 'Get details about a specific workspace by ID.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workspace_id: {
-          type: 'string',
-          description: 'The workspace ID',
-        },
-      },
-      required: ['workspace_id'],
-    },
+    inputSchema: toInputSchema('get_workspace'),
   },
   {
     name: 'get_workspace_summary',
     description: 'Get a comprehensive summary of a workspace including project counts, task counts by status, team size, and recent active projects.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workspace_id: {
-          type: 'string',
-          description: 'The workspace ID',
-        },
-      },
-      required: ['workspace_id'],
-    },
+    inputSchema: toInputSchema('get_workspace_summary'),
   },
   {
     name: 'get_work_in_progress',
-    description: 'Get all tasks currently in-progress or in-review for a workspace. Useful for understanding current work.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workspace_id: {
-          type: 'string',
-          description: 'The workspace ID',
-        },
-      },
-      required: ['workspace_id'],
-    },
+    description: 'Get all tasks currently in-progress or in-review for a workspace, marking those blocked by unfinished dependencies. Useful for understanding current work.',
+    inputSchema: toInputSchema('get_work_in_progress'),
   },
 
   // Project Tools
   {
     name: 'list_projects',
     description: 'List all projects in a workspace. Use this to see what projects exist and their current status.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workspace_id: {
-          type: 'string',
-          description: 'Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)',
-        },
-        status: {
-          type: 'string',
-          enum: ['active', 'completed', 'on-hold', 'planning'],
-          description: 'Filter by project status',
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum number of projects to return',
-        },
-      },
-    },
+    inputSchema: toInputSchema('list_projects'),
   },
   {
     name: 'get_project',
-    description: 'Get detailed information about a specific project including all its tasks organized by status.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        project_id: {
-          type: 'string',
-          description: 'The project ID',
-        },
-        include_tasks: {
-          type: 'boolean',
-          description: 'Whether to include tasks (default: true)',
-        },
-      },
-      required: ['project_id'],
-    },
+    description: 'Get detailed information about a specific project including all its tasks organized by status, and how much estimated work is left.',
+    inputSchema: toInputSchema('get_project'),
   },
   {
     name: 'create_project',
     description: 'Create a new project in a workspace.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workspace_id: {
-          type: 'string',
-          description: 'The workspace ID to create the project in',
-        },
-        name: {
-          type: 'string',
-          description: 'Project name',
-        },
-        description: {
-          type: 'string',
-          description: 'Project description',
-        },
-        status: {
-          type: 'string',
-          enum: ['active', 'completed', 'on-hold', 'planning'],
-          description: 'Initial project status (default: planning)',
-        },
-        priority: {
-          type: 'string',
-          enum: ['low', 'medium', 'high', 'critical'],
-          description: 'Project priority (default: medium)',
-        },
-        budget: {
-          type: 'number',
-          description: 'Project budget',
-        },
-        due_date: {
-          type: 'string',
-          description: 'Due date in ISO format (e.g., 2024-12-31)',
-        },
-        estimated_duration_hours: {
-          type: 'number',
-          description: 'Estimated hours to complete',
-        },
-      },
-      required: ['workspace_id', 'name'],
-    },
+    inputSchema: toInputSchema('create_project'),
   },
   {
     name: 'update_project',
-    description: 'Update project details like name, description, status, priority, or progress.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        project_id: {
-          type: 'string',
-          description: 'The project ID to update',
-        },
-        name: { type: 'string', description: 'New project name' },
-        description: { type: 'string', description: 'New description' },
-        status: {
-          type: 'string',
-          enum: ['active', 'completed', 'on-hold', 'planning'],
-          description: 'New status',
-        },
-        priority: {
-          type: 'string',
-          enum: ['low', 'medium', 'high', 'critical'],
-          description: 'New priority',
-        },
-        progress: {
-          type: 'number',
-          description: 'Progress percentage (0-100)',
-        },
-        budget: { type: 'number', description: 'New budget' },
-        spent: { type: 'number', description: 'Amount spent' },
-        due_date: { type: 'string', description: 'New due date' },
-      },
-      required: ['project_id'],
-    },
+    description: 'Update project details like name, description, status, priority, progress, or how progress is calculated (progress_mode).',
+    inputSchema: toInputSchema('update_project'),
   },
   {
     name: 'update_project_progress',
     description: 'Quick way to update just the project progress percentage.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        project_id: {
-          type: 'string',
-          description: 'The project ID',
-        },
-        progress: {
-          type: 'number',
-          description: 'Progress percentage (0-100)',
-        },
-      },
-      required: ['project_id', 'progress'],
-    },
+    inputSchema: toInputSchema('update_project_progress'),
   },
 
   // Task Tools
   {
     name: 'create_task',
     description: 'Create a new task in a project. Use when discovering new work that needs to be done.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        project_id: {
-          type: 'string',
-          description: 'The project ID to add the task to',
-        },
-        title: {
-          type: 'string',
-          description: 'Task title',
-        },
-        description: {
-          type: 'string',
-          description: 'Task description with details',
-        },
-        status: {
-          type: 'string',
-          enum: ['backlog', 'todo', 'in-progress', 'review', 'done'],
-          description: 'Initial status (default: todo)',
-        },
-        priority: {
-          type: 'string',
-          enum: ['low', 'medium', 'high', 'critical'],
-          description: 'Task priority (default: medium)',
-        },
-        assignee: {
-          type: 'string',
-          description: 'Assignee name or ID',
-        },
-        due_date: {
-          type: 'string',
-          description: 'Due date in ISO format',
-        },
-        tags: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Tags for categorization',
-        },
-      },
-      required: ['project_id', 'title'],
-    },
+    inputSchema: toInputSchema('create_task'),
+  },
+  {
+    name: 'create_subtask',
+    description: 'Add a subtask to a task, e.g. one step of a task being broken down. Subtasks act as the task\'s checklist.',
+    inputSchema: toInputSchema('create_subtask'),
+  },
+  {
+    name: 'toggle_checklist_item',
+    description: 'Check off a subtask (moves it to done), or reopen it (back to todo).',
+    inputSchema: toInputSchema('toggle_checklist_item'),
   },
   {
     name: 'get_task',
-    description: 'Get detailed information about a specific task.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        task_id: {
-          type: 'string',
-          description: 'The task ID',
-        },
-      },
-      required: ['task_id'],
-    },
+    description: 'Get detailed information about a specific task, including its subtasks, how many are done, and its most recent comments.',
+    inputSchema: toInputSchema('get_task'),
   },
   {
     name: 'update_task',
-    description: 'Update task details like title, description, priority, or due date.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        task_id: {
-          type: 'string',
-          description: 'The task ID to update',
-        },
-        title: { type: 'string', description: 'New title' },
-        description: { type: 'string', description: 'New description' },
-        status: {
-          type: 'string',
-          enum: ['backlog', 'todo', 'in-progress', 'review', 'done'],
-          description: 'New status',
-        },
-        priority: {
-          type: 'string',
-          enum: ['low', 'medium', 'high', 'critical'],
-          description: 'New priority',
-        },
-        assignee: { type: 'string', description: 'New assignee' },
-        due_date: { type: 'string', description: 'New due date' },
-        tags: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'New tags',
-        },
-      },
-      required: ['task_id'],
-    },
+    description: 'Update task details like title, description, priority, assignee, or due date. The assignee must be a team member, given by name, email or ID.',
+    inputSchema: toInputSchema('update_task'),
   },
   {
     name: 'move_task',
-    description: 'Move a task to a different kanban column (status). Use this when task status changes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        task_id: {
-          type: 'string',
-          description: 'The task ID to move',
-        },
-        new_status: {
-          type: 'string',
-          enum: ['backlog', 'todo', 'in-progress', 'review', 'done'],
-          description: 'The new status/column',
-        },
-      },
-      required: ['task_id', 'new_status'],
-    },
+    description: 'Move a task to a different kanban column (status). Use this when task status changes. The task goes to the bottom of the column unless a position is given.',
+    inputSchema: toInputSchema('move_task'),
+  },
+  {
+    name: 'reorder_task',
+    description: 'Move a task up or down within its kanban column: directly before or after another task, or to a position (0 = top).',
+    inputSchema: toInputSchema('reorder_task'),
   },
   {
     name: 'start_task',
-    description: 'Start working on a task (moves to in-progress). Use when beginning implementation.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        task_id: {
-          type: 'string',
-          description: 'The task ID to start',
-        },
-      },
-      required: ['task_id'],
-    },
+    description: 'Start working on a task (moves to in-progress) and start its timer. Use when beginning implementation. Warns if the task depends on unfinished tasks, or refuses with strict.',
+    inputSchema: toInputSchema('start_task'),
   },
   {
     name: 'complete_task',
-    description: 'Mark a task as complete (moves to done). Use when finishing implementation.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        task_id: {
-          type: 'string',
-          description: 'The task ID to complete',
-        },
-      },
-      required: ['task_id'],
-    },
+    description: 'Mark a task as complete (moves to done) and stop its timer. Use when finishing implementation. Pass a note to leave a comment on what was done and what is left.',
+    inputSchema: toInputSchema('complete_task'),
   },
   {
     name: 'review_task',
-    description: 'Move a task to review status. Use when implementation is done and needs review.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        task_id: {
-          type: 'string',
-          description: 'The task ID to review',
-        },
-      },
-      required: ['task_id'],
-    },
+    description: 'Move a task to review status and stop its timer. Use when implementation is done and needs review.',
+    inputSchema: toInputSchema('review_task'),
   },
   {
     name: 'search_tasks',
-    description: 'Search for tasks by keyword across projects. Useful for finding related work.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query (searches title and description)',
-        },
-        workspace_id: {
-          type: 'string',
-          description: 'Limit search to specific workspace',
-        },
-        project_id: {
-          type: 'string',
-          description: 'Limit search to specific project',
-        },
-        status: {
-          type: 'string',
-          enum: ['backlog', 'todo', 'in-progress', 'review', 'done'],
-          description: 'Filter by status',
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum results (default: 20)',
-        },
-      },
-      required: ['query'],
-    },
+    description: 'Search for tasks by keyword across projects, best match first. Matches titles, tags, descriptions and comments; each result has a relevance score and highlighted snippets of the matching fields. Useful for finding related work.',
+    inputSchema: toInputSchema('search_tasks'),
   },
   {
     name: 'list_project_tasks',
-    description: 'List all tasks in a project, optionally filtered by status.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        project_id: {
-          type: 'string',
-          description: 'The project ID',
-        },
-        status: {
-          type: 'string',
-          enum: ['backlog', 'todo', 'in-progress', 'review', 'done'],
-          description: 'Filter by status',
-        },
-      },
-      required: ['project_id'],
-    },
+    description: 'List all tasks in a project, optionally filtered by status. Tasks are grouped by column in board order, top to bottom within each column.',
+    inputSchema: toInputSchema('list_project_tasks'),
   },
   {
     name: 'delete_task',
-    description: 'Delete a task. Use with caution.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        task_id: {
-          type: 'string',
-          description: 'The task ID to delete',
-        },
-      },
-      required: ['task_id'],
-    },
+    description: 'Delete a task by moving it to the trash. Trashed tasks are hidden from lists, search and progress, and can be brought back with restore_task.',
+    inputSchema: toInputSchema('delete_task'),
+  },
+  {
+    name: 'restore_task',
+    description: 'Restore a task from the trash to the column it was deleted from.',
+    inputSchema: toInputSchema('restore_task'),
+  },
+  {
+    name: 'list_trash',
+    description: 'List tasks in the trash for a workspace or project, most recently deleted first.',
+    inputSchema: toInputSchema('list_trash'),
+  },
+  {
+    name: 'purge_trash',
+    description: 'Permanently delete tasks that have been in the trash longer than older_than_days (default 30). Their activity history is kept.',
+    inputSchema: toInputSchema('purge_trash'),
+  },
+
+  // Task Query Tools
+  {
+    name: 'query_tasks',
+    description: 'Find tasks by their fields instead of keywords: assignee, priorities, statuses, tags (any or all), due date range, created or updated since, and project status. Sorted by priority, due date, last update or board order, a page at a time; pass next_cursor back as cursor for the next page. Use this instead of get_project to pick out tasks.',
+    inputSchema: toInputSchema('query_tasks'),
+  },
+
+  // Bulk Task Tools
+  {
+    name: 'bulk_create_tasks',
+    description: 'Create many tasks in one call, e.g. when breaking a feature into subtasks. Returns a result per task, so failures of individual tasks are visible.',
+    inputSchema: toInputSchema('bulk_create_tasks'),
+  },
+  {
+    name: 'bulk_update_tasks',
+    description: 'Update the details of many tasks in one call. Returns a result per task.',
+    inputSchema: toInputSchema('bulk_update_tasks'),
+  },
+  {
+    name: 'bulk_move_tasks',
+    description: 'Move many tasks between kanban columns in one call. Returns a result per task.',
+    inputSchema: toInputSchema('bulk_move_tasks'),
+  },
+
+  // Sprint Tools
+  {
+    name: 'create_sprint',
+    description: 'Create a time-boxed sprint in a project, with start and end dates and an optional goal.',
+    inputSchema: toInputSchema('create_sprint'),
+  },
+  {
+    name: 'list_sprints',
+    description: "List a project's sprints, open and closed, by start date.",
+    inputSchema: toInputSchema('list_sprints'),
+  },
+  {
+    name: 'get_sprint',
+    description: 'Get a sprint with its tasks and how many are in each column.',
+    inputSchema: toInputSchema('get_sprint'),
+  },
+  {
+    name: 'add_tasks_to_sprint',
+    description: "Plan tasks into an open sprint. Tasks must belong to the sprint's project; tasks in another sprint move to this one.",
+    inputSchema: toInputSchema('add_tasks_to_sprint'),
+  },
+  {
+    name: 'close_sprint',
+    description: 'Close a sprint. Unfinished tasks move to the next open sprint, or back to the backlog (out of any sprint) when there is none. This cannot be undone.',
+    inputSchema: toInputSchema('close_sprint'),
+  },
+
+  // Team Tools
+  {
+    name: 'list_team_members',
+    description: "List a workspace's team members by name. Task assignees must be one of them.",
+    inputSchema: toInputSchema('list_team_members'),
+  },
+  {
+    name: 'get_team_member',
+    description: 'Get a team member with the unfinished tasks assigned to them.',
+    inputSchema: toInputSchema('get_team_member'),
+  },
+  {
+    name: 'add_team_member',
+    description: "Add a person to a workspace's team so tasks can be assigned to them.",
+    inputSchema: toInputSchema('add_team_member'),
+  },
+  {
+    name: 'update_team_member',
+    description: "Change a team member's name, email, role, department or status. A new name also shows on their tasks.",
+    inputSchema: toInputSchema('update_team_member'),
+  },
+
+  // Workload Tools
+  {
+    name: 'get_workload',
+    description: 'Show how much unfinished work each team member holds: open tasks by status and priority, overdue tasks, remaining estimate and work in progress, flagging anyone over the WIP limit. Use this to answer "who can take this?".',
+    inputSchema: toInputSchema('get_workload'),
+  },
+
+  // Deadline Tools
+  {
+    name: 'get_due_tasks',
+    description: "List unfinished tasks by due date: overdue, due today, due this week (through Sunday), or due in a range. Dates are in the workspace's time zone; sorted by due date, then priority.",
+    inputSchema: toInputSchema('get_due_tasks'),
+  },
+  {
+    name: 'get_project_deadlines',
+    description: 'List unfinished projects with a due date, soonest first, with days left, whether they are overdue, and how many open and overdue tasks they still have.',
+    inputSchema: toInputSchema('get_project_deadlines'),
+  },
+
+  // Comment Tools
+  {
+    name: 'add_task_comment',
+    description: 'Leave a comment on a task, e.g. a progress note on what was done and what is left. Use this instead of rewriting the description.',
+    inputSchema: toInputSchema('add_task_comment'),
+  },
+  {
+    name: 'list_task_comments',
+    description: 'List the comments on a task, newest first, with their authors.',
+    inputSchema: toInputSchema('list_task_comments'),
+  },
+
+  // Dependency Tools
+  {
+    name: 'add_dependency',
+    description: 'Record that a task cannot start until another task is done. Refused if it would create a dependency cycle.',
+    inputSchema: toInputSchema('add_dependency'),
+  },
+  {
+    name: 'remove_dependency',
+    description: 'Remove a dependency between two tasks.',
+    inputSchema: toInputSchema('remove_dependency'),
+  },
+  {
+    name: 'get_blocked_tasks',
+    description: 'List the unfinished tasks in a project that are waiting on unfinished dependencies, with what blocks each. Check this before picking up work.',
+    inputSchema: toInputSchema('get_blocked_tasks'),
+  },
+
+  // Time Tracking Tools
+  {
+    name: 'log_time',
+    description: 'Record time spent on a task, ending now. Use for work done outside start_task/complete_task, whose timer is tracked automatically.',
+    inputSchema: toInputSchema('log_time'),
+  },
+  {
+    name: 'get_time_report',
+    description: 'Total the time logged in a project or workspace, broken down by task, assignee and day, next to the projects\' estimated hours.',
+    inputSchema: toInputSchema('get_time_report'),
+  },
+
+  // Analytics Tools
+  {
+    name: 'get_burndown',
+    description: 'Chart the tasks left at the end of each day in a sprint or project, against an ideal line to zero by the sprint end or project due date. Use this to answer "are we on track?".',
+    inputSchema: toInputSchema('get_burndown'),
+  },
+  {
+    name: 'get_velocity',
+    description: 'Count the tasks and estimate points completed per week in a workspace, with the average over complete weeks.',
+    inputSchema: toInputSchema('get_velocity'),
+  },
+  {
+    name: 'get_cycle_time',
+    description: "Get the median and 90th percentile time a project's done tasks took from in-progress to done, how long they spent in review, and the slowest ones.",
+    inputSchema: toInputSchema('get_cycle_time'),
+  },
+
+  // Activity Tools
+  {
+    name: 'get_task_history',
+    description: 'Get every recorded change to a task: who changed what, with which tool, and the before/after values.',
+    inputSchema: toInputSchema('get_task_history'),
+  },
+  {
+    name: 'get_activity_feed',
+    description: 'Get recent task and project changes across a workspace, newest first. Use to audit what happened since a given time.',
+    inputSchema: toInputSchema('get_activity_feed'),
+  },
+
+  // Undo Tools
+  {
+    name: 'undo_last_action',
+    description: 'Undo the most recent change made in this session (e.g. a misfiled or wrongly moved task). Refused if the affected tasks were changed since.',
+    inputSchema: toInputSchema('undo_last_action'),
+  },
+  {
+    name: 'undo_action',
+    description: 'Undo a specific change made in this session, using the action_id returned by the tool call that made it.',
+    inputSchema: toInputSchema('undo_action'),
   },
 ];
 
 /**
- * Handle tool calls by routing to appropriate functions
+ * Handle tool calls by validating the arguments against the tool's
+ * schema and routing to the appropriate function.
+ */
+export async function handleToolCall(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  if (!isToolName(name)) {
+    return {
+      success: false,
+      error: `Unknown tool: ${name}`,
+      code: 'UNKNOWN_TOOL',
+    };
+  }
+
+  const parsed = TOOL_SCHEMAS[name].safeParse(args ?? {});
+  if (!parsed.success) {
+    return toInvalidInputError(name, parsed.error);
+  }
+
+  const activity: ActivityRow[] = [];
+  const result = await dispatchToolCall(name, parsed.data, { ...ctx, toolName: name, activity });
+
+  // Remember calls that changed data so they can be undone later in the session
+  if (result.success && !UNDO_TOOLS.includes(name)) {
+    // complete_task leaves its note as a comment, which undo can't take back
+    const leftNote = name === 'complete_task' && Boolean((parsed.data as ToolInput<'complete_task'>).note);
+    const action = recordSessionAction(ctx, name, activity, !IRREVERSIBLE_TOOLS.includes(name) && !leftNote);
+    if (action) {
+      result.action_id = action.id;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Route a validated tool call to its implementation.
  */
-export async function handleToolCall(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+async function dispatchToolCall(name: ToolName, args: unknown, ctx: ToolContext): Promise<ToolResult> {
+  // Narrow the validated arguments to the schema type of the tool being dispatched
+  const input = <N extends ToolName>(_tool: N) => args as ToolInput<N>;
+
   switch (name) {
     // Workspace Tools
     case 'list_workspaces':
-      return listWorkspaces({ limit: args.limit as number | undefined });
+      return listWorkspaces(ctx, input(name));
 
     case 'get_workspace':
-      return getWorkspace({ workspace_id: args.workspace_id as string });
+      return getWorkspace(ctx, input(name));
 
     case 'get_workspace_summary':
-      return getWorkspaceSummary(args.workspace_id as string);
+      return getWorkspaceSummary(ctx, input(name).workspace_id);
 
     case 'get_work_in_progress':
-      return getWorkInProgress(args.workspace_id as string);
+      return getWorkInProgress(ctx, input(name).workspace_id);
 
     // Project Tools
     case 'list_projects':
-      return listProjects({
-        workspace_id: args.workspace_id as string | undefined,
-        status: args.status as any,
-        limit: args.limit as number | undefined,
-      });
+      return listProjects(ctx, input(name));
 
     case 'get_project':
-      return getProject({
-        project_id: args.project_id as string,
-        include_tasks: args.include_tasks as boolean | undefined,
-      });
+      return getProject(ctx, input(name));
 
     case 'create_project':
-      return createProject({
-        workspace_id: args.workspace_id as string,
-        name: args.name as string,
-        description: args.description as string | undefined,
-        status: args.status as any,
-        priority: args.priority as any,
-        budget: args.budget as number | undefined,
-        due_date: args.due_date as string | undefined,
-        estimated_duration_hours: args.estimated_duration_hours as number | undefined,
-      });
+      return createProject(ctx, input(name));
 
     case 'update_project':
-      return updateProject({
-        project_id: args.project_id as string,
-        name: args.name as string | undefined,
-        description: args.description as string | undefined,
-        status: args.status as any,
-        priority: args.priority as any,
-        progress: args.progress as number | undefined,
-        budget: args.budget as number | undefined,
-        spent: args.spent as number | undefined,
-        due_date: args.due_date as string | undefined,
-      });
-
-    case 'update_project_progress':
-      return updateProjectProgress(
-        args.project_id as string,
-        args.progress as number
-      );
+      return updateProject(ctx, input(name));
+
+    case 'update_project_progress': {
+      const { project_id, progress } = input(name);
+      return updateProjectProgress(ctx, project_id, progress);
+    }
 
     // Task Tools
     case 'create_task':
-      return createTask({
-        project_id: args.project_id as string,
-        title: args.title as string,
-        description: args.description as string | undefined,
-        status: args.status as any,
-        priority: args.priority as any,
-        assignee: args.assignee as string | undefined,
-        due_date: args.due_date as string | undefined,
-        tags: args.tags as string[] | undefined,
-      });
+      return createTask(ctx, input(name));
+
+    case 'create_subtask':
+      return createSubtask(ctx, input(name));
+
+    case 'toggle_checklist_item':
+      return toggleChecklistItem(ctx, input(name));
 
     case 'get_task':
-      return getTask(args.task_id as string);
+      return getTask(ctx, input(name).task_id);
 
     case 'update_task':
-      return updateTask({
-        task_id: args.task_id as string,
-        title: args.title as string | undefined,
-        description: args.description as string | undefined,
-        status: args.status as any,
-        priority: args.priority as any,
-        assignee: args.assignee as string | undefined,
-        due_date: args.due_date as string | undefined,
-        tags: args.tags as string[] | undefined,
-      });
+      return updateTask(ctx, input(name));
 
     case 'move_task':
-      return moveTask({
-        task_id: args.task_id as string,
-        new_status: args.new_status as any,
-      });
+      return moveTask(ctx, input(name));
 
-    case 'start_task':
-      return startTask(args.task_id as string);
+    case 'reorder_task':
+      return reorderTask(ctx, input(name));
 
-    case 'complete_task':
-      return completeTask(args.task_id as string);
+    case 'start_task': {
+      const { task_id, strict } = input(name);
+      return startTask(ctx, task_id, strict);
+    }
+
+    case 'complete_task': {
+      const { task_id, note } = input(name);
+      return completeTask(ctx, task_id, note);
+    }
 
     case 'review_task':
-      return reviewTask(args.task_id as string);
+      return reviewTask(ctx, input(name).task_id);
 
     case 'search_tasks':
-      return searchTasks({
-        query: args.query as string,
-        workspace_id: args.workspace_id as string | undefined,
-        project_id: args.project_id as string | undefined,
-        status: args.status as any,
-        limit: args.limit as number | undefined,
-      });
-
-    case 'list_project_tasks':
-      return listProjectTasks(
-        args.project_id as string,
-        args.status as any
-      );
+      return searchTasks(ctx, input(name));
+
+    case 'list_project_tasks': {
+      const { project_id, status } = input(name);
+      return listProjectTasks(ctx, project_id, status);
+    }
 
     case 'delete_task':
-      return deleteTask(args.task_id as string);
+      return deleteTask(ctx, input(name).task_id);
 
-    default:
-      return {
-        success: false,
-        error: `Unknown tool: ${name}`,
-        code: 'UNKNOWN_TOOL',
-      };
+    case 'restore_task':
+      return restoreTask(ctx, input(name).task_id);
+
+    case 'list_trash':
+      return listTrash(ctx, input(name));
+
+    case 'purge_trash':
+      return purgeTrash(ctx, input(name));
+
+    // Task Query Tools
+    case 'query_tasks':
+      return queryTasks(ctx, input(name));
+
+    // Bulk Task Tools
+    case 'bulk_create_tasks':
+      return bulkCreateTasks(ctx, input(name));
+
+    case 'bulk_update_tasks':
+      return bulkUpdateTasks(ctx, input(name));
+
+    case 'bulk_move_tasks':
+      return bulkMoveTasks(ctx, input(name));
+
+    // Sprint Tools
+    case 'create_sprint':
+      return createSprint(ctx, input(name));
+
+    case 'list_sprints':
+      return listSprints(ctx, input(name).project_id);
+
+    case 'get_sprint':
+      return getSprint(ctx, input(name).sprint_id);
+
+    case 'add_tasks_to_sprint':
+      return addTasksToSprint(ctx, input(name));
+
+    case 'close_sprint':
+      return closeSprint(ctx, input(name));
+
+    // Team Tools
+    case 'list_team_members':
+      return listTeamMembers(ctx, input(name).workspace_id);
+
+    case 'get_team_member':
+      return getTeamMember(ctx, input(name).member_id);
+
+    case 'add_team_member':
+      return addTeamMember(ctx, input(name));
+
+    case 'update_team_member':
+      return updateTeamMember(ctx, input(name));
+
+    // Workload Tools
+    case 'get_workload':
+      return getWorkload(ctx, input(name));
+
+    // Deadline Tools
+    case 'get_due_tasks':
+      return getDueTasks(ctx, input(name));
+
+    case 'get_project_deadlines':
+      return getProjectDeadlines(ctx, input(name));
+
+    // Comment Tools
+    case 'add_task_comment':
+      return addTaskComment(ctx, input(name));
+
+    case 'list_task_comments':
+      return listTaskComments(ctx, input(name));
+
+    // Dependency Tools
+    case 'add_dependency':
+      return addDependency(ctx, input(name));
+
+    case 'remove_dependency':
+      return removeDependency(ctx, input(name));
+
+    case 'get_blocked_tasks':
+      return getBlockedTasks(ctx, input(name).project_id);
+
+    // Time Tracking Tools
+    case 'log_time':
+      return logTime(ctx, input(name));
+
+    case 'get_time_report':
+      return getTimeReport(ctx, input(name));
+
+    // Analytics Tools
+    case 'get_burndown':
+      return getBurndown(ctx, input(name));
+
+    case 'get_velocity':
+      return getVelocity(ctx, input(name));
+
+    case 'get_cycle_time':
+      return getCycleTime(ctx, input(name).project_id);
+
+    // Activity Tools
+    case 'get_task_history': {
+      const { task_id, limit } = input(name);
+      return getTaskHistory(ctx, task_id, limit);
+    }
+
+    case 'get_activity_feed':
+      return getActivityFeed(ctx, input(name));
+
+    // Undo Tools
+    case 'undo_last_action':
+      return undoLastAction(ctx);
+
+    case 'undo_action':
+      return undoAction(ctx, input(name).action_id);
   }
 }
 
 /**
- * Create and configure an MCP server instance
+ * Create and configure an MCP server instance.
+ * All tool calls on this server run with the given context.
  */
-export function createMCPServer(): Server {
+export function createMCPServer(baseCtx: ToolContext): Server {
+  // Each server instance is one session; its undo history lives as long as it does
+  const ctx: ToolContext = { ...baseCtx, history: [] };
+
   const server = new Server(
     { name: SERVER_NAME, version: SERVER_VERSION },
-    { capabilities: { tools: { listChanged: true } } }
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        resources: ctx.changes ? { subscribe: true } : {},
+        prompts: {},
+        logging: {},
+      },
+    }
   );
 
   // Register tool listing handler
@@ -609,13 +668,26 @@ export function createMCPServer(): Server {
   });
 
   // Register tool call handler
-  server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra): Promise<CallToolResult> => {
     const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
 
     console.error(`[${SERVER_NAME}] Tool called: ${name}`);
 
+    // Long-running tools report progress only when the client asked for it
+    const callCtx: ToolContext = progressToken === undefined
+      ? ctx
+      : {
+          ...ctx,
+          reportProgress: (progress, total, message) =>
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress, total, message },
+            }),
+        };
+
     try {
-      const result = await handleToolCall(name, args as Record<string, unknown>);
+      const result = await handleToolCall(name, args, callCtx);
 
       if (result.success) {
         return {
@@ -626,6 +698,8 @@ export function createMCPServer(): Server {
                 {
                   success: true,
                   message: result.message,
+                  warnings: result.warnings,
+                  action_id: result.action_id,
                   data: result.data,
                 },
                 null,
@@ -644,6 +718,7 @@ export function createMCPServer(): Server {
                   success: false,
                   error: result.error,
                   code: result.code,
+                  details: result.details,
                 },
                 null,
                 2
@@ -675,5 +750,34 @@ export function createMCPServer(): Server {
     }
   });
 
+  // Register resource handlers (canvas:// URIs)
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: await listResources(ctx) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    console.error(`[${SERVER_NAME}] Resource read: ${request.params.uri}`);
+    return readResource(ctx, request.params.uri);
+  });
+
+  // Push resource updates for live changes when the context has a change feed
+  if (ctx.changes) {
+    registerResourceSubscriptions(server, SERVER_NAME, ctx, ctx.changes);
+  }
+
+  // Register prompt handlers
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    console.error(`[${SERVER_NAME}] Prompt requested: ${request.params.name}`);
+    return getPrompt(ctx, request.params.name, request.params.arguments);
+  });
+
   return server;
 }
@@ -0,0 +1,76 @@
+/**
+ * In-Memory Event Store for Resumable Streams
+ *
+ * Streamable HTTP clients that lose their connection reconnect with a
+ * Last-Event-ID header. The transport uses this store to replay every
+ * message sent on that stream after the given event.
+ *
+ * Events are kept per stream and trimmed to the most recent
+ * MAX_EVENTS_PER_STREAM, so a long-lived session cannot grow unbounded.
+ */
+
+import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+const MAX_EVENTS_PER_STREAM = 500;
+
+interface StoredEvent {
+  eventId: string;
+  message: JSONRPCMessage;
+}
+
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<string, StoredEvent[]>();
+  private eventStreams = new Map<string, string>();
+  private sequence = 0;
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = `${streamId}:${++this.sequence}`;
+    const events = this.streams.get(streamId) ?? [];
+
+    events.push({ eventId, message });
+    this.eventStreams.set(eventId, streamId);
+
+    // Drop the oldest events once the stream exceeds its cap
+    while (events.length > MAX_EVENTS_PER_STREAM) {
+      const dropped = events.shift();
+      if (dropped) {
+        this.eventStreams.delete(dropped.eventId);
+      }
+    }
+
+    this.streams.set(streamId, events);
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: string): Promise<string | undefined> {
+    return this.eventStreams.get(eventId);
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const streamId = this.eventStreams.get(lastEventId);
+    if (!streamId) {
+      return '';
+    }
+
+    const events = this.streams.get(streamId) ?? [];
+    const index = events.findIndex((e) => e.eventId === lastEventId);
+
+    for (const event of events.slice(index + 1)) {
+      await send(event.eventId, event.message);
+    }
+
+    return streamId;
+  }
+
+  /**
+   * Forget all events, e.g. when the owning session ends.
+   */
+  clear(): void {
+    this.streams.clear();
+    this.eventStreams.clear();
+  }
+}
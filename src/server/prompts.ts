@@ -0,0 +1,215 @@
+/**
+ * MCP Prompts for Limitless Canvas
+ *
+ * Parameterized prompts for common team workflows. Each prompt pulls the
+ * current board state through the tool functions, so the model gets the
+ * same context every time instead of hand-written instructions:
+ * - daily_standup(workspace_id): work in progress plus recently completed tasks
+ * - plan_sprint(project_id): backlog and todo tasks to plan from
+ * - break_down_task(task_id): a task to split into smaller steps
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+import { getProject, listProjects } from '../tools/projects.js';
+import { getTask, listProjectTasks } from '../tools/tasks.js';
+import { getRecentlyCompletedTasks, getWorkInProgress, getWorkspace } from '../tools/workspaces.js';
+import type { ToolContext } from '../tools/context.js';
+import type { ProjectRow, TaskRow, TaskWithBlockers, ToolResult } from '../types/index.js';
+
+/** How far back daily_standup looks for completed tasks */
+const STANDUP_LOOKBACK_HOURS = 24;
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'daily_standup',
+    title: 'Daily standup',
+    description: 'Summarize what was completed in the last day and what is in progress or in review for a workspace.',
+    arguments: [
+      { name: 'workspace_id', description: 'The workspace ID', required: true },
+    ],
+  },
+  {
+    name: 'plan_sprint',
+    title: 'Plan a sprint',
+    description: 'Propose a sprint plan for a project from its backlog and todo tasks.',
+    arguments: [
+      { name: 'project_id', description: 'The project ID', required: true },
+    ],
+  },
+  {
+    name: 'break_down_task',
+    title: 'Break down a task',
+    description: 'Split a task into smaller, independently completable steps.',
+    arguments: [
+      { name: 'task_id', description: 'The task ID', required: true },
+    ],
+  },
+];
+
+/**
+ * Build the messages for a prompt.
+ */
+export async function getPrompt(
+  ctx: ToolContext,
+  name: string,
+  args: Record<string, string> = {}
+): Promise<GetPromptResult> {
+  switch (name) {
+    case 'daily_standup':
+      return dailyStandup(ctx, requireArgument(name, args, 'workspace_id'));
+
+    case 'plan_sprint':
+      return planSprint(ctx, requireArgument(name, args, 'project_id'));
+
+    case 'break_down_task':
+      return breakDownTask(ctx, requireArgument(name, args, 'task_id'));
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+}
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+async function dailyStandup(ctx: ToolContext, workspaceId: string): Promise<GetPromptResult> {
+  const workspace = unwrap(await getWorkspace(ctx, { workspace_id: workspaceId }));
+  const since = new Date(Date.now() - STANDUP_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString();
+
+  const inProgress = unwrap(await getWorkInProgress(ctx, workspaceId));
+  const completed = unwrap(await getRecentlyCompletedTasks(ctx, workspaceId, since));
+  const projects = unwrap(await listProjects(ctx, { workspace_id: workspaceId }));
+  const projectNames = new Map(projects.map((p: ProjectRow) => [p.id, p.name]));
+
+  const text = [
+    `Run the daily standup for the "${workspace.name}" workspace.`,
+    '',
+    `## Completed in the last ${STANDUP_LOOKBACK_HOURS} hours (${completed.length})`,
+    '',
+    formatTaskList(completed, projectNames),
+    '',
+    `## In progress (${inProgress.filter((t) => t.status === 'in-progress').length})`,
+    '',
+    formatTaskList(inProgress.filter((t) => t.status === 'in-progress'), projectNames),
+    '',
+    `## In review (${inProgress.filter((t) => t.status === 'review').length})`,
+    '',
+    formatTaskList(inProgress.filter((t) => t.status === 'review'), projectNames),
+    '',
+    'Write a short standup update grouped by assignee: what was done, what is being worked on next, ' +
+      'and anything that looks blocked or stale (for example, in progress without recent updates). ' +
+      'Only use the tasks listed above.',
+  ].join('\n');
+
+  return {
+    description: `Daily standup for ${workspace.name}`,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+async function planSprint(ctx: ToolContext, projectId: string): Promise<GetPromptResult> {
+  const project = unwrap(await getProject(ctx, { project_id: projectId, include_tasks: false }));
+  const tasks = unwrap(await listProjectTasks(ctx, projectId));
+  const candidates = tasks.filter((t) => t.status === 'backlog' || t.status === 'todo');
+  const inFlight = tasks.filter((t) => t.status === 'in-progress' || t.status === 'review');
+
+  const text = [
+    `Plan the next sprint for the "${project.name}" project (currently ${project.progress}% complete${project.due_date ? `, due ${project.due_date}` : ''}).`,
+    '',
+    `## Todo (${candidates.filter((t) => t.status === 'todo').length})`,
+    '',
+    formatTaskList(candidates.filter((t) => t.status === 'todo')),
+    '',
+    `## Backlog (${candidates.filter((t) => t.status === 'backlog').length})`,
+    '',
+    formatTaskList(candidates.filter((t) => t.status === 'backlog')),
+    '',
+    `## Already in flight (${inFlight.length})`,
+    '',
+    formatTaskList(inFlight),
+    '',
+    'Propose a realistic two-week sprint: pick tasks from todo and backlog by priority and due date, ' +
+      'account for the work already in flight, and explain what was left out and why. ' +
+      'Once the plan is agreed, use move_task to move the selected backlog tasks to todo.',
+  ].join('\n');
+
+  return {
+    description: `Sprint planning for ${project.name}`,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+async function breakDownTask(ctx: ToolContext, taskId: string): Promise<GetPromptResult> {
+  const task = unwrap(await getTask(ctx, taskId));
+
+  const text = [
+    `Break down the task "${task.title}" from the "${task.project.name}" project into smaller steps.`,
+    '',
+    '## Task',
+    '',
+    `- **ID:** ${task.id}`,
+    `- **Status:** ${task.status}`,
+    `- **Priority:** ${task.priority}`,
+    `- **Assignee:** ${task.assignee ?? 'Unassigned'}`,
+    `- **Due:** ${task.due_date ?? 'No due date'}`,
+    `- **Tags:** ${task.tags?.length ? task.tags.join(', ') : 'None'}`,
+    '',
+    '## Description',
+    '',
+    task.description || '_No description_',
+    '',
+    'Split this into 3-8 concrete steps that can each be completed and reviewed on their own. ' +
+      'For each step give a title, a one-sentence description and a priority. ' +
+      `After confirming the plan, create each step with create_task in project ${task.project_id}.`,
+  ].join('\n');
+
+  return {
+    description: `Break down "${task.title}"`,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function requireArgument(prompt: string, args: Record<string, string>, key: string): string {
+  const value = args[key]?.trim();
+  if (!value) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt ${prompt} requires the "${key}" argument`);
+  }
+  return value;
+}
+
+function unwrap<T>(result: ToolResult<T>): T {
+  if (!result.success) {
+    throw new McpError(ErrorCode.InvalidParams, result.error);
+  }
+  return result.data;
+}
+
+function formatTaskList(tasks: (TaskRow | TaskWithBlockers)[], projectNames?: Map<string, string>): string {
+  if (tasks.length === 0) {
+    return '_None_';
+  }
+
+  return tasks
+    .map((t) => {
+      const details = [
+        t.priority,
+        t.assignee ? `@${t.assignee}` : 'unassigned',
+        t.due_date ? `due ${t.due_date}` : null,
+        projectNames ? projectNames.get(t.project_id) : null,
+        'blocked_by' in t && t.blocked_by.length > 0
+          ? `blocked by ${t.blocked_by.map((b) => `"${b.title}"`).join(', ')}`
+          : null,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      return `- ${t.title} (${details}) — \`${t.id}\``;
+    })
+    .join('\n');
+}
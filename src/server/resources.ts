@@ -0,0 +1,385 @@
+/**
+ * MCP Resources for Limitless Canvas
+ *
+ * Exposes workspaces, projects, boards and tasks as readable resources so
+ * clients can attach them as context without spending a tool call:
+ * - canvas://workspace/{id}: workspace summary
+ * - canvas://project/{id}: project details with task counts
+ * - canvas://project/{id}/board: project tasks grouped into kanban columns
+ * - canvas://task/{id}: a single task
+ *
+ * Every resource is returned as both Markdown and JSON. Reads are built on
+ * the same functions the tools use (getWorkspaceSummary, getProject, getTask).
+ *
+ * Resources can be subscribed to (see subscriptions.ts); changedResourceUris
+ * maps a task or project change to the resources it affects.
+ */
+
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+import { getProject, listProjects } from '../tools/projects.js';
+import { getTask } from '../tools/tasks.js';
+import { getWorkspace, getWorkspaceSummary, listWorkspaces } from '../tools/workspaces.js';
+import type { WorkspaceSummary } from '../tools/workspaces.js';
+import type { ToolContext } from '../tools/context.js';
+import type { CanvasChange } from '../realtime/index.js';
+import type {
+  ProjectRow,
+  ProjectWithEstimates,
+  TaskRow,
+  TaskStatus,
+  TaskWithSubtasks,
+  ToolResult,
+} from '../types/index.js';
+
+/** JSON-RPC error code for unknown resources, as defined by the MCP spec */
+const RESOURCE_NOT_FOUND = -32002;
+
+const BOARD_COLUMNS: { status: TaskStatus; title: string }[] = [
+  { status: 'backlog', title: 'Backlog' },
+  { status: 'todo', title: 'To Do' },
+  { status: 'in-progress', title: 'In Progress' },
+  { status: 'review', title: 'Review' },
+  { status: 'done', title: 'Done' },
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'canvas://workspace/{id}',
+    name: 'workspace',
+    title: 'Workspace summary',
+    description: 'Project and task counts, team size and recent active projects for a workspace.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'canvas://project/{id}',
+    name: 'project',
+    title: 'Project details',
+    description: 'Project details with task counts by status.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'canvas://project/{id}/board',
+    name: 'project-board',
+    title: 'Project board',
+    description: 'All tasks in a project, grouped into kanban columns.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'canvas://task/{id}',
+    name: 'task',
+    title: 'Task',
+    description: 'A single task with its project.',
+    mimeType: 'text/markdown',
+  },
+];
+
+export type CanvasResourceRef =
+  | { type: 'workspace'; id: string }
+  | { type: 'project'; id: string }
+  | { type: 'board'; id: string }
+  | { type: 'task'; id: string };
+
+// ============================================================================
+// URIs
+// ============================================================================
+
+export function workspaceUri(workspaceId: string): string {
+  return `canvas://workspace/${encodeURIComponent(workspaceId)}`;
+}
+
+export function projectUri(projectId: string): string {
+  return `canvas://project/${encodeURIComponent(projectId)}`;
+}
+
+export function boardUri(projectId: string): string {
+  return `${projectUri(projectId)}/board`;
+}
+
+export function taskUri(taskId: string): string {
+  return `canvas://task/${encodeURIComponent(taskId)}`;
+}
+
+/**
+ * Parse a canvas:// URI. Returns null if it doesn't match a template.
+ */
+export function parseResourceUri(uri: string): CanvasResourceRef | null {
+  const match = uri.match(/^canvas:\/\/(workspace|project|task)\/([^/]+)(\/board)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, kind, rawId, board] = match;
+  const id = decodeURIComponent(rawId);
+
+  if (board) {
+    return kind === 'project' ? { type: 'board', id } : null;
+  }
+
+  return { type: kind as 'workspace' | 'project' | 'task', id };
+}
+
+/**
+ * Resources whose content changes when a task or project row changes.
+ */
+export function changedResourceUris(change: CanvasChange): string[] {
+  const uris = [workspaceUri(change.workspaceId), projectUri(change.projectId), boardUri(change.projectId)];
+  if (change.table === 'tasks') {
+    uris.push(taskUri(change.id));
+  }
+  return uris;
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+/**
+ * List concrete resources: every visible workspace, plus each of its
+ * projects and project boards. Tasks are reachable through the task template.
+ */
+export async function listResources(ctx: ToolContext): Promise<Resource[]> {
+  const workspaces = unwrap(await listWorkspaces(ctx), 'workspaces');
+  const resources: Resource[] = [];
+
+  for (const workspace of workspaces) {
+    resources.push({
+      uri: workspaceUri(workspace.id),
+      name: workspace.name,
+      title: `Workspace: ${workspace.name}`,
+      mimeType: 'text/markdown',
+    });
+
+    const projects = unwrap(await listProjects(ctx, { workspace_id: workspace.id }), 'projects');
+    for (const project of projects) {
+      resources.push(
+        {
+          uri: projectUri(project.id),
+          name: project.name,
+          title: `Project: ${project.name}`,
+          description: project.description ?? undefined,
+          mimeType: 'text/markdown',
+        },
+        {
+          uri: boardUri(project.id),
+          name: `${project.name} board`,
+          title: `Board: ${project.name}`,
+          mimeType: 'text/markdown',
+        }
+      );
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Read a canvas:// resource as Markdown and JSON.
+ */
+export async function readResource(ctx: ToolContext, uri: string): Promise<ReadResourceResult> {
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Unknown resource URI: ${uri}`);
+  }
+
+  switch (ref.type) {
+    case 'workspace': {
+      const summary = unwrapResource(await getWorkspaceSummary(ctx, ref.id), uri);
+      return contents(uri, formatWorkspace(summary), summary);
+    }
+
+    case 'project': {
+      const project = unwrapResource(await getProject(ctx, { project_id: ref.id }), uri);
+      return contents(uri, formatProject(project), project);
+    }
+
+    case 'board': {
+      const project = unwrapResource(await getProject(ctx, { project_id: ref.id }), uri);
+      const tasks = 'tasks' in project ? project.tasks : [];
+      const columns = groupByColumn(tasks);
+      return contents(uri, formatBoard(project, columns), { project_id: project.id, name: project.name, columns });
+    }
+
+    case 'task': {
+      const task = unwrapResource(await getTask(ctx, ref.id), uri);
+      return contents(uri, formatTask(task), task);
+    }
+  }
+}
+
+/**
+ * Find the workspace a canvas:// resource belongs to.
+ */
+export async function resolveResourceWorkspace(ctx: ToolContext, uri: string): Promise<string> {
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Unknown resource URI: ${uri}`);
+  }
+
+  switch (ref.type) {
+    case 'workspace':
+      return unwrapResource(await getWorkspace(ctx, { workspace_id: ref.id }), uri).id;
+
+    case 'project':
+    case 'board':
+      return unwrapResource(await getProject(ctx, { project_id: ref.id, include_tasks: false }), uri).workspace_id;
+
+    case 'task':
+      return unwrapResource(await getTask(ctx, ref.id), uri).project.workspace_id;
+  }
+}
+
+function contents(uri: string, markdown: string, json: unknown): ReadResourceResult {
+  return {
+    contents: [
+      { uri, mimeType: 'text/markdown', text: markdown },
+      { uri, mimeType: 'application/json', text: JSON.stringify(json, null, 2) },
+    ],
+  };
+}
+
+function unwrap<T>(result: ToolResult<T>, what: string): T {
+  if (!result.success) {
+    throw new Error(`Failed to list ${what}: ${result.error}`);
+  }
+  return result.data;
+}
+
+function unwrapResource<T>(result: ToolResult<T>, uri: string): T {
+  if (!result.success) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri} (${result.error})`);
+  }
+  return result.data;
+}
+
+function groupByColumn(tasks: TaskRow[]): Record<TaskStatus, TaskRow[]> {
+  const columns = Object.fromEntries(BOARD_COLUMNS.map((c) => [c.status, [] as TaskRow[]])) as Record<
+    TaskStatus,
+    TaskRow[]
+  >;
+
+  for (const task of [...tasks].sort((a, b) => a.order - b.order)) {
+    columns[task.status]?.push(task);
+  }
+
+  return columns;
+}
+
+// ============================================================================
+// Markdown Formatting
+// ============================================================================
+
+function formatTaskLine(task: TaskRow): string {
+  const details = [task.priority, task.assignee ? `@${task.assignee}` : null, task.due_date ? `due ${task.due_date}` : null]
+    .filter(Boolean)
+    .join(', ');
+  return `- ${task.title} (${details}) — \`${task.id}\``;
+}
+
+function formatWorkspace(summary: WorkspaceSummary): string {
+  const { workspace, projects, tasks } = summary;
+  const lines = [
+    `# Workspace: ${workspace.name}`,
+    '',
+    `- **Projects:** ${projects.total} (${projects.active} active, ${projects.planning} planning, ${projects.on_hold} on hold, ${projects.completed} completed)`,
+    `- **Tasks:** ${tasks.total} (${tasks.backlog} backlog, ${tasks.todo} todo, ${tasks.in_progress} in progress, ${tasks.review} review, ${tasks.done} done)`,
+    `- **Team members:** ${summary.team_members}`,
+    '',
+    '## Recent Active Projects',
+    '',
+  ];
+
+  if (summary.recent_projects.length === 0) {
+    lines.push('_No active projects_');
+  } else {
+    for (const project of summary.recent_projects) {
+      lines.push(`- **${project.name}** — ${project.progress}% complete (${projectUri(project.id)})`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatProjectHeader(project: ProjectRow | ProjectWithEstimates): string[] {
+  const weighting = project.progress_mode === 'count' ? '' : ` (weighted by ${project.progress_mode})`;
+  const lines = [
+    `- **Status:** ${project.status}`,
+    `- **Priority:** ${project.priority}`,
+    `- **Progress:** ${project.progress}%${weighting}`,
+  ];
+  if (project.due_date) lines.push(`- **Due:** ${project.due_date}`);
+  if (project.estimated_duration_hours) lines.push(`- **Estimated hours:** ${project.estimated_duration_hours}`);
+  if ('estimates' in project && project.estimates.total > 0) {
+    lines.push(`- **Remaining estimate:** ${project.estimates.remaining} of ${project.estimates.total}`);
+  }
+  return lines;
+}
+
+function formatProject(project: ProjectWithEstimates | (ProjectWithEstimates & { tasks: TaskRow[] })): string {
+  const lines = [`# Project: ${project.name}`, '', ...formatProjectHeader(project)];
+
+  if (project.description) {
+    lines.push('', project.description);
+  }
+
+  if ('tasks' in project) {
+    const columns = groupByColumn(project.tasks);
+    lines.push('', `## Tasks (${project.tasks.length})`, '');
+    for (const column of BOARD_COLUMNS) {
+      lines.push(`- ${column.title}: ${columns[column.status].length}`);
+    }
+    lines.push('', `Full board: ${boardUri(project.id)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function formatBoard(project: ProjectRow, columns: Record<TaskStatus, TaskRow[]>): string {
+  const lines = [`# Board: ${project.name}`, '', `Progress: ${project.progress}%`];
+
+  for (const column of BOARD_COLUMNS) {
+    const tasks = columns[column.status];
+    lines.push('', `## ${column.title} (${tasks.length})`, '');
+    if (tasks.length === 0) {
+      lines.push('_No tasks_');
+    } else {
+      lines.push(...tasks.map(formatTaskLine));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatTask(task: TaskWithSubtasks): string {
+  const lines = [
+    `# Task: ${task.title}`,
+    '',
+    `- **Status:** ${task.status}`,
+    `- **Priority:** ${task.priority}`,
+    `- **Assignee:** ${task.assignee ?? 'Unassigned'}`,
+    `- **Due:** ${task.due_date ?? 'No due date'}`,
+    `- **Tags:** ${task.tags?.length ? task.tags.join(', ') : 'None'}`,
+    `- **Project:** ${task.project.name} (${projectUri(task.project_id)})`,
+  ];
+
+  if (task.description) {
+    lines.push('', '## Description', '', task.description);
+  }
+
+  if (task.completion) {
+    lines.push('', `## Subtasks (${task.completion.done}/${task.completion.total} done)`, '');
+    for (const subtask of task.subtasks) {
+      lines.push(`- [${subtask.status === 'done' ? 'x' : ' '}] ${subtask.title} (${taskUri(subtask.id)})`);
+    }
+  }
+
+  if (task.comments.length > 0) {
+    lines.push('', '## Recent Comments', '');
+    for (const comment of task.comments) {
+      lines.push(`- **${comment.author}** (${comment.created_at}): ${comment.body}`);
+    }
+  }
+
+  return lines.join('\n');
+}
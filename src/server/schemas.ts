@@ -0,0 +1,563 @@
+/**
+ * Tool Input Schemas
+ *
+ * One zod schema per tool. Each schema is the single source for both the
+ * JSON Schema advertised in the tool's `inputSchema` and the runtime
+ * validation applied in handleToolCall, so the two cannot drift apart.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { isDuePhrase } from '../tools/dates.js';
+import { TASK_STATUSES } from '../types/index.js';
+import type { ToolError } from '../types/index.js';
+
+// ============================================================================
+// Shared Field Schemas
+// ============================================================================
+
+const PRIORITIES = ['low', 'medium', 'high', 'critical'] as const;
+const PROJECT_STATUSES = ['active', 'completed', 'on-hold', 'planning'] as const;
+const PROGRESS_MODES = ['count', 'estimate', 'priority'] as const;
+
+/** Longest comment body accepted, in characters */
+const MAX_COMMENT_LENGTH = 10_000;
+
+/** Most minutes accepted by a single log_time call */
+const MAX_LOGGED_MINUTES = 24 * 60;
+
+/** Most tasks returned per query_tasks page */
+const MAX_QUERY_PAGE_SIZE = 100;
+
+/** Longest project burndown, in days */
+const MAX_BURNDOWN_DAYS = 365;
+
+/** Longest velocity history, in weeks */
+const MAX_VELOCITY_WEEKS = 52;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const id = (description: string) => z.string().trim().min(1, 'must not be empty').describe(description);
+
+const limit = (description: string) =>
+  z.number().int('must be a whole number').positive('must be greater than 0').describe(description);
+
+const isoDate = (description: string) =>
+  z
+    .string()
+    .regex(ISO_DATE_PATTERN, 'must be an ISO 8601 date (e.g., 2024-12-31)')
+    .refine((value) => !Number.isNaN(Date.parse(value)), 'must be a valid calendar date')
+    .describe(description);
+
+/** An ISO date, or a relative one such as "next friday", "in 3 days" or "end of sprint" */
+const dueDate = (description: string) =>
+  z
+    .string()
+    .trim()
+    .min(1, 'must not be empty')
+    .refine(
+      (value) => (/^\d{4}-\d{2}-\d{2}/.test(value) ? ISO_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) : isDuePhrase(value)),
+      'must be an ISO 8601 date (e.g., 2024-12-31) or a phrase like "tomorrow", "next friday", "in 3 days", "end of month" or "end of sprint"'
+    )
+    .describe(description);
+
+const taskStatus = (description: string) => z.enum(TASK_STATUSES).describe(description);
+const priority = (description: string) => z.enum(PRIORITIES).describe(description);
+const projectStatus = (description: string) => z.enum(PROJECT_STATUSES).describe(description);
+const progressMode = (description: string) => z.enum(PROGRESS_MODES).describe(description);
+
+const estimate = (description: string) => z.number().nonnegative('must not be negative').describe(description);
+
+const tags = (description: string) => z.array(z.string().trim().min(1)).describe(description);
+
+const commentBody = (description: string) =>
+  z.string().trim().min(1, 'must not be empty').max(MAX_COMMENT_LENGTH).describe(description);
+
+const memberName = (description: string) => z.string().trim().min(1, 'must not be empty').describe(description);
+
+const email = (description: string) => z.string().trim().email('must be an email address').describe(description);
+
+const strict = () =>
+  z.boolean().describe('Refuse instead of warning when the task has unfinished dependencies').optional();
+
+const position = (description: string) =>
+  z.number().int('must be a whole number').nonnegative('must not be negative').describe(description);
+
+const taskIdInput = (description: string) =>
+  z.object({
+    task_id: id(description),
+  });
+
+/** Most items accepted by a single bulk tool call */
+export const MAX_BULK_ITEMS = 100;
+
+const bulkItems = <T extends z.ZodTypeAny>(item: T, description: string) =>
+  z
+    .array(item)
+    .min(1, 'must contain at least one item')
+    .max(MAX_BULK_ITEMS, `must contain at most ${MAX_BULK_ITEMS} items`)
+    .describe(description);
+
+// Task inputs shared by the single and bulk task tools
+
+const createTaskInput = z.object({
+  project_id: id('The project ID to add the task to'),
+  title: z.string().trim().min(1, 'must not be empty').describe('Task title'),
+  description: z.string().describe('Task description with details').optional(),
+  status: taskStatus('Initial status (default: todo)').optional(),
+  priority: priority('Task priority (default: medium)').optional(),
+  assignee: z.string().describe('Team member name, email or ID').optional(),
+  due_date: dueDate('Due date: ISO format, or e.g. "next friday", "in 3 days", "end of sprint"').optional(),
+  tags: tags('Tags for categorization').optional(),
+  estimate: estimate('Size of the task, in story points or hours').optional(),
+});
+
+const updateTaskInput = z.object({
+  task_id: id('The task ID to update'),
+  title: z.string().trim().min(1, 'must not be empty').describe('New title').optional(),
+  description: z.string().describe('New description').optional(),
+  status: taskStatus('New status').optional(),
+  priority: priority('New priority').optional(),
+  assignee: z.string().describe('New assignee: team member name, email or ID, or an empty string to unassign').optional(),
+  due_date: dueDate('New due date: ISO format, or e.g. "next friday", "in 3 days", "end of sprint"; null clears it')
+    .nullable()
+    .optional(),
+  tags: tags('New tags').optional(),
+  estimate: estimate('New estimate, in story points or hours').optional(),
+});
+
+const moveTaskInput = z.object({
+  task_id: id('The task ID to move'),
+  new_status: taskStatus('The new status/column'),
+});
+
+// ============================================================================
+// Tool Schemas
+// ============================================================================
+
+export const TOOL_SCHEMAS = {
+  // Workspace Tools
+  list_workspaces: z.object({
+    limit: limit('Maximum number of workspaces to return').optional(),
+  }),
+
+  get_workspace: z.object({
+    workspace_id: id('The workspace ID'),
+  }),
+
+  get_workspace_summary: z.object({
+    workspace_id: id('The workspace ID'),
+  }),
+
+  get_work_in_progress: z.object({
+    workspace_id: id('The workspace ID'),
+  }),
+
+  // Project Tools
+  list_projects: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+    status: projectStatus('Filter by project status').optional(),
+    limit: limit('Maximum number of projects to return').optional(),
+  }),
+
+  get_project: z.object({
+    project_id: id('The project ID'),
+    include_tasks: z.boolean().describe('Whether to include tasks (default: true)').optional(),
+  }),
+
+  create_project: z.object({
+    workspace_id: id('The workspace ID to create the project in'),
+    name: z.string().trim().min(1, 'must not be empty').describe('Project name'),
+    description: z.string().describe('Project description').optional(),
+    status: projectStatus('Initial project status (default: planning)').optional(),
+    priority: priority('Project priority (default: medium)').optional(),
+    budget: z.number().nonnegative('must not be negative').describe('Project budget').optional(),
+    due_date: dueDate('Due date: ISO format (e.g., 2024-12-31), or e.g. "end of month", "in 6 weeks"').optional(),
+    estimated_duration_hours: z
+      .number()
+      .positive('must be greater than 0')
+      .describe('Estimated hours to complete')
+      .optional(),
+    progress_mode: progressMode(
+      'How progress is calculated: share of tasks done (count, default), or weighted by task estimate or priority'
+    ).optional(),
+  }),
+
+  update_project: z.object({
+    project_id: id('The project ID to update'),
+    name: z.string().trim().min(1, 'must not be empty').describe('New project name').optional(),
+    description: z.string().describe('New description').optional(),
+    status: projectStatus('New status').optional(),
+    priority: priority('New priority').optional(),
+    progress: z.number().min(0).max(100).describe('Progress percentage (0-100)').optional(),
+    budget: z.number().nonnegative('must not be negative').describe('New budget').optional(),
+    spent: z.number().nonnegative('must not be negative').describe('Amount spent').optional(),
+    due_date: dueDate('New due date: ISO format, or e.g. "end of month", "in 6 weeks"; null clears it')
+      .nullable()
+      .optional(),
+    progress_mode: progressMode('How progress is calculated; changing it recalculates progress').optional(),
+  }),
+
+  update_project_progress: z.object({
+    project_id: id('The project ID'),
+    progress: z.number().min(0).max(100).describe('Progress percentage (0-100)'),
+  }),
+
+  // Task Tools
+  create_task: createTaskInput,
+
+  create_subtask: z.object({
+    parent_task_id: id('The task to add the subtask to'),
+    title: z.string().trim().min(1, 'must not be empty').describe('Subtask title'),
+    description: z.string().describe('Subtask description').optional(),
+    priority: priority('Subtask priority (default: medium)').optional(),
+    assignee: z.string().describe('Team member name, email or ID').optional(),
+    due_date: dueDate('Due date: ISO format, or e.g. "next friday", "in 3 days", "end of sprint"').optional(),
+    tags: tags('Tags for categorization').optional(),
+  }),
+
+  toggle_checklist_item: z.object({
+    task_id: id('The subtask ID'),
+    done: z.boolean().describe('true to check off, false to reopen (default: toggle)').optional(),
+  }),
+
+  get_task: taskIdInput('The task ID'),
+
+  update_task: updateTaskInput,
+
+  move_task: moveTaskInput.extend({
+    position: position('Position in the new column, 0 = top (default: bottom)').optional(),
+    strict: strict(),
+  }),
+
+  reorder_task: z
+    .object({
+      task_id: id('The task ID to reorder within its column'),
+      before_task_id: id('Place the task directly above this task in the same column').optional(),
+      after_task_id: id('Place the task directly below this task in the same column').optional(),
+      position: position('Position in the column, 0 = top').optional(),
+    })
+    .refine(
+      (input) => [input.before_task_id, input.after_task_id, input.position].filter((v) => v !== undefined).length === 1,
+      'provide exactly one of before_task_id, after_task_id or position'
+    ),
+
+  start_task: taskIdInput('The task ID to start').extend({
+    strict: strict(),
+  }),
+
+  complete_task: taskIdInput('The task ID to complete').extend({
+    note: commentBody('Closing note left as a comment, e.g. what was done and what is left').optional(),
+  }),
+
+  review_task: taskIdInput('The task ID to review'),
+
+  search_tasks: z.object({
+    query: z.string().trim().min(1, 'must not be empty').describe('Words to find in task titles, tags, descriptions and comments; every word must match, word starts count (e.g. "auth" finds "authentication")'),
+    workspace_id: id('Limit search to specific workspace').optional(),
+    project_id: id('Limit search to specific project').optional(),
+    status: taskStatus('Filter by status').optional(),
+    limit: limit('Maximum results (default: 20)').optional(),
+  }),
+
+  list_project_tasks: z.object({
+    project_id: id('The project ID'),
+    status: taskStatus('Filter by status').optional(),
+  }),
+
+  delete_task: taskIdInput('The task ID to move to the trash'),
+
+  restore_task: taskIdInput('The trashed task ID to restore'),
+
+  list_trash: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+    project_id: id('Only list trashed tasks from this project').optional(),
+    limit: limit('Maximum number of tasks to return').optional(),
+  }),
+
+  purge_trash: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+    older_than_days: z
+      .number()
+      .int('must be a whole number')
+      .nonnegative('must not be negative')
+      .describe('Only purge tasks trashed more than this many days ago (default: 30)')
+      .optional(),
+  }),
+
+  // Task Query Tools
+  query_tasks: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+    project_id: id('Only tasks in this project').optional(),
+    assignee: z.string().describe('Team member name, email or ID, or an empty string for unassigned tasks').optional(),
+    priorities: z.array(priority('Priority')).min(1).describe('Only tasks with one of these priorities').optional(),
+    statuses: z.array(taskStatus('Status')).min(1).describe('Only tasks in one of these columns').optional(),
+    tags: tags('Only tasks with these tags (see tag_match)').min(1).optional(),
+    tag_match: z.enum(['any', 'all']).describe('Whether tasks need any (default) or all of the tags').optional(),
+    due_from: dueDate('Only tasks due on or after this date; ISO format or e.g. "today"').optional(),
+    due_to: dueDate('Only tasks due on or before this date; ISO format or e.g. "end of week"').optional(),
+    created_since: isoDate('Only tasks created at or after this date/time (ISO format)').optional(),
+    updated_since: isoDate('Only tasks updated at or after this date/time (ISO format)').optional(),
+    project_statuses: z.array(projectStatus('Project status')).min(1).describe('Only tasks in projects with one of these statuses').optional(),
+    sort: z
+      .enum(['priority', 'due_date', 'updated_at', 'order'])
+      .describe('Most urgent first (default), earliest due first, most recently updated first, or board order')
+      .optional(),
+    limit: limit(`Tasks per page (default: 50, at most ${MAX_QUERY_PAGE_SIZE})`).max(MAX_QUERY_PAGE_SIZE).optional(),
+    cursor: z.string().min(1).describe('next_cursor from the previous page, with the same filters and sort').optional(),
+  }),
+
+  // Bulk Task Tools
+  bulk_create_tasks: z.object({
+    tasks: bulkItems(createTaskInput, 'Tasks to create'),
+  }),
+
+  bulk_update_tasks: z.object({
+    tasks: bulkItems(updateTaskInput, 'Task updates; each names the task and the fields to change'),
+  }),
+
+  bulk_move_tasks: z.object({
+    tasks: bulkItems(moveTaskInput, 'Tasks to move and their new columns'),
+  }),
+
+  // Sprint Tools
+  create_sprint: z
+    .object({
+      project_id: id('The project ID to plan the sprint in'),
+      name: z.string().trim().min(1, 'must not be empty').describe('Sprint name (e.g., "Sprint 14")'),
+      start_date: isoDate('First day of the sprint (ISO format)'),
+      end_date: isoDate('Last day of the sprint (ISO format)'),
+      goal: z.string().trim().min(1, 'must not be empty').describe('What the sprint should achieve').optional(),
+    })
+    .refine((input) => Date.parse(input.end_date) >= Date.parse(input.start_date), {
+      message: 'end_date must not be before start_date',
+      path: ['end_date'],
+    }),
+
+  list_sprints: z.object({
+    project_id: id('The project ID'),
+  }),
+
+  get_sprint: z.object({
+    sprint_id: id('The sprint ID'),
+  }),
+
+  add_tasks_to_sprint: z.object({
+    sprint_id: id('The open sprint to plan the tasks into'),
+    task_ids: bulkItems(id('Task ID'), "Tasks from the sprint's project"),
+  }),
+
+  close_sprint: z.object({
+    sprint_id: id('The sprint ID to close'),
+    move_unfinished_to: z
+      .enum(['next_sprint', 'backlog'])
+      .describe('Where unfinished tasks go (default: the next open sprint if there is one, otherwise the backlog)')
+      .optional(),
+  }),
+
+  // Team Tools
+  list_team_members: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+  }),
+
+  get_team_member: z.object({
+    member_id: id('The team member ID'),
+  }),
+
+  add_team_member: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+    name: memberName('Full name, as shown on assigned tasks'),
+    email: email('Email address, unique within the workspace'),
+    role: z.string().trim().min(1, 'must not be empty').describe('Role on the team (default: member)').optional(),
+    department: z.string().trim().min(1, 'must not be empty').describe('Department').optional(),
+  }),
+
+  update_team_member: z.object({
+    member_id: id('The team member ID to update'),
+    name: memberName('New name; tasks assigned to the member show it too').optional(),
+    email: email('New email address').optional(),
+    role: z.string().trim().min(1, 'must not be empty').describe('New role').optional(),
+    department: z.string().trim().min(1, 'must not be empty').describe('New department').optional(),
+    status: z.string().trim().min(1, 'must not be empty').describe('New status (e.g., active, away)').optional(),
+  }),
+
+  // Workload Tools
+  get_workload: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+    wip_limit: z
+      .number()
+      .int('must be a whole number')
+      .positive('must be greater than 0')
+      .describe('In-progress and review tasks one person can hold before being flagged (default: CANVAS_WIP_LIMIT, or 3)')
+      .optional(),
+  }),
+
+  // Deadline Tools
+  get_due_tasks: z
+    .object({
+      workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+      project_id: id('Only tasks in this project').optional(),
+      window: z
+        .enum(['overdue', 'today', 'this_week', 'range'])
+        .describe("Which tasks: overdue, due today, due by Sunday, or due between `from` and `to` (in the workspace's time zone)"),
+      from: dueDate('First due date of the range (inclusive); ISO format or e.g. "tomorrow"').optional(),
+      to: dueDate('Last due date of the range (inclusive); ISO format or e.g. "end of month"').optional(),
+    })
+    .refine((input) => input.window !== 'range' || input.from !== undefined || input.to !== undefined, {
+      message: 'a range needs from, to or both',
+      path: ['from'],
+    }),
+
+  get_project_deadlines: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+  }),
+
+  // Comment Tools
+  add_task_comment: z.object({
+    task_id: id('The task ID to comment on'),
+    body: commentBody('The comment, e.g. what was done and what is left'),
+  }),
+
+  list_task_comments: z.object({
+    task_id: id('The task ID'),
+    limit: limit('Maximum number of comments to return (default: 20)').optional(),
+  }),
+
+  // Dependency Tools
+  add_dependency: z.object({
+    task_id: id('The task that has to wait'),
+    depends_on_task_id: id('The task that has to be done first'),
+  }),
+
+  remove_dependency: z.object({
+    task_id: id('The task that was waiting'),
+    depends_on_task_id: id('The task it no longer waits for'),
+  }),
+
+  get_blocked_tasks: z.object({
+    project_id: id('The project ID'),
+  }),
+
+  // Time Tracking Tools
+  log_time: z.object({
+    task_id: id('The task ID the time was spent on'),
+    minutes: z
+      .number()
+      .int('must be a whole number')
+      .positive('must be greater than 0')
+      .max(MAX_LOGGED_MINUTES, 'must be at most 24 hours')
+      .describe('Minutes spent, ending now'),
+    note: z.string().trim().min(1, 'must not be empty').describe('What the time was spent on').optional(),
+  }),
+
+  get_time_report: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+    project_id: id('Only report on this project').optional(),
+    from: isoDate('Only time started at or after this date/time (ISO format)').optional(),
+    to: isoDate('Only time started before this date/time; a date includes the whole day (ISO format)').optional(),
+  }),
+
+  // Analytics Tools
+  get_burndown: z
+    .object({
+      project_id: id('Project to chart over the last `days` days').optional(),
+      sprint_id: id('Sprint to chart from its start date to its end date').optional(),
+      days: z
+        .number()
+        .int('must be a whole number')
+        .positive('must be greater than 0')
+        .max(MAX_BURNDOWN_DAYS, `must be at most ${MAX_BURNDOWN_DAYS}`)
+        .describe('Days to cover for a project, ending today (default: 30)')
+        .optional(),
+    })
+    .refine((input) => Boolean(input.project_id) !== Boolean(input.sprint_id), {
+      message: 'pass either project_id or sprint_id',
+      path: ['project_id'],
+    }),
+
+  get_velocity: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+    weeks: z
+      .number()
+      .int('must be a whole number')
+      .positive('must be greater than 0')
+      .max(MAX_VELOCITY_WEEKS, `must be at most ${MAX_VELOCITY_WEEKS}`)
+      .describe('Weeks to cover, ending with the current week (default: 6)')
+      .optional(),
+  }),
+
+  get_cycle_time: z.object({
+    project_id: id('The project ID'),
+  }),
+
+  // Activity Tools
+  get_task_history: z.object({
+    task_id: id('The task ID (deleted tasks keep their history)'),
+    limit: limit('Maximum number of changes to return').optional(),
+  }),
+
+  get_activity_feed: z.object({
+    workspace_id: id('Workspace ID (optional if DEFAULT_WORKSPACE_ID is set)').optional(),
+    since: isoDate('Only changes at or after this time (ISO format)').optional(),
+    limit: limit('Maximum number of changes to return (default: 50)').optional(),
+  }),
+
+  // Undo Tools
+  undo_last_action: z.object({}),
+
+  undo_action: z.object({
+    action_id: id('The action_id returned by the tool call to undo'),
+  }),
+};
+
+export type ToolName = keyof typeof TOOL_SCHEMAS;
+
+export type ToolInput<N extends ToolName> = z.infer<(typeof TOOL_SCHEMAS)[N]>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check whether a tool name has a registered schema.
+ */
+export function isToolName(name: string): name is ToolName {
+  return Object.prototype.hasOwnProperty.call(TOOL_SCHEMAS, name);
+}
+
+/**
+ * Generate the JSON Schema advertised as a tool's `inputSchema`.
+ */
+export function toInputSchema(name: ToolName): { type: 'object'; [key: string]: unknown } {
+  const { $schema: _schema, ...jsonSchema } = zodToJsonSchema(TOOL_SCHEMAS[name], {
+    target: 'jsonSchema7',
+    $refStrategy: 'none',
+  }) as Record<string, unknown>;
+
+  return { ...jsonSchema, type: 'object' };
+}
+
+/**
+ * Convert a zod validation failure into an INVALID_INPUT tool error,
+ * with one message per offending field.
+ */
+export function toInvalidInputError(toolName: string, error: z.ZodError): ToolError {
+  const details: Record<string, string> = {};
+
+  for (const issue of error.issues) {
+    const field = issue.path.length > 0 ? issue.path.join('.') : '(input)';
+    details[field] = details[field] ? `${details[field]}; ${issue.message}` : issue.message;
+  }
+
+  const summary = Object.entries(details)
+    .map(([field, message]) => `${field}: ${message}`)
+    .join('; ');
+
+  return {
+    success: false,
+    error: `Invalid input for ${toolName}: ${summary}`,
+    code: 'INVALID_INPUT',
+    details,
+  };
+}
@@ -3,9 +3,11 @@
  *
  * Provides HTTP/SSE transport for the MCP server, enabling
  * Claude Chat (claude.ai) to connect via Server-Sent Events.
+ * The same server also hosts the Streamable HTTP transport on /mcp
+ * for newer MCP clients (see streamableHttp.ts).
  *
  * Features:
- * - Token-based authentication via Supabase
+ * - Token-based authentication via Supabase (per-user RLS-scoped sessions)
  * - CORS configuration for Claude.ai
  * - Health check endpoint for monitoring
  * - Graceful shutdown handling
@@ -17,10 +19,19 @@ import cors from 'cors';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 
 import { createMCPServer, SERVER_NAME, SERVER_VERSION, TOOLS } from './createMCPServer.js';
-import { initializeSupabase } from '../supabase/client.js';
+import { authenticateRequest } from './auth.js';
+import {
+  registerStreamableHttpRoutes,
+  getStreamableHttpSessionCount,
+  closeStreamableHttpSessions,
+  STREAMABLE_HTTP_ENDPOINT,
+} from './streamableHttp.js';
+import { initializeRepository } from '../repository/index.js';
+import { initializeChangeFeed } from '../realtime/index.js';
 import type { ServerConfig } from '../types/index.js';
 
-// Store active SSE transports for cleanup
+// Active SSE transports, keyed by the transport's session ID.
+// POST /message?sessionId=... is routed to the matching transport.
 const activeTransports = new Map<string, SSEServerTransport>();
 
 /**
@@ -29,8 +40,11 @@ const activeTransports = new Map<string, SSEServerTransport>();
 export async function startSSEServer(config: ServerConfig): Promise<void> {
   const app = express();
 
-  // Initialize shared Supabase client for service operations
-  initializeSupabase(config);
+  // Initialize shared Supabase client, used to verify session tokens
+  const repo = initializeRepository(config);
+
+  // Sessions get their own user-scoped change feeds; this applies CANVAS_LOG_CHANGES
+  initializeChangeFeed(config, repo);
 
   // CORS configuration - Allow Claude.ai and the main app
   const corsOptions: cors.CorsOptions = {
@@ -42,8 +56,9 @@ export async function startSSEServer(config: ServerConfig): Promise<void> {
       /^http:\/\/localhost:\d+$/,
     ],
     credentials: true,
-    methods: ['GET', 'POST', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID'],
+    exposedHeaders: ['Mcp-Session-Id'],
   };
 
   app.use(cors(corsOptions));
@@ -60,11 +75,21 @@ export async function startSSEServer(config: ServerConfig): Promise<void> {
   app.get('/health', (req: Request, res: Response) => {
     res.json({
       status: 'healthy',
-      mode: 'sse',
+      mode: 'http',
       server: SERVER_NAME,
       version: SERVER_VERSION,
       tools: TOOLS.length,
-      activeConnections: activeTransports.size,
+      transports: {
+        sse: {
+          endpoint: '/sse',
+          activeSessions: activeTransports.size,
+        },
+        streamableHttp: {
+          endpoint: STREAMABLE_HTTP_ENDPOINT,
+          activeSessions: getStreamableHttpSessionCount(),
+        },
+      },
+      activeConnections: activeTransports.size + getStreamableHttpSessionCount(),
       uptime: process.uptime(),
       mainApp: 'https://limitless-canvas12.vercel.app',
       timestamp: new Date().toISOString(),
@@ -80,44 +105,59 @@ export async function startSSEServer(config: ServerConfig): Promise<void> {
       endpoints: {
         health: '/health',
         sse: '/sse',
-        message: '/message (POST)',
+        message: '/message?sessionId=<id> (POST)',
+        mcp: `${STREAMABLE_HTTP_ENDPOINT} (POST, GET, DELETE)`,
       },
       tools: TOOLS.map(t => t.name),
       documentation: 'https://limitless-canvas12.vercel.app/settings',
       usage: {
         claude_code: 'Use --stdio flag for local Claude Code integration',
-        claude_chat: 'Connect to /sse endpoint',
+        claude_chat: 'Connect to /sse endpoint with a Supabase access token (Authorization: Bearer <token> or ?token=<token>)',
+        streamable_http: `Newer MCP clients connect to ${STREAMABLE_HTTP_ENDPOINT} with the same access token`,
       },
     });
   });
 
   // SSE endpoint for Claude Chat
   app.get('/sse', async (req: Request, res: Response) => {
-    const requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    console.log(`[${SERVER_NAME}] SSE connection request: ${requestId}`);
-
     try {
-      // Create MCP server instance (uses service role key from environment)
-      const server = createMCPServer();
+      // Every session runs as the authenticated user, never the service role
+      const auth = await authenticateRequest(req);
+      if (!auth.success) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.status(auth.status).json({
+          error: 'Unauthorized',
+          message: auth.error,
+        });
+        return;
+      }
+
+      // Create MCP server instance bound to the user's RLS-scoped client
+      const server = createMCPServer(auth.context);
 
-      // Create SSE transport
+      // Create SSE transport. The client is told to POST to /message?sessionId=<id>
       const transport = new SSEServerTransport('/message', res);
+      const sessionId = transport.sessionId;
+      console.log(`[${SERVER_NAME}] SSE connection request: ${sessionId} (user ${auth.context.user?.id})`);
 
-      // Store transport for cleanup
-      activeTransports.set(requestId, transport);
+      // Store transport so /message can route to it
+      activeTransports.set(sessionId, transport);
 
       // Handle connection close
+      transport.onclose = () => {
+        activeTransports.delete(sessionId);
+      };
       req.on('close', () => {
-        console.log(`[${SERVER_NAME}] SSE connection closed: ${requestId}`);
-        activeTransports.delete(requestId);
+        console.log(`[${SERVER_NAME}] SSE connection closed: ${sessionId}`);
+        activeTransports.delete(sessionId);
       });
 
-      // Connect server to transport
+      // Connect server to transport (this starts the SSE stream)
       await server.connect(transport);
-      console.log(`[${SERVER_NAME}] SSE transport connected: ${requestId}`);
+      console.log(`[${SERVER_NAME}] SSE transport connected: ${sessionId}`);
 
     } catch (error) {
-      console.error(`[${SERVER_NAME}] SSE connection error (${requestId}):`, error);
+      console.error(`[${SERVER_NAME}] SSE connection error:`, error);
       if (!res.headersSent) {
         res.status(500).json({
           error: 'Connection failed',
@@ -127,13 +167,44 @@ export async function startSSEServer(config: ServerConfig): Promise<void> {
     }
   });
 
-  // Message endpoint (for SSE transport POST requests)
+  // Message endpoint (JSON-RPC messages from the client for an SSE session)
   app.post('/message', async (req: Request, res: Response) => {
-    // The SSEServerTransport handles this internally
-    // This endpoint just needs to exist and return 200
-    res.status(200).end();
+    const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+
+    if (!sessionId) {
+      res.status(400).json({
+        error: 'Missing sessionId',
+        message: 'The sessionId query parameter is required',
+      });
+      return;
+    }
+
+    const transport = activeTransports.get(sessionId);
+    if (!transport) {
+      res.status(404).json({
+        error: 'Session not found',
+        message: `No active SSE session with ID "${sessionId}". It may have expired; reconnect to /sse.`,
+      });
+      return;
+    }
+
+    try {
+      // express.json() has already consumed the body, so pass it through
+      await transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      console.error(`[${SERVER_NAME}] Message handling error (${sessionId}):`, error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          error: 'Message handling failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
   });
 
+  // Streamable HTTP endpoint for newer MCP clients
+  registerStreamableHttpRoutes(app);
+
   // Error handling middleware
   app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
     console.error(`[${SERVER_NAME}] Server error:`, err);
@@ -156,6 +227,7 @@ export async function startSSEServer(config: ServerConfig): Promise<void> {
 ║   Port: ${PORT.toString().padEnd(48)}║
 ║   Health: http://localhost:${PORT}/health${' '.repeat(Math.max(0, 24 - PORT.toString().length))}║
 ║   SSE: http://localhost:${PORT}/sse${' '.repeat(Math.max(0, 28 - PORT.toString().length))}║
+║   Streamable HTTP: http://localhost:${PORT}/mcp${' '.repeat(Math.max(0, 16 - PORT.toString().length))}║
 ║   Main App: https://limitless-canvas12.vercel.app        ║
 ║   Tools: ${TOOLS.length.toString().padEnd(47)}║
 ╚══════════════════════════════════════════════════════════╝
@@ -170,8 +242,16 @@ export async function startSSEServer(config: ServerConfig): Promise<void> {
     for (const [id, transport] of activeTransports) {
       console.log(`[${SERVER_NAME}] Closing connection: ${id}`);
       activeTransports.delete(id);
+      try {
+        await transport.close();
+      } catch (error) {
+        console.error(`[${SERVER_NAME}] Error closing connection ${id}:`, error);
+      }
     }
 
+    // Close all Streamable HTTP sessions
+    await closeStreamableHttpSessions();
+
     server.close(() => {
       console.log(`[${SERVER_NAME}] Server closed`);
       process.exit(0);
@@ -190,7 +270,9 @@ export async function startSSEServer(config: ServerConfig): Promise<void> {
   // Keep-alive ping for Render free tier (every 14 minutes)
   if (process.env.NODE_ENV === 'production') {
     setInterval(() => {
-      console.log(`[${SERVER_NAME}] Keep-alive ping - ${activeTransports.size} active connections`);
+      console.log(
+        `[${SERVER_NAME}] Keep-alive ping - ${activeTransports.size} SSE, ${getStreamableHttpSessionCount()} Streamable HTTP sessions`
+      );
     }, 14 * 60 * 1000);
   }
 }
@@ -0,0 +1,156 @@
+/**
+ * Streamable HTTP Transport for Newer MCP Clients
+ *
+ * Serves the MCP Streamable HTTP transport on a single /mcp endpoint,
+ * alongside the legacy SSE transport in sse.ts:
+ * - POST /mcp: JSON-RPC messages (an initialize request starts a session)
+ * - GET /mcp: server-to-client notification stream, resumable via Last-Event-ID
+ * - DELETE /mcp: end the session
+ *
+ * Sessions are identified by the Mcp-Session-Id header and authenticated
+ * with the same Supabase access token scheme as /sse.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Express, Request, Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { createMCPServer, SERVER_NAME } from './createMCPServer.js';
+import { authenticateRequest } from './auth.js';
+import { InMemoryEventStore } from './eventStore.js';
+
+export const STREAMABLE_HTTP_ENDPOINT = '/mcp';
+
+// Active Streamable HTTP transports, keyed by session ID
+const activeSessions = new Map<string, StreamableHTTPServerTransport>();
+
+/**
+ * Get the number of open Streamable HTTP sessions.
+ */
+export function getStreamableHttpSessionCount(): number {
+  return activeSessions.size;
+}
+
+/**
+ * Close every open Streamable HTTP session (used during shutdown).
+ */
+export async function closeStreamableHttpSessions(): Promise<void> {
+  for (const [id, transport] of activeSessions) {
+    console.log(`[${SERVER_NAME}] Closing Streamable HTTP session: ${id}`);
+    activeSessions.delete(id);
+    try {
+      await transport.close();
+    } catch (error) {
+      console.error(`[${SERVER_NAME}] Error closing session ${id}:`, error);
+    }
+  }
+}
+
+/**
+ * Send a JSON-RPC error response (used before a transport exists).
+ */
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+/**
+ * Read the session ID header from a request.
+ */
+function getSessionId(req: Request): string | undefined {
+  const header = req.headers['mcp-session-id'];
+  return typeof header === 'string' ? header : undefined;
+}
+
+/**
+ * Route a request to an existing session's transport, or respond with an error.
+ */
+async function handleSessionRequest(req: Request, res: Response): Promise<void> {
+  const sessionId = getSessionId(req);
+
+  if (!sessionId) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+    return;
+  }
+
+  const transport = activeSessions.get(sessionId);
+  if (!transport) {
+    sendJsonRpcError(res, 404, -32001, `Session not found: "${sessionId}". Start a new session.`);
+    return;
+  }
+
+  await transport.handleRequest(req, res, req.body);
+}
+
+/**
+ * Start a new session from an initialize request.
+ */
+async function handleInitialize(req: Request, res: Response): Promise<void> {
+  const auth = await authenticateRequest(req);
+  if (!auth.success) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    sendJsonRpcError(res, auth.status, -32001, auth.error);
+    return;
+  }
+
+  const eventStore = new InMemoryEventStore();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore,
+    onsessioninitialized: (sessionId) => {
+      console.log(`[${SERVER_NAME}] Streamable HTTP session started: ${sessionId} (user ${auth.context.user?.id})`);
+      activeSessions.set(sessionId, transport);
+    },
+  });
+
+  transport.onclose = () => {
+    const sessionId = transport.sessionId;
+    if (sessionId && activeSessions.delete(sessionId)) {
+      console.log(`[${SERVER_NAME}] Streamable HTTP session closed: ${sessionId}`);
+    }
+    eventStore.clear();
+  };
+
+  const server = createMCPServer(auth.context);
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+}
+
+/**
+ * Register the /mcp routes on an Express app.
+ */
+export function registerStreamableHttpRoutes(app: Express): void {
+  app.post(STREAMABLE_HTTP_ENDPOINT, async (req: Request, res: Response) => {
+    try {
+      if (!getSessionId(req) && isInitializeRequest(req.body)) {
+        await handleInitialize(req, res);
+      } else {
+        await handleSessionRequest(req, res);
+      }
+    } catch (error) {
+      console.error(`[${SERVER_NAME}] Streamable HTTP error:`, error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  // GET opens the notification stream; DELETE terminates the session
+  const handleExisting = async (req: Request, res: Response) => {
+    try {
+      await handleSessionRequest(req, res);
+    } catch (error) {
+      console.error(`[${SERVER_NAME}] Streamable HTTP error:`, error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  };
+
+  app.get(STREAMABLE_HTTP_ENDPOINT, handleExisting);
+  app.delete(STREAMABLE_HTTP_ENDPOINT, handleExisting);
+}
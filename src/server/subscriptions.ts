@@ -0,0 +1,106 @@
+/**
+ * Resource Subscriptions for Limitless Canvas
+ *
+ * Lets clients subscribe to canvas:// resources and get
+ * `notifications/resources/updated` when tasks or projects change, including
+ * changes made outside this session (for example in the web app).
+ *
+ * Each session watches the workspaces its subscribed resources belong to
+ * through the context's ChangeFeed, and stops watching a workspace once its
+ * last subscription is removed or the session closes. With CANVAS_LOG_CHANGES
+ * set, every change in a watched workspace is also sent as a logging message.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { changedResourceUris, resolveResourceWorkspace } from './resources.js';
+import { isChangeLoggingEnabled } from '../realtime/index.js';
+import type { CanvasChange, ChangeFeed } from '../realtime/index.js';
+import type { ToolContext } from '../tools/context.js';
+
+const CHANGE_VERBS: Record<CanvasChange['type'], string> = {
+  INSERT: 'created',
+  UPDATE: 'updated',
+  DELETE: 'deleted',
+};
+
+/**
+ * Register subscribe/unsubscribe handlers that push updates from a change feed.
+ */
+export function registerResourceSubscriptions(
+  server: Server,
+  serverName: string,
+  ctx: ToolContext,
+  changes: ChangeFeed
+): void {
+  /** Subscribed URI -> workspace it belongs to */
+  const subscriptions = new Map<string, string>();
+  /** Watched workspace -> function that stops watching it */
+  const watches = new Map<string, Promise<() => void>>();
+
+  const onChange = async (change: CanvasChange) => {
+    try {
+      for (const uri of changedResourceUris(change)) {
+        if (subscriptions.has(uri)) {
+          await server.sendResourceUpdated({ uri });
+        }
+      }
+
+      if (isChangeLoggingEnabled()) {
+        await server.sendLoggingMessage({
+          level: 'info',
+          logger: serverName,
+          data: `${change.table === 'tasks' ? 'Task' : 'Project'} ${change.id} ${CHANGE_VERBS[change.type]}`,
+        });
+      }
+    } catch (error) {
+      console.error(`[${serverName}] Failed to send change notification:`, error);
+    }
+  };
+
+  const unwatch = async (workspaceId: string) => {
+    const watch = watches.get(workspaceId);
+    watches.delete(workspaceId);
+    const stop = await watch?.catch(() => undefined);
+    stop?.();
+  };
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const workspaceId = await resolveResourceWorkspace(ctx, uri);
+
+    if (!watches.has(workspaceId)) {
+      const watch = changes.watchWorkspace(workspaceId, (change) => void onChange(change));
+      watches.set(workspaceId, watch);
+
+      try {
+        await watch;
+      } catch (error) {
+        watches.delete(workspaceId);
+        throw error;
+      }
+    }
+
+    subscriptions.set(uri, workspaceId);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const workspaceId = subscriptions.get(request.params.uri);
+    subscriptions.delete(request.params.uri);
+
+    if (workspaceId && ![...subscriptions.values()].includes(workspaceId)) {
+      await unwatch(workspaceId);
+    }
+
+    return {};
+  });
+
+  server.onclose = () => {
+    subscriptions.clear();
+    for (const workspaceId of [...watches.keys()]) {
+      void unwatch(workspaceId);
+    }
+  };
+}
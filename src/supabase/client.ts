@@ -10,8 +10,15 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { RealtimeClientOptions } from '@supabase/supabase-js';
+import WebSocket from 'ws';
 import type { ServerConfig } from '../types/index.js';
 
+/** Node 20 has no global WebSocket, so Realtime needs the ws transport */
+const REALTIME_OPTIONS: RealtimeClientOptions = {
+  transport: WebSocket as unknown as RealtimeClientOptions['transport'],
+};
+
 let supabaseInstance: SupabaseClient | null = null;
 let currentConfig: ServerConfig | null = null;
 
@@ -32,6 +39,7 @@ export function initializeSupabase(config: ServerConfig): SupabaseClient {
       autoRefreshToken: false,
       persistSession: false,
     },
+    realtime: REALTIME_OPTIONS,
   });
 
   currentConfig = config;
@@ -41,18 +49,51 @@ export function initializeSupabase(config: ServerConfig): SupabaseClient {
 /**
  * Create a Supabase client with a user's access token.
  * Used in SSE mode for per-user authentication.
+ *
+ * Requests carry the user's JWT in the Authorization header, so Postgres
+ * evaluates RLS policies as that user. The anon key is used as the API key
+ * when configured, falling back to the service key (which only affects API
+ * gateway routing, not the database role).
  */
 export function createUserClient(userToken: string): SupabaseClient {
   if (!currentConfig?.supabaseUrl) {
     throw new Error('Supabase not initialized. Call initializeSupabase() first.');
   }
 
-  return createClient(currentConfig.supabaseUrl, userToken, {
+  const apiKey = currentConfig.supabaseAnonKey || currentConfig.supabaseServiceKey;
+
+  const client = createClient(currentConfig.supabaseUrl, apiKey, {
+    global: {
+      headers: {
+        Authorization: `Bearer ${userToken}`,
+      },
+    },
     auth: {
       autoRefreshToken: false,
       persistSession: false,
     },
+    realtime: REALTIME_OPTIONS,
   });
+
+  // Realtime doesn't use the global headers; RLS applies to change events too
+  void client.realtime.setAuth(userToken);
+
+  return client;
+}
+
+/**
+ * Verify a user access token with Supabase Auth.
+ * Returns the user the token belongs to, or null if it is invalid or expired.
+ */
+export async function verifyAccessToken(token: string): Promise<{ id: string; email: string | null } | null> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.auth.getUser(token);
+
+  if (error || !data.user) {
+    return null;
+  }
+
+  return { id: data.user.id, email: data.user.email ?? null };
 }
 
 /**
@@ -72,52 +113,3 @@ export function getSupabase(): SupabaseClient {
 export function getConfig(): ServerConfig | null {
   return currentConfig;
 }
-
-/**
- * Get the default workspace ID from config.
- */
-export function getDefaultWorkspaceId(): string | undefined {
-  return currentConfig?.defaultWorkspaceId;
-}
-
-/**
- * Check if a workspace ID is valid (exists in database).
- */
-export async function validateWorkspaceId(workspaceId: string): Promise<boolean> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('workspaces')
-    .select('id')
-    .eq('id', workspaceId)
-    .single();
-
-  return !error && !!data;
-}
-
-/**
- * Check if a project ID is valid (exists in database).
- */
-export async function validateProjectId(projectId: string): Promise<boolean> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('projects')
-    .select('id')
-    .eq('id', projectId)
-    .single();
-
-  return !error && !!data;
-}
-
-/**
- * Check if a task ID is valid (exists in database).
- */
-export async function validateTaskId(taskId: string): Promise<boolean> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from('tasks')
-    .select('id')
-    .eq('id', taskId)
-    .single();
-
-  return !error && !!data;
-}
@@ -0,0 +1,216 @@
+/**
+ * Activity Tools for Limitless Canvas MCP Server
+ *
+ * Every task and project mutation made through a tool is recorded with the
+ * actor, the tool, the entity and a before/after diff of the changed fields.
+ * Provides:
+ * - get_task_history: All recorded changes to a task
+ * - get_activity_feed: Recent changes across a workspace
+ */
+
+import { getDefaultWorkspaceId, validateTaskId, validateWorkspaceId } from '../repository/index.js';
+import type { NewActivityRow } from '../repository/index.js';
+import type {
+  ActivityAction,
+  ActivityEntityType,
+  ActivityRow,
+  GetActivityFeedInput,
+  ToolResult,
+} from '../types/index.js';
+import { getActor } from './context.js';
+import type { ToolContext } from './context.js';
+
+/** Bookkeeping columns left out of diffs */
+const IGNORED_FIELDS = new Set(['id', 'updated_at']);
+
+/**
+ * A mutation to record. `before` and `after` are full rows; only the
+ * fields that differ are stored.
+ */
+export interface ActivityEntry {
+  entityType: ActivityEntityType;
+  entityId: string;
+  projectId: string;
+  workspaceId: string;
+  action: ActivityAction;
+  /** Tool to record when the context doesn't name one (direct calls) */
+  tool: string;
+  before: object | null;
+  after: object | null;
+}
+
+/**
+ * Record a mutation in the activity log.
+ *
+ * Recording is best-effort: the mutation has already happened, so a failure
+ * here is logged rather than reported as a failed tool call. Updates that
+ * change nothing are skipped.
+ */
+export async function recordActivity(ctx: ToolContext, entry: ActivityEntry): Promise<ActivityRow | null> {
+  const [row] = await recordActivities(ctx, [entry]);
+  return row ?? null;
+}
+
+/**
+ * Record several mutations in the activity log with a single write.
+ * Same best-effort rules as recordActivity.
+ */
+export async function recordActivities(ctx: ToolContext, entries: ActivityEntry[]): Promise<ActivityRow[]> {
+  const { repo } = ctx;
+  const actor = getActor(ctx);
+  const now = new Date().toISOString();
+  const rows: NewActivityRow[] = [];
+
+  for (const entry of entries) {
+    const { before, after } = diffRows(entry.before, entry.after);
+
+    if (entry.action === 'update' && Object.keys(after ?? {}).length === 0) {
+      continue;
+    }
+
+    rows.push({
+      workspace_id: entry.workspaceId,
+      project_id: entry.projectId,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId,
+      action: entry.action,
+      tool: ctx.toolName ?? entry.tool,
+      actor_id: actor.id,
+      actor: actor.name,
+      before,
+      after,
+      created_at: now,
+    });
+  }
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await repo.recordActivity(rows);
+
+  if (error) {
+    const [first] = rows;
+    const subject = rows.length === 1
+      ? `${first.action} of ${first.entity_type} ${first.entity_id}`
+      : `${rows.length} changes`;
+    console.error(`[activity] Failed to record ${subject}: ${error.message}`);
+    return [];
+  }
+
+  ctx.activity?.push(...data);
+  return data;
+}
+
+/**
+ * Reduce two versions of a row to the fields that differ.
+ */
+export function diffRows(
+  before: object | null,
+  after: object | null
+): { before: Record<string, unknown> | null; after: Record<string, unknown> | null } {
+  const beforeFields = (before ?? {}) as Record<string, unknown>;
+  const afterFields = (after ?? {}) as Record<string, unknown>;
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])) {
+    if (IGNORED_FIELDS.has(key)) {
+      continue;
+    }
+
+    if (JSON.stringify(beforeFields[key] ?? null) !== JSON.stringify(afterFields[key] ?? null)) {
+      changedBefore[key] = beforeFields[key] ?? null;
+      changedAfter[key] = afterFields[key] ?? null;
+    }
+  }
+
+  return {
+    before: before ? changedBefore : null,
+    after: after ? changedAfter : null,
+  };
+}
+
+/**
+ * Get the recorded history of a task, newest first.
+ * Works for deleted tasks too, since their history outlives them.
+ */
+export async function getTaskHistory(
+  ctx: ToolContext,
+  taskId: string,
+  limit?: number
+): Promise<ToolResult<ActivityRow[]>> {
+  const { repo } = ctx;
+
+  const { data, error } = await repo.listActivity({ entityType: 'task', entityId: taskId, limit });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to get task history: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  if (data.length === 0 && !(await validateTaskId(repo, taskId))) {
+    return {
+      success: false,
+      error: `Task with ID "${taskId}" not found.`,
+      code: 'TASK_NOT_FOUND',
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Found ${data.length} change(s) to task`,
+  };
+}
+
+/**
+ * Get recent task and project changes in a workspace, newest first.
+ */
+export async function getActivityFeed(
+  ctx: ToolContext,
+  input: GetActivityFeedInput
+): Promise<ToolResult<ActivityRow[]>> {
+  const { repo } = ctx;
+  const workspaceId = input.workspace_id || getDefaultWorkspaceId();
+
+  if (!workspaceId) {
+    return {
+      success: false,
+      error: 'workspace_id is required. Either provide it or set DEFAULT_WORKSPACE_ID.',
+      code: 'MISSING_WORKSPACE_ID',
+    };
+  }
+
+  const isValid = await validateWorkspaceId(repo, workspaceId);
+  if (!isValid) {
+    return {
+      success: false,
+      error: `Workspace with ID "${workspaceId}" not found.`,
+      code: 'WORKSPACE_NOT_FOUND',
+    };
+  }
+
+  const { data, error } = await repo.listActivity({
+    workspaceId,
+    since: input.since,
+    limit: input.limit || 50,
+  });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to get activity feed: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Found ${data.length} change(s)${input.since ? ` since ${input.since}` : ''}`,
+  };
+}
@@ -0,0 +1,485 @@
+/**
+ * Analytics Tools for Limitless Canvas MCP Server
+ *
+ * Trends over time, built from the status changes recorded in the activity
+ * log rather than from a snapshot of the board.
+ *
+ * Provides:
+ * - get_burndown: Work left at the end of each day in a project or sprint
+ * - get_velocity: Tasks and estimate points completed per week in a workspace
+ * - get_cycle_time: How long done tasks took from in-progress to done, and how long they sat in review
+ *
+ * Only changes made through the tools are in the activity log, so a task
+ * whose status was never changed through them is taken to have always had
+ * its current status. Trashed tasks are left out.
+ */
+
+import type { ActivityFilter, RepoResult } from '../repository/index.js';
+import { getScopeProjects } from './projects.js';
+import type { ToolContext } from './context.js';
+import type {
+  ActivityRow,
+  Burndown,
+  BurndownDay,
+  CycleTimeReport,
+  DurationStats,
+  GetBurndownInput,
+  GetVelocityInput,
+  TaskRow,
+  TaskStatus,
+  ToolResult,
+  Velocity,
+  VelocityWeek,
+} from '../types/index.js';
+
+const DEFAULT_BURNDOWN_DAYS = 30;
+const DEFAULT_VELOCITY_WEEKS = 6;
+
+/** Tasks listed in a cycle time report's `slowest` */
+const SLOWEST_LIMIT = 5;
+
+/** Activity entries asked for per request; the hosted database may return fewer */
+const ACTIVITY_PAGE_SIZE = 1000;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * A task moving between columns, or being created in one (`from` is null).
+ */
+interface StatusChange {
+  from: TaskStatus | null;
+  to: TaskStatus;
+  at: string;
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * Count the work left at the end of each day. A sprint's burndown runs from
+ * its start date to its end date (or today, if sooner); a project's covers
+ * the last `days` days. The ideal line runs from the first day's remaining
+ * tasks down to zero on the sprint's end date or the project's due date.
+ */
+export async function getBurndown(ctx: ToolContext, input: GetBurndownInput): Promise<ToolResult<Burndown>> {
+  const { repo } = ctx;
+  const today = utcDate(new Date().toISOString());
+
+  let projectId: string;
+  let sprintId: string | null = null;
+  let label: string;
+  let from: string;
+  let to: string;
+  let deadline: string | null;
+
+  if (input.sprint_id) {
+    const { data: sprint } = await repo.getSprint(input.sprint_id);
+    if (!sprint) {
+      return {
+        success: false,
+        error: `Sprint with ID "${input.sprint_id}" not found.`,
+        code: 'SPRINT_NOT_FOUND',
+      };
+    }
+
+    projectId = sprint.project_id;
+    sprintId = sprint.id;
+    label = `sprint "${sprint.name}"`;
+    from = utcDate(sprint.start_date);
+    deadline = utcDate(sprint.end_date);
+    to = deadline < today ? deadline : today;
+  } else {
+    const projectIdInput = input.project_id ?? '';
+    const { data: project } = await repo.getProject(projectIdInput);
+    if (!project) {
+      return {
+        success: false,
+        error: `Project with ID "${projectIdInput}" not found.`,
+        code: 'PROJECT_NOT_FOUND',
+      };
+    }
+
+    projectId = project.id;
+    label = `"${project.name}"`;
+    from = addDays(today, 1 - (input.days ?? DEFAULT_BURNDOWN_DAYS));
+    deadline = project.due_date ? utcDate(project.due_date) : null;
+    to = today;
+  }
+
+  const { data: tasks, error: taskError } = await repo.listTasks(
+    sprintId ? { sprintIds: [sprintId] } : { projectIds: [projectId] }
+  );
+  const { data: activity, error: activityError } = await readActivity(ctx, {
+    projectIds: [projectId],
+    entityType: 'task',
+    since: dayStart(from),
+  });
+
+  if (taskError || activityError) {
+    return {
+      success: false,
+      error: `Failed to get burndown: ${(taskError ?? activityError)?.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const changes = statusChanges(activity);
+  const days: BurndownDay[] = [];
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const end = dayStart(addDays(date, 1));
+    const open = tasks.filter((t) => t.created_at < end && statusAt(t, changes.get(t.id), end) !== 'done');
+
+    days.push({
+      date,
+      remaining_tasks: open.length,
+      remaining_estimate: open.reduce((sum, t) => sum + (t.estimate ?? 0), 0),
+      ideal_tasks: null,
+    });
+  }
+
+  if (deadline !== null && days.length > 0) {
+    const start = days[0].remaining_tasks;
+    const span = daysBetween(from, deadline);
+
+    for (const day of days) {
+      day.ideal_tasks = span <= 0 ? 0 : round(start * Math.max(0, 1 - daysBetween(from, day.date) / span));
+    }
+  }
+
+  const last = days.at(-1);
+  const onTrack = last && last.ideal_tasks !== null ? last.remaining_tasks <= last.ideal_tasks : null;
+
+  let message: string;
+  if (!last) {
+    message = `${capitalize(label)} starts on ${from}; there is no burndown yet`;
+  } else {
+    message = `Burndown for ${label}: ${last.remaining_tasks} task(s) left on ${last.date}`;
+    if (onTrack !== null) {
+      message += `, ${onTrack ? 'on track' : 'behind'} (ideal ${last.ideal_tasks} by now, zero by ${deadline})`;
+    }
+  }
+
+  return {
+    success: true,
+    data: { project_id: projectId, sprint_id: sprintId, from, to, deadline, days, on_track: onTrack },
+    message,
+  };
+}
+
+/**
+ * Count the tasks and estimate points completed in each of the last
+ * `weeks` weeks, ending with the current week so far. A task counts in the
+ * week it last moved to done, and only while it is still done.
+ */
+export async function getVelocity(ctx: ToolContext, input: GetVelocityInput): Promise<ToolResult<Velocity>> {
+  const { repo } = ctx;
+
+  const projects = await getScopeProjects(ctx, { workspace_id: input.workspace_id });
+  if (!projects.success) {
+    return projects;
+  }
+
+  const weekCount = input.weeks ?? DEFAULT_VELOCITY_WEEKS;
+  const thisWeek = weekStart(utcDate(new Date().toISOString()));
+  const weeks: VelocityWeek[] = Array.from({ length: weekCount }, (_, i) => ({
+    week_start: addDays(thisWeek, (i - weekCount + 1) * 7),
+    tasks: 0,
+    points: 0,
+  }));
+
+  const projectIds = projects.data.map((p) => p.id);
+
+  if (projectIds.length > 0) {
+    const { data: tasks, error: taskError } = await repo.listTasks({ projectIds, statuses: ['done'] });
+    const { data: activity, error: activityError } = await readActivity(ctx, {
+      projectIds,
+      entityType: 'task',
+      since: dayStart(weeks[0].week_start),
+    });
+
+    if (taskError || activityError) {
+      return {
+        success: false,
+        error: `Failed to get velocity: ${(taskError ?? activityError)?.message}`,
+        code: 'DATABASE_ERROR',
+      };
+    }
+
+    const changes = statusChanges(activity);
+
+    for (const task of tasks) {
+      const doneAt = lastEntered(changes.get(task.id), 'done');
+      const week = doneAt && weeks.find((w) => w.week_start === weekStart(utcDate(doneAt)));
+
+      if (week) {
+        week.tasks += 1;
+        week.points += task.estimate ?? 0;
+      }
+    }
+  }
+
+  const complete = weeks.slice(0, -1);
+  const average = (key: 'tasks' | 'points') =>
+    complete.length > 0 ? round(complete.reduce((sum, w) => sum + w[key], 0) / complete.length) : null;
+
+  const velocity: Velocity = {
+    weeks,
+    average_tasks: average('tasks'),
+    average_points: average('points'),
+  };
+
+  const total = weeks.reduce((sum, w) => sum + w.tasks, 0);
+  const points = weeks.reduce((sum, w) => sum + w.points, 0);
+  const perWeek = velocity.average_tasks === null ? '' : `, ${velocity.average_tasks} task(s) per complete week on average`;
+
+  return {
+    success: true,
+    data: velocity,
+    message: `Completed ${total} task(s) (${points} points) in the last ${weekCount} week(s)${perWeek}`,
+  };
+}
+
+/**
+ * Measure how long a project's done tasks took, from first moving to
+ * in-progress to last moving to done, and how long of that they spent in
+ * review.
+ */
+export async function getCycleTime(ctx: ToolContext, projectId: string): Promise<ToolResult<CycleTimeReport>> {
+  const { repo } = ctx;
+
+  const { data: project } = await repo.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project with ID "${projectId}" not found.`,
+      code: 'PROJECT_NOT_FOUND',
+    };
+  }
+
+  const { data: tasks, error: taskError } = await repo.listTasks({ projectIds: [projectId], statuses: ['done'] });
+
+  if (taskError) {
+    return {
+      success: false,
+      error: `Failed to get cycle time: ${taskError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  // No task changed status before it was created
+  const since = tasks.map((t) => t.created_at).sort()[0];
+  const { data: activity, error: activityError } = since
+    ? await readActivity(ctx, { projectIds: [projectId], entityType: 'task', since })
+    : { data: [], error: null };
+
+  if (activityError) {
+    return {
+      success: false,
+      error: `Failed to get cycle time: ${activityError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const changes = statusChanges(activity);
+  const measured: CycleTimeReport['slowest'] = [];
+
+  for (const task of tasks) {
+    const taskChanges = changes.get(task.id) ?? [];
+    const startedAt = taskChanges.find((c) => c.to === 'in-progress')?.at;
+    const doneAt = lastEntered(taskChanges, 'done');
+
+    if (!startedAt || !doneAt || doneAt < startedAt) {
+      continue;
+    }
+
+    measured.push({
+      task_id: task.id,
+      title: task.title,
+      cycle_hours: round(hoursBetween(startedAt, doneAt)),
+      review_hours: round(timeInStatus(taskChanges, 'review') / MS_PER_HOUR),
+    });
+  }
+
+  measured.sort((a, b) => b.cycle_hours - a.cycle_hours);
+
+  const report: CycleTimeReport = {
+    project_id: projectId,
+    tasks: measured.length,
+    skipped: tasks.length - measured.length,
+    cycle_time: durationStats(measured.map((m) => m.cycle_hours)),
+    review_time: durationStats(measured.map((m) => m.review_hours)),
+    slowest: measured.slice(0, SLOWEST_LIMIT),
+  };
+
+  const message =
+    report.cycle_time && report.review_time
+      ? `Median cycle time in "${project.name}" is ${report.cycle_time.median_hours}h (p90 ${report.cycle_time.p90_hours}h) ` +
+        `over ${report.tasks} done task(s), with a median of ${report.review_time.median_hours}h in review`
+      : `No done tasks in "${project.name}" have a recorded start yet`;
+
+  return {
+    success: true,
+    data: report,
+    message,
+  };
+}
+
+// ============================================================================
+// Status History
+// ============================================================================
+
+/**
+ * Read every matching activity entry, newest first, a page at a time: the
+ * hosted database caps the rows one request returns, so a single read could
+ * silently drop the oldest entries.
+ */
+async function readActivity(ctx: ToolContext, filter: ActivityFilter): Promise<RepoResult<ActivityRow[]>> {
+  const rows: ActivityRow[] = [];
+  const seen = new Set<string>();
+
+  for (let offset = 0; ; ) {
+    const { data: page, error } = await ctx.repo.listActivity({ ...filter, offset, limit: ACTIVITY_PAGE_SIZE });
+    if (error) {
+      return { data: null, error };
+    }
+
+    if (page.length === 0) {
+      return { data: rows, error: null };
+    }
+
+    // Entries logged while paging push older ones down, so some come twice
+    for (const row of page) {
+      if (!seen.has(row.id)) {
+        seen.add(row.id);
+        rows.push(row);
+      }
+    }
+    offset += page.length;
+  }
+}
+
+/**
+ * Pull each task's status changes out of the activity log, oldest first.
+ */
+function statusChanges(activity: ActivityRow[]): Map<string, StatusChange[]> {
+  const changes = new Map<string, StatusChange[]>();
+
+  // The log is newest first
+  for (const row of [...activity].reverse()) {
+    const to = row.after?.status;
+    if (row.entity_type !== 'task' || typeof to !== 'string') {
+      continue;
+    }
+
+    const from = row.before?.status;
+    const taskChanges = changes.get(row.entity_id) ?? [];
+    taskChanges.push({
+      from: typeof from === 'string' ? (from as TaskStatus) : null,
+      to: to as TaskStatus,
+      at: row.created_at,
+    });
+    changes.set(row.entity_id, taskChanges);
+  }
+
+  return changes;
+}
+
+/**
+ * The task's status just before `time`. Before its first recorded change a
+ * task had the status that change moved it out of.
+ */
+function statusAt(task: TaskRow, changes: StatusChange[] = [], time: string): TaskStatus {
+  const last = changes.filter((c) => c.at < time).at(-1);
+
+  if (last) {
+    return last.to;
+  }
+  return changes.length > 0 ? changes[0].from ?? changes[0].to : task.status;
+}
+
+function lastEntered(changes: StatusChange[] = [], status: TaskStatus): string | null {
+  return changes.filter((c) => c.to === status).at(-1)?.at ?? null;
+}
+
+/**
+ * Total milliseconds spent in `status` between changes.
+ */
+function timeInStatus(changes: StatusChange[], status: TaskStatus): number {
+  let total = 0;
+  let enteredAt: string | null = null;
+
+  for (const change of changes) {
+    if (enteredAt !== null && change.to !== status) {
+      total += Date.parse(change.at) - Date.parse(enteredAt);
+      enteredAt = null;
+    } else if (enteredAt === null && change.to === status) {
+      enteredAt = change.at;
+    }
+  }
+
+  return total;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function durationStats(hours: number[]): DurationStats | null {
+  if (hours.length === 0) {
+    return null;
+  }
+
+  const sorted = [...hours].sort((a, b) => a - b);
+  return {
+    median_hours: round(percentile(sorted, 0.5)),
+    p90_hours: round(percentile(sorted, 0.9)),
+  };
+}
+
+/**
+ * Linearly interpolated percentile of sorted values, `p` between 0 and 1.
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = p * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/** UTC date part of an ISO date or timestamp */
+function utcDate(value: string): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+function dayStart(date: string): string {
+  return `${date}T00:00:00.000Z`;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / MS_PER_DAY;
+}
+
+function hoursBetween(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / MS_PER_HOUR;
+}
+
+/** The Monday on or before a date */
+function weekStart(date: string): string {
+  return addDays(date, -((new Date(date).getUTCDay() + 6) % 7));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,510 @@
+/**
+ * Bulk Task Tools for Limitless Canvas MCP Server
+ *
+ * Apply many task changes in one tool call:
+ * - bulk_create_tasks: Create several tasks, possibly across projects
+ * - bulk_update_tasks: Update the details of several tasks
+ * - bulk_move_tasks: Move several tasks between kanban columns
+ *
+ * Writes are sent in batches of BULK_BATCH_SIZE, and project progress is
+ * recomputed once per affected project at the end instead of after every
+ * task. Each item gets its own ToolResult, so one bad item doesn't fail the
+ * rest. When the client passes a progress token, a progress notification is
+ * sent after each batch.
+ *
+ * Tasks that land in a new column go to the bottom of it, in the order given,
+ * the columns they leave are renumbered to close the gaps, and tasks moved
+ * into or out of in-progress start or stop their timers. Tasks started or
+ * finished while their dependencies aren't done get a warning, as with
+ * move_task.
+ * Assignees and relative due dates are resolved per item, as in the single
+ * task tools.
+ */
+
+import { getNextTaskOrder, buildTaskUpdate, closeColumnGaps } from './tasks.js';
+import { changesProgress, syncProjectProgress } from './projects.js';
+import { recordActivities } from './activity.js';
+import { syncTimer } from './time.js';
+import { assigneeFields, assigneeResolver } from './team.js';
+import { dueDateResolver } from './deadlines.js';
+import { findBlockedMoves } from './dependencies.js';
+import { describeSuggestion, needsAssigneeSuggestion, suggestAssignee } from './workload.js';
+import type { ActivityEntry } from './activity.js';
+import type { NewTaskRow, TaskUpdate } from '../repository/index.js';
+import type {
+  ActivityAction,
+  BulkCreateTasksInput,
+  BulkMoveTasksInput,
+  BulkUpdateTasksInput,
+  ProjectRow,
+  TaskRow,
+  TaskStatus,
+  ToolResult,
+} from '../types/index.js';
+import type { ToolContext } from './context.js';
+
+/** Number of rows written per round trip */
+export const BULK_BATCH_SIZE = 25;
+
+type ItemResult = ToolResult<TaskRow>;
+
+interface PendingUpdate {
+  index: number;
+  before: TaskRow;
+  row: TaskRow;
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * Create several tasks. Each task is appended to the end of its project.
+ */
+export async function bulkCreateTasks(
+  ctx: ToolContext,
+  input: BulkCreateTasksInput
+): Promise<ToolResult<ItemResult[]>> {
+  const { repo } = ctx;
+  const results: ItemResult[] = new Array(input.tasks.length);
+
+  const projects = await loadProjects(ctx, input.tasks.map((t) => t.project_id));
+  if (!projects.success) {
+    return projects;
+  }
+
+  const now = new Date().toISOString();
+  const nextOrder = columnOrders(ctx);
+  const resolveAssignee = assigneeResolver(ctx);
+  const resolveDueDate = dueDateResolver(ctx);
+  const pending: { index: number; row: NewTaskRow }[] = [];
+
+  for (const [index, task] of input.tasks.entries()) {
+    const project = projects.data.get(task.project_id);
+
+    if (!project) {
+      results[index] = {
+        success: false,
+        error: `Project with ID "${task.project_id}" not found.`,
+        code: 'PROJECT_NOT_FOUND',
+      };
+      continue;
+    }
+
+    const member = await resolveAssignee(project.workspace_id, task.assignee ?? '');
+    if (!member.success) {
+      results[index] = member;
+      continue;
+    }
+
+    let dueDate: string | null = null;
+    if (task.due_date) {
+      const resolved = await resolveDueDate(task.due_date, { workspaceId: project.workspace_id, projectId: project.id });
+      if (!resolved.success) {
+        results[index] = resolved;
+        continue;
+      }
+      dueDate = resolved.data;
+    }
+
+    const order = await nextOrder(task.project_id, task.status || 'todo');
+
+    pending.push({
+      index,
+      row: {
+        project_id: task.project_id,
+        title: task.title,
+        description: task.description || null,
+        status: task.status || 'todo',
+        priority: task.priority || 'medium',
+        ...assigneeFields(member.data),
+        due_date: dueDate,
+        tags: task.tags || null,
+        estimate: task.estimate ?? null,
+        order,
+        created_at: now,
+        updated_at: now,
+      },
+    });
+  }
+
+  await inBatches(ctx, pending, 'Created', async (batch) => {
+    const { data, error } = await repo.createTasks(batch.map((p) => p.row));
+
+    if (error) {
+      for (const { index } of batch) {
+        results[index] = { success: false, error: `Failed to create task: ${error.message}`, code: 'DATABASE_ERROR' };
+      }
+      return;
+    }
+
+    data.forEach((task, i) => {
+      results[batch[i].index] = {
+        success: true,
+        data: task,
+        message: `Created task "${task.title}" in ${task.status} column`,
+      };
+    });
+
+    await recordActivities(ctx, data.map((task) => taskEntry(projects.data, 'create', 'bulk_create_tasks', null, task)));
+  });
+
+  await syncProgress(ctx, results);
+  await suggestAssignees(ctx, results, projects.data);
+
+  return summarize(results, 'Created');
+}
+
+/**
+ * Update the details of several tasks.
+ */
+export async function bulkUpdateTasks(
+  ctx: ToolContext,
+  input: BulkUpdateTasksInput
+): Promise<ToolResult<ItemResult[]>> {
+  return applyUpdates(
+    ctx,
+    'bulk_update_tasks',
+    input.tasks.map(({ task_id, ...fields }) => ({
+      taskId: task_id,
+      updates: buildTaskUpdate(fields),
+      assignee: fields.assignee,
+      dueDate: fields.due_date,
+    })),
+    (_before, after) => `Updated task "${after.title}"`,
+    'Updated'
+  );
+}
+
+/**
+ * Move several tasks to different kanban columns.
+ */
+export async function bulkMoveTasks(
+  ctx: ToolContext,
+  input: BulkMoveTasksInput
+): Promise<ToolResult<ItemResult[]>> {
+  return applyUpdates(
+    ctx,
+    'bulk_move_tasks',
+    input.tasks.map((item) => ({ taskId: item.task_id, updates: { status: item.new_status } })),
+    (before, after) => `Moved "${after.title}" from ${before.status} → ${after.status}`,
+    'Moved'
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Apply per-task updates in batches. Unknown and repeated task IDs,
+ * assignees that don't resolve to a team member and unreadable due dates
+ * fail individually; the rest are written. Also used by the sprint and team
+ * tools.
+ */
+export async function applyUpdates(
+  ctx: ToolContext,
+  tool: string,
+  items: { taskId: string; updates: TaskUpdate; assignee?: string; dueDate?: string | null }[],
+  describe: (before: TaskRow, after: TaskRow) => string,
+  verb: string
+): Promise<ToolResult<ItemResult[]>> {
+  const { repo } = ctx;
+  const results: ItemResult[] = new Array(items.length);
+
+  // Trashed tasks come back as not found; they have to be restored first
+  const { data: current, error: fetchError } = await repo.listTasks({
+    taskIds: [...new Set(items.map((item) => item.taskId))],
+  });
+
+  if (fetchError) {
+    return {
+      success: false,
+      error: `Failed to get tasks: ${fetchError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const tasks = new Map(current.map((t) => [t.id, t]));
+
+  const projects = await loadProjects(ctx, current.map((t) => t.project_id));
+  if (!projects.success) {
+    return projects;
+  }
+
+  const now = new Date().toISOString();
+  const nextOrder = columnOrders(ctx);
+  const resolveAssignee = assigneeResolver(ctx);
+  const resolveDueDate = dueDateResolver(ctx);
+  const seen = new Set<string>();
+  const pending: PendingUpdate[] = [];
+
+  for (const [index, { taskId, updates, assignee, dueDate }] of items.entries()) {
+    const before = tasks.get(taskId);
+
+    if (!before) {
+      results[index] = { success: false, error: `Task with ID "${taskId}" not found.`, code: 'TASK_NOT_FOUND' };
+      continue;
+    }
+
+    if (seen.has(taskId)) {
+      results[index] = {
+        success: false,
+        error: `Task "${taskId}" appears more than once in this call.`,
+        code: 'DUPLICATE_TASK',
+      };
+      continue;
+    }
+    seen.add(taskId);
+
+    const row = { ...before, ...updates, updated_at: now };
+    const workspaceId = projects.data.get(before.project_id)?.workspace_id ?? '';
+
+    if (assignee !== undefined) {
+      const member = await resolveAssignee(workspaceId, assignee);
+      if (!member.success) {
+        results[index] = member;
+        continue;
+      }
+      Object.assign(row, assigneeFields(member.data));
+    }
+
+    if (dueDate === null) {
+      row.due_date = null;
+    } else if (dueDate !== undefined) {
+      const resolved = await resolveDueDate(dueDate, {
+        workspaceId,
+        projectId: before.project_id,
+        sprintId: before.sprint_id,
+      });
+      if (!resolved.success) {
+        results[index] = resolved;
+        continue;
+      }
+      row.due_date = resolved.data;
+    }
+
+    if (row.status !== before.status) {
+      row.order = await nextOrder(row.project_id, row.status);
+    }
+
+    pending.push({ index, before, row });
+  }
+
+  const { data: blocked, error: blockerError } = await findBlockedMoves(
+    ctx,
+    pending.map(({ before, row }) => ({ task: before, status: row.status }))
+  );
+
+  if (blockerError) {
+    return {
+      success: false,
+      error: `Failed to check dependencies: ${blockerError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  await inBatches(ctx, pending, verb, async (batch) => {
+    const { data, error } = await repo.updateTasks(batch.map((p) => p.row));
+
+    if (error) {
+      for (const { index } of batch) {
+        results[index] = { success: false, error: `Failed to update task: ${error.message}`, code: 'DATABASE_ERROR' };
+      }
+      return;
+    }
+
+    const updated = new Map(data.map((t) => [t.id, t]));
+    const entries: ActivityEntry[] = [];
+
+    for (const { index, before } of batch) {
+      const after = updated.get(before.id);
+
+      // The write didn't come back with this task, so its update can't be confirmed
+      if (!after) {
+        results[index] = {
+          success: false,
+          error: `Failed to update task: no row came back for "${before.id}"`,
+          code: 'DATABASE_ERROR',
+        };
+        continue;
+      }
+
+      const warnings = [blocked.get(before.id), await syncTimer(ctx, before, after)].filter((w): w is string => !!w);
+
+      results[index] = {
+        success: true,
+        data: after,
+        message: describe(before, after),
+        ...(warnings.length > 0 && { warnings }),
+      };
+      entries.push(taskEntry(projects.data, 'update', tool, before, after));
+    }
+
+    await recordActivities(ctx, entries);
+  });
+
+  // Only status, estimate and priority changes move progress
+  const changed = pending.filter(({ index, before }) => {
+    const result = results[index];
+    return result.success && changesProgress(before, result.data);
+  });
+  await syncProgress(ctx, changed.map((p) => results[p.index]));
+
+  const moved = pending.filter(({ index, before }) => {
+    const result = results[index];
+    return result.success && result.data.status !== before.status;
+  });
+
+  // Close the gaps the moved tasks left, once per column
+  const left = new Map(moved.map(({ before }) => [`${before.project_id}:${before.status}`, before]));
+  for (const { project_id, status } of left.values()) {
+    await closeColumnGaps(ctx, project_id, status, tool);
+  }
+
+  return summarize(results, verb);
+}
+
+/**
+ * Name who could take each unassigned high-priority task that was created,
+ * as create_task does. The workload report is read once per workspace,
+ * after all the tasks are in.
+ */
+async function suggestAssignees(
+  ctx: ToolContext,
+  results: ItemResult[],
+  projects: Map<string, ProjectRow>
+): Promise<void> {
+  const suggestions = new Map<string, string | null>();
+
+  for (const result of results) {
+    if (!result.success || !needsAssigneeSuggestion(result.data)) {
+      continue;
+    }
+
+    const workspaceId = projects.get(result.data.project_id)?.workspace_id;
+    if (!workspaceId) {
+      continue;
+    }
+
+    if (!suggestions.has(workspaceId)) {
+      const member = await suggestAssignee(ctx, workspaceId);
+      suggestions.set(workspaceId, member ? describeSuggestion(member) : null);
+    }
+
+    const suggestion = suggestions.get(workspaceId);
+    if (suggestion) {
+      result.message += `. It is unassigned: ${suggestion}`;
+    }
+  }
+}
+
+/**
+ * Hand out order numbers at the bottom of each kanban column, looking each
+ * column up only once.
+ */
+function columnOrders(ctx: ToolContext): (projectId: string, status: TaskStatus) => Promise<number> {
+  const next = new Map<string, number>();
+
+  return async (projectId, status) => {
+    const key = `${projectId}:${status}`;
+    const order = next.get(key) ?? (await getNextTaskOrder(ctx, projectId, status));
+    next.set(key, order + 1);
+    return order;
+  };
+}
+
+/**
+ * Look up each distinct project once. Missing projects are simply absent
+ * from the map.
+ */
+async function loadProjects(
+  ctx: ToolContext,
+  projectIds: string[]
+): Promise<ToolResult<Map<string, ProjectRow>>> {
+  const projects = new Map<string, ProjectRow>();
+
+  for (const projectId of new Set(projectIds)) {
+    const { data, error } = await ctx.repo.getProject(projectId);
+
+    if (error) {
+      return {
+        success: false,
+        error: `Failed to get project: ${error.message}`,
+        code: 'DATABASE_ERROR',
+      };
+    }
+
+    if (data) {
+      projects.set(projectId, data);
+    }
+  }
+
+  return { success: true, data: projects };
+}
+
+/**
+ * Run `write` over the items BULK_BATCH_SIZE at a time, reporting progress
+ * after each batch.
+ */
+async function inBatches<T>(
+  ctx: ToolContext,
+  items: T[],
+  verb: string,
+  write: (batch: T[]) => Promise<void>
+): Promise<void> {
+  for (let start = 0; start < items.length; start += BULK_BATCH_SIZE) {
+    const batch = items.slice(start, start + BULK_BATCH_SIZE);
+    await write(batch);
+
+    const done = start + batch.length;
+    await ctx.reportProgress?.(done, items.length, `${verb} ${done} of ${items.length} task(s)`);
+  }
+}
+
+/**
+ * Recompute progress once for each project that had a task written.
+ */
+async function syncProgress(ctx: ToolContext, results: ItemResult[]): Promise<void> {
+  const projectIds = new Set<string>();
+
+  for (const result of results) {
+    if (result.success) {
+      projectIds.add(result.data.project_id);
+    }
+  }
+
+  for (const projectId of projectIds) {
+    await syncProjectProgress(ctx, projectId);
+  }
+}
+
+function taskEntry(
+  projects: Map<string, ProjectRow>,
+  action: ActivityAction,
+  tool: string,
+  before: TaskRow | null,
+  after: TaskRow
+): ActivityEntry {
+  return {
+    entityType: 'task',
+    entityId: after.id,
+    projectId: after.project_id,
+    workspaceId: projects.get(after.project_id)?.workspace_id ?? '',
+    action,
+    tool,
+    before,
+    after,
+  };
+}
+
+function summarize(results: ItemResult[], verb: string): ToolResult<ItemResult[]> {
+  const succeeded = results.filter((r) => r.success).length;
+  const failed = results.length - succeeded;
+
+  return {
+    success: true,
+    data: results,
+    message: `${verb} ${succeeded} of ${results.length} task(s)${failed > 0 ? `, ${failed} failed` : ''}`,
+  };
+}
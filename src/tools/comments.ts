@@ -0,0 +1,119 @@
+/**
+ * Comment Tools for Limitless Canvas MCP Server
+ *
+ * Comments are notes left on a task, such as what was done and what is
+ * left, without touching the task's description. Each comment records its
+ * author: the authenticated user, or "service" for the service role.
+ *
+ * Provides:
+ * - add_task_comment: Leave a comment on a task
+ * - list_task_comments: List a task's comments, newest first
+ *
+ * complete_task can also leave a closing note, and get_task returns the
+ * most recent comments.
+ */
+
+import type { AddTaskCommentInput, ListTaskCommentsInput, TaskCommentRow, ToolResult } from '../types/index.js';
+import { getActor } from './context.js';
+import type { ToolContext } from './context.js';
+
+/** Number of comments get_task returns */
+export const RECENT_COMMENT_LIMIT = 5;
+
+/** Number of comments list_task_comments returns when no limit is given */
+const DEFAULT_COMMENT_LIMIT = 20;
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * Leave a comment on a task. Trashed tasks can't be commented on.
+ */
+export async function addTaskComment(
+  ctx: ToolContext,
+  input: AddTaskCommentInput
+): Promise<ToolResult<TaskCommentRow>> {
+  const { repo } = ctx;
+
+  const { data: task, error: fetchError } = await repo.getTask(input.task_id);
+
+  if (fetchError || !task) {
+    return {
+      success: false,
+      error: `Task with ID "${input.task_id}" not found.`,
+      code: 'TASK_NOT_FOUND',
+    };
+  }
+
+  if (task.deleted_at) {
+    return {
+      success: false,
+      error: `Task "${task.title}" is in the trash. Restore it before commenting.`,
+      code: 'TASK_IN_TRASH',
+    };
+  }
+
+  const author = getActor(ctx);
+
+  const { data, error } = await repo.addComment({
+    task_id: task.id,
+    body: input.body,
+    author_id: author.id,
+    author: author.name,
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to add comment: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Added comment to "${task.title}"`,
+  };
+}
+
+/**
+ * List the comments on a task, newest first. Trashed tasks keep their comments.
+ */
+export async function listTaskComments(
+  ctx: ToolContext,
+  input: ListTaskCommentsInput
+): Promise<ToolResult<TaskCommentRow[]>> {
+  const { repo } = ctx;
+
+  const { data: task, error: fetchError } = await repo.getTask(input.task_id);
+
+  if (fetchError || !task) {
+    return {
+      success: false,
+      error: `Task with ID "${input.task_id}" not found.`,
+      code: 'TASK_NOT_FOUND',
+    };
+  }
+
+  const { data, error } = await repo.listComments({
+    taskIds: [task.id],
+    limit: input.limit ?? DEFAULT_COMMENT_LIMIT,
+  });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to list comments: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Found ${data.length} comment(s) on "${task.title}"`,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Tool Execution Context
+ *
+ * Every tool function receives a ToolContext as its first argument instead of
+ * reaching for a global client. This lets SSE sessions run each user's tool
+ * calls through a repository wrapping their own RLS-scoped Supabase client,
+ * while stdio mode uses the shared repository for the configured backend.
+ */
+
+import { getRepository } from '../repository/index.js';
+import type { CanvasRepository } from '../repository/index.js';
+import { getChangeFeed } from '../realtime/index.js';
+import type { ChangeFeed } from '../realtime/index.js';
+import type { SessionAction } from './undo.js';
+import type { ActivityRow } from '../types/index.js';
+
+/**
+ * The user behind an authenticated session.
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string | null;
+}
+
+export interface ToolContext {
+  /** Repository used for all data access in this context */
+  repo: CanvasRepository;
+  /** Authenticated user, or undefined when running with the service role */
+  user?: AuthenticatedUser;
+  /** Live changes visible to this context, used for resource subscriptions */
+  changes?: ChangeFeed;
+  /** MCP tool currently being run, recorded in the activity log */
+  toolName?: string;
+  /** Collects the activity entries recorded during the current tool call */
+  activity?: ActivityRow[];
+  /** Changes made in this session that can be undone (see undo.ts) */
+  history?: SessionAction[];
+  /** Reports progress of a long-running tool call, when the client asked for it */
+  reportProgress?: (progress: number, total: number, message?: string) => Promise<void>;
+}
+
+/**
+ * Who is acting in this context: the authenticated user (by email, falling
+ * back to their ID), or "service" for the service role.
+ */
+export function getActor(ctx: ToolContext): { id: string | null; name: string } {
+  const { user } = ctx;
+  return user ? { id: user.id, name: user.email ?? user.id } : { id: null, name: 'service' };
+}
+
+/**
+ * Create a context backed by the shared repository (stdio mode).
+ * With the Supabase backend this uses the service role client.
+ */
+export function createServiceContext(): ToolContext {
+  return { repo: getRepository(), changes: getChangeFeed() };
+}
@@ -0,0 +1,137 @@
+/**
+ * Due Date Phrases for Limitless Canvas MCP Server
+ *
+ * Turns relative due dates such as "tomorrow", "next friday", "in 3 days"
+ * or "end of month" into ISO dates (YYYY-MM-DD), counted from today in a
+ * given time zone. "end of sprint" is recognized here but resolved by the
+ * caller, since it depends on the task's sprint (see deadlines.ts).
+ *
+ * Weekdays mean the next one on or after today ("friday", "this friday"),
+ * or strictly after today ("next friday"). "end of week" is the coming
+ * Friday and "next week" the coming Monday.
+ */
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const FRIDAY = 5;
+const MONDAY = 1;
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7 };
+
+const IN_PATTERN = /^in (\d+|a|an|one|two|three|four|five|six|seven) (day|week|month)s?$/;
+const WEEKDAY_PATTERN = new RegExp(`^(?:(this|next) )?(${WEEKDAYS.join('|')})$`);
+const SPRINT_PATTERN = /^end of (?:the |this )?sprint$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the phrase is "end of sprint" (or "end of the sprint").
+ */
+export function isSprintPhrase(phrase: string): boolean {
+  return SPRINT_PATTERN.test(normalize(phrase));
+}
+
+/**
+ * Whether the phrase is a relative due date this module understands.
+ */
+export function isDuePhrase(phrase: string): boolean {
+  return isSprintPhrase(phrase) || parseDuePhrase(phrase, '2000-01-01') !== null;
+}
+
+/**
+ * Turn a relative due date into an ISO date counted from `today`
+ * (YYYY-MM-DD). Returns null for phrases it doesn't understand and for
+ * "end of sprint".
+ */
+export function parseDuePhrase(phrase: string, today: string): string | null {
+  const text = normalize(phrase);
+
+  switch (text) {
+    case 'today':
+    case 'tonight':
+      return today;
+    case 'tomorrow':
+      return addDays(today, 1);
+    case 'next week':
+      return nextWeekday(today, MONDAY, false);
+    case 'end of week':
+    case 'end of the week':
+    case 'end of this week':
+      return nextWeekday(today, FRIDAY, true);
+    case 'next month':
+      return addMonths(`${today.slice(0, 8)}01`, 1);
+    case 'end of month':
+    case 'end of the month':
+    case 'end of this month':
+      return addDays(addMonths(`${today.slice(0, 8)}01`, 1), -1);
+  }
+
+  const inMatch = IN_PATTERN.exec(text);
+  if (inMatch) {
+    const count = NUMBER_WORDS[inMatch[1]] ?? parseInt(inMatch[1], 10);
+    const unit = inMatch[2];
+
+    if (unit === 'month') {
+      return addMonths(today, count);
+    }
+    return addDays(today, unit === 'week' ? count * 7 : count);
+  }
+
+  const weekdayMatch = WEEKDAY_PATTERN.exec(text);
+  if (weekdayMatch) {
+    return nextWeekday(today, WEEKDAYS.indexOf(weekdayMatch[2]), weekdayMatch[1] !== 'next');
+  }
+
+  return null;
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a time zone.
+ */
+export function todayIn(timeZone: string, now: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+/**
+ * Whether the runtime knows the IANA time zone (e.g., "Europe/Berlin").
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function normalize(phrase: string): string {
+  return phrase.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^by /, '');
+}
+
+/**
+ * The next date falling on `weekday` (0 = Sunday), today included if
+ * `includeToday` is set.
+ */
+function nextWeekday(today: string, weekday: number, includeToday: boolean): string {
+  const days = (weekday - new Date(today).getUTCDay() + 7) % 7;
+  return addDays(today, days === 0 && !includeToday ? 7 : days);
+}
+
+/**
+ * Add calendar months, keeping the day of the month where it exists
+ * (January 31 plus one month is the last day of February).
+ */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
@@ -0,0 +1,311 @@
+/**
+ * Deadline Tools for Limitless Canvas MCP Server
+ *
+ * Provides:
+ * - get_due_tasks: Unfinished tasks that are overdue, due today, due this week, or due in a date range
+ * - get_project_deadlines: Unfinished projects by due date, with how much work is left
+ *
+ * "Today" is the date in the workspace's time zone: its `time_zone`, or
+ * CANVAS_TIME_ZONE (default UTC). The same time zone is used to turn
+ * relative due dates given to create_task, update_task, create_project and
+ * update_project ("next friday", "in 3 days", "end of sprint") into ISO
+ * dates before they are stored (see dates.ts).
+ */
+
+import { getDefaultTimeZone, getDefaultWorkspaceId } from '../repository/index.js';
+import { getScopeProjects } from './projects.js';
+import { addDays, isSprintPhrase, isValidTimeZone, parseDuePhrase, todayIn } from './dates.js';
+import type { ToolContext } from './context.js';
+import type {
+  DueTasks,
+  GetDueTasksInput,
+  GetProjectDeadlinesInput,
+  ProjectDeadline,
+  TaskPriority,
+  TaskStatus,
+  ToolResult,
+} from '../types/index.js';
+
+const OPEN_STATUSES: TaskStatus[] = ['backlog', 'todo', 'in-progress', 'review'];
+const PRIORITY_RANK: Record<TaskPriority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/** Due dates that already look like ISO dates are stored as given */
+const ISO_DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Where a relative due date is being set: the workspace supplies the time
+ * zone, the sprint (or the project's current sprint) the "end of sprint".
+ */
+export interface DueDateScope {
+  workspaceId: string;
+  projectId?: string;
+  sprintId?: string | null;
+}
+
+/**
+ * Turns a due date into an ISO date. ISO dates pass through unchanged.
+ */
+export type DueDateResolver = (dueDate: string, scope: DueDateScope) => Promise<ToolResult<string>>;
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * List unfinished tasks by due date: overdue, due today, due this week
+ * (today through Sunday), or due within `from`–`to`.
+ */
+export async function getDueTasks(ctx: ToolContext, input: GetDueTasksInput): Promise<ToolResult<DueTasks>> {
+  const { repo } = ctx;
+
+  const projects = await getScopeProjects(ctx, input);
+  if (!projects.success) {
+    return projects;
+  }
+
+  const workspaceId = projects.data[0]?.workspace_id ?? input.workspace_id ?? getDefaultWorkspaceId() ?? '';
+  const timeZone = await workspaceTimeZone(ctx, workspaceId);
+  const today = todayIn(timeZone);
+
+  let from: string | null = null;
+  let to: string | null = null;
+
+  switch (input.window) {
+    case 'overdue':
+      to = addDays(today, -1);
+      break;
+    case 'today':
+      from = today;
+      to = today;
+      break;
+    case 'this_week':
+      from = today;
+      to = addDays(today, (7 - new Date(today).getUTCDay()) % 7);
+      break;
+    case 'range': {
+      const resolve = dueDateResolver(ctx);
+
+      for (const [bound, value] of [['from', input.from], ['to', input.to]] as const) {
+        if (value === undefined) {
+          continue;
+        }
+
+        const date = await resolve(value, { workspaceId, projectId: input.project_id });
+        if (!date.success) {
+          return date;
+        }
+
+        if (bound === 'from') {
+          from = date.data.slice(0, 10);
+        } else {
+          to = date.data.slice(0, 10);
+        }
+      }
+      break;
+    }
+  }
+
+  const projectIds = projects.data.map((p) => p.id);
+  const { data: tasks, error } =
+    projectIds.length > 0
+      ? await repo.listTasks({
+          projectIds,
+          statuses: OPEN_STATUSES,
+          dueFrom: from ?? undefined,
+          dueBefore: to ? addDays(to, 1) : undefined,
+        })
+      : { data: [], error: null };
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to get due tasks: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const names = new Map(projects.data.map((p) => [p.id, p]));
+  const due = tasks
+    .filter((t) => t.due_date !== null)
+    .sort((a, b) => (a.due_date as string).localeCompare(b.due_date as string) || PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority])
+    .map((t) => ({
+      ...t,
+      project: { id: t.project_id, name: names.get(t.project_id)?.name ?? '', workspace_id: workspaceId },
+    }));
+
+  const described: Record<GetDueTasksInput['window'], string> = {
+    overdue: `overdue as of ${today}`,
+    today: `due today (${today})`,
+    this_week: `due this week (${from} – ${to})`,
+    range: `due ${from ?? 'any time'} – ${to ?? 'any time'}`,
+  };
+
+  return {
+    success: true,
+    data: { window: input.window, time_zone: timeZone, today, from, to, tasks: due },
+    message: `${due.length} unfinished task(s) ${described[input.window]}`,
+  };
+}
+
+/**
+ * List a workspace's unfinished projects that have a due date, soonest
+ * first, with the days left and the work still open.
+ */
+export async function getProjectDeadlines(
+  ctx: ToolContext,
+  input: GetProjectDeadlinesInput
+): Promise<ToolResult<ProjectDeadline[]>> {
+  const { repo } = ctx;
+
+  const projects = await getScopeProjects(ctx, { workspace_id: input.workspace_id });
+  if (!projects.success) {
+    return projects;
+  }
+
+  const workspaceId = input.workspace_id ?? getDefaultWorkspaceId() ?? '';
+  const today = todayIn(await workspaceTimeZone(ctx, workspaceId));
+
+  const withDeadlines = projects.data
+    .filter((p) => p.due_date !== null && p.status !== 'completed')
+    .sort((a, b) => (a.due_date as string).localeCompare(b.due_date as string));
+
+  const { data: tasks, error } =
+    withDeadlines.length > 0
+      ? await repo.listTasks({ projectIds: withDeadlines.map((p) => p.id), statuses: OPEN_STATUSES })
+      : { data: [], error: null };
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to get project tasks: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const deadlines: ProjectDeadline[] = withDeadlines.map((project) => {
+    const dueDate = (project.due_date as string).slice(0, 10);
+    const open = tasks.filter((t) => t.project_id === project.id);
+    const daysLeft = Math.round((Date.parse(dueDate) - Date.parse(today)) / MS_PER_DAY);
+
+    return {
+      project_id: project.id,
+      name: project.name,
+      status: project.status,
+      progress: project.progress,
+      due_date: dueDate,
+      days_left: daysLeft,
+      overdue: daysLeft < 0,
+      open_tasks: open.length,
+      overdue_tasks: open.filter((t) => t.due_date !== null && t.due_date.slice(0, 10) < today).length,
+    };
+  });
+
+  const overdue = deadlines.filter((d) => d.overdue).length;
+  const next = deadlines.find((d) => !d.overdue);
+
+  return {
+    success: true,
+    data: deadlines,
+    message:
+      `${deadlines.length} project deadline(s), ${overdue} overdue` +
+      (next ? `; next up is "${next.name}" on ${next.due_date} (${next.days_left} day(s) left)` : ''),
+  };
+}
+
+// ============================================================================
+// Relative Due Dates
+// ============================================================================
+
+/**
+ * Create a due date resolver that looks each workspace's time zone up only
+ * once, for tools that set many due dates.
+ */
+export function dueDateResolver(ctx: ToolContext): DueDateResolver {
+  const timeZones = new Map<string, string>();
+
+  return async (dueDate, scope) => {
+    const value = dueDate.trim();
+    if (ISO_DATE_PREFIX.test(value)) {
+      return { success: true, data: value };
+    }
+
+    let timeZone = timeZones.get(scope.workspaceId);
+    if (!timeZone) {
+      timeZone = await workspaceTimeZone(ctx, scope.workspaceId);
+      timeZones.set(scope.workspaceId, timeZone);
+    }
+
+    const today = todayIn(timeZone);
+
+    if (isSprintPhrase(value)) {
+      return sprintEnd(ctx, value, scope, today);
+    }
+
+    const date = parseDuePhrase(value, today);
+    if (!date) {
+      return {
+        success: false,
+        error: `Can't read due date "${value}". Use an ISO date (e.g., 2024-12-31) or a phrase like "tomorrow", "next friday", "in 3 days", "end of month" or "end of sprint".`,
+        code: 'INVALID_DUE_DATE',
+      };
+    }
+
+    return { success: true, data: date };
+  };
+}
+
+/**
+ * Turn one due date into an ISO date.
+ */
+export async function resolveDueDate(ctx: ToolContext, dueDate: string, scope: DueDateScope): Promise<ToolResult<string>> {
+  return dueDateResolver(ctx)(dueDate, scope);
+}
+
+/**
+ * The end date of the task's sprint, or else of the project's current (or
+ * next) open sprint.
+ */
+async function sprintEnd(ctx: ToolContext, phrase: string, scope: DueDateScope, today: string): Promise<ToolResult<string>> {
+  const { repo } = ctx;
+
+  if (scope.sprintId) {
+    const { data: sprint } = await repo.getSprint(scope.sprintId);
+    if (sprint) {
+      return { success: true, data: sprint.end_date.slice(0, 10) };
+    }
+  }
+
+  if (scope.projectId) {
+    const { data: sprints } = await repo.listSprints({ projectIds: [scope.projectId], open: true });
+    const upcoming = (sprints ?? []).filter((s) => s.end_date.slice(0, 10) >= today);
+    const current = upcoming.find((s) => s.start_date.slice(0, 10) <= today) ?? upcoming[0];
+
+    if (current) {
+      return { success: true, data: current.end_date.slice(0, 10) };
+    }
+  }
+
+  return {
+    success: false,
+    error: `Can't set the due date to "${phrase}": there is no sprint to take the end date from. Plan the task into a sprint, or give a date.`,
+    code: 'NO_SPRINT',
+  };
+}
+
+/**
+ * The workspace's time zone, falling back to CANVAS_TIME_ZONE and then UTC
+ * when it is unset or unknown. Also used by the workload report.
+ */
+export async function workspaceTimeZone(ctx: ToolContext, workspaceId: string): Promise<string> {
+  const { data: workspace } = await ctx.repo.getWorkspace(workspaceId);
+  const timeZone = workspace?.time_zone;
+
+  if (timeZone && isValidTimeZone(timeZone)) {
+    return timeZone;
+  }
+
+  const fallback = getDefaultTimeZone();
+  return isValidTimeZone(fallback) ? fallback : 'UTC';
+}
@@ -0,0 +1,375 @@
+/**
+ * Dependency Tools for Limitless Canvas MCP Server
+ *
+ * A task can depend on other tasks in the same workspace. Until those are
+ * done it is blocked: every tool that changes a task's status (start_task,
+ * move_task, complete_task, update_task, the bulk tools) warns when a
+ * blocked task is started or finished; start_task and move_task refuse
+ * instead with `strict`.
+ *
+ * Provides:
+ * - add_dependency: Make a task depend on another (cycles are refused)
+ * - remove_dependency: Remove a dependency
+ * - get_blocked_tasks: List the tasks in a project waiting on unfinished work
+ *
+ * Trashed tasks never block anything.
+ */
+
+import { validateProjectId } from '../repository/index.js';
+import type { RepoResult } from '../repository/index.js';
+import type {
+  DependencyInput,
+  TaskBlocker,
+  TaskDependencyRow,
+  TaskRow,
+  TaskStatus,
+  TaskWithBlockers,
+  ToolResult,
+} from '../types/index.js';
+import type { ToolContext } from './context.js';
+
+/** Moving a task into these columns means working on it, so blockers matter */
+export const WORK_STATUSES: TaskStatus[] = ['in-progress', 'review', 'done'];
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * Make `task_id` depend on `depends_on_task_id`.
+ */
+export async function addDependency(
+  ctx: ToolContext,
+  input: DependencyInput
+): Promise<ToolResult<TaskDependencyRow>> {
+  const { repo } = ctx;
+
+  if (input.task_id === input.depends_on_task_id) {
+    return {
+      success: false,
+      error: 'A task cannot depend on itself.',
+      code: 'DEPENDENCY_CYCLE',
+    };
+  }
+
+  const tasks = await getDependencyPair(ctx, input);
+  if (!tasks.success) {
+    return tasks;
+  }
+  const [task, dependsOn] = tasks.data;
+
+  const { data: existing, error: existingError } = await repo.listDependencies({
+    taskIds: [task.id],
+    dependsOnTaskIds: [dependsOn.id],
+  });
+
+  if (existingError) {
+    return {
+      success: false,
+      error: `Failed to check dependencies: ${existingError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  if (existing.length > 0) {
+    return {
+      success: true,
+      data: existing[0],
+      message: `"${task.title}" already depends on "${dependsOn.title}"`,
+    };
+  }
+
+  // The new edge closes a cycle if the other task already (indirectly) depends on this one
+  const { data: path, error: pathError } = await findDependencyPath(ctx, dependsOn.id, task.id);
+
+  if (pathError) {
+    return {
+      success: false,
+      error: `Failed to check dependencies: ${pathError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  if (path) {
+    return {
+      success: false,
+      error: `"${dependsOn.title}" already depends on "${task.title}" (${[task.id, ...path].join(' → ')}), so this would create a cycle.`,
+      code: 'DEPENDENCY_CYCLE',
+    };
+  }
+
+  const { data, error } = await repo.addDependency({
+    task_id: task.id,
+    depends_on_task_id: dependsOn.id,
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to add dependency: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    message: `"${task.title}" now depends on "${dependsOn.title}"${dependsOn.status === 'done' ? '' : ' (not done yet)'}`,
+  };
+}
+
+/**
+ * Remove the dependency of `task_id` on `depends_on_task_id`.
+ */
+export async function removeDependency(
+  ctx: ToolContext,
+  input: DependencyInput
+): Promise<ToolResult<{ removed: boolean }>> {
+  const { repo } = ctx;
+
+  const { data: existing, error: existingError } = await repo.listDependencies({
+    taskIds: [input.task_id],
+    dependsOnTaskIds: [input.depends_on_task_id],
+  });
+
+  if (existingError) {
+    return {
+      success: false,
+      error: `Failed to check dependencies: ${existingError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  if (existing.length === 0) {
+    return {
+      success: false,
+      error: `Task "${input.task_id}" does not depend on task "${input.depends_on_task_id}".`,
+      code: 'DEPENDENCY_NOT_FOUND',
+    };
+  }
+
+  const { error } = await repo.removeDependency(input.task_id, input.depends_on_task_id);
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to remove dependency: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data: { removed: true },
+    message: `Task "${input.task_id}" no longer depends on task "${input.depends_on_task_id}"`,
+  };
+}
+
+/**
+ * List the unfinished tasks in a project that depend on unfinished work.
+ */
+export async function getBlockedTasks(ctx: ToolContext, projectId: string): Promise<ToolResult<TaskWithBlockers[]>> {
+  const { repo } = ctx;
+
+  const isValid = await validateProjectId(repo, projectId);
+  if (!isValid) {
+    return {
+      success: false,
+      error: `Project with ID "${projectId}" not found.`,
+      code: 'PROJECT_NOT_FOUND',
+    };
+  }
+
+  const { data: tasks, error: taskError } = await repo.listTasks({
+    projectIds: [projectId],
+    statuses: ['backlog', 'todo', 'in-progress', 'review'],
+  });
+
+  if (taskError) {
+    return {
+      success: false,
+      error: `Failed to get tasks: ${taskError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const { data: blocked, error } = await withBlockers(ctx, tasks);
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to get dependencies: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const result = blocked.filter((t) => t.blocked_by.length > 0);
+
+  return {
+    success: true,
+    data: result,
+    message: `${result.length} task(s) blocked by unfinished dependencies`,
+  };
+}
+
+// ============================================================================
+// Blocker Helpers
+// ============================================================================
+
+/**
+ * Attach each task's unfinished dependencies as `blocked_by`.
+ */
+export async function withBlockers(ctx: ToolContext, tasks: TaskRow[]): Promise<RepoResult<TaskWithBlockers[]>> {
+  const { repo } = ctx;
+
+  if (tasks.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const { data: dependencies, error } = await repo.listDependencies({ taskIds: tasks.map((t) => t.id) });
+  if (error) {
+    return { data: null, error };
+  }
+
+  const blockers = new Map<string, TaskBlocker>();
+  if (dependencies.length > 0) {
+    const { data: dependedOn, error: taskError } = await repo.listTasks({
+      taskIds: [...new Set(dependencies.map((d) => d.depends_on_task_id))],
+    });
+    if (taskError) {
+      return { data: null, error: taskError };
+    }
+
+    for (const task of dependedOn) {
+      if (task.status !== 'done') {
+        blockers.set(task.id, { id: task.id, title: task.title, status: task.status, project_id: task.project_id });
+      }
+    }
+  }
+
+  return {
+    data: tasks.map((task) => ({
+      ...task,
+      blocked_by: dependencies
+        .filter((d) => d.task_id === task.id && blockers.has(d.depends_on_task_id))
+        .map((d) => blockers.get(d.depends_on_task_id) as TaskBlocker),
+    })),
+    error: null,
+  };
+}
+
+/**
+ * Check status changes against unfinished dependencies. Returns a
+ * description of the blockers of each task moving into a work column while
+ * blocked, by task ID. Blockers finished by the same set of changes don't
+ * count.
+ */
+export async function findBlockedMoves(
+  ctx: ToolContext,
+  moves: { task: TaskRow; status: TaskStatus }[]
+): Promise<RepoResult<Map<string, string>>> {
+  const starting = moves.filter((m) => m.status !== m.task.status && WORK_STATUSES.includes(m.status));
+
+  const { data: checked, error } = await withBlockers(ctx, starting.map((m) => m.task));
+  if (error) {
+    return { data: null, error };
+  }
+
+  const finishing = new Set(moves.filter((m) => m.status === 'done').map((m) => m.task.id));
+  const blocked = new Map<string, string>();
+
+  for (const task of checked) {
+    const blockers = task.blocked_by.filter((b) => !finishing.has(b.id));
+    if (blockers.length > 0) {
+      blocked.set(task.id, describeBlockers(task, blockers));
+    }
+  }
+
+  return { data: blocked, error: null };
+}
+
+/**
+ * Describe the tasks blocking a task, for warnings and errors.
+ */
+export function describeBlockers(task: TaskRow, blockers: TaskBlocker[]): string {
+  const list = blockers.map((b) => `"${b.title}" (${b.status})`).join(', ');
+  return `"${task.title}" depends on unfinished task(s): ${list}`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Fetch both tasks of a dependency and check they share a workspace.
+ */
+async function getDependencyPair(ctx: ToolContext, input: DependencyInput): Promise<ToolResult<[TaskRow, TaskRow]>> {
+  const { repo } = ctx;
+  const pair: TaskRow[] = [];
+  const workspaces = new Set<string>();
+
+  for (const taskId of [input.task_id, input.depends_on_task_id]) {
+    const { data: task } = await repo.getTask(taskId);
+
+    if (!task || task.deleted_at) {
+      return {
+        success: false,
+        error: `Task with ID "${taskId}" not found.`,
+        code: 'TASK_NOT_FOUND',
+      };
+    }
+
+    const { data: project } = await repo.getProject(task.project_id);
+    workspaces.add(project?.workspace_id ?? '');
+    pair.push(task);
+  }
+
+  if (workspaces.size > 1) {
+    return {
+      success: false,
+      error: 'Tasks can only depend on tasks in the same workspace.',
+      code: 'CROSS_WORKSPACE_DEPENDENCY',
+    };
+  }
+
+  return { success: true, data: [pair[0], pair[1]] };
+}
+
+/**
+ * Find a chain of dependencies leading from one task to another, or null if
+ * there is none. The returned path starts with `fromId` and ends with `toId`.
+ */
+async function findDependencyPath(ctx: ToolContext, fromId: string, toId: string): Promise<RepoResult<string[] | null>> {
+  const previous = new Map<string, string | null>([[fromId, null]]);
+  let frontier = [fromId];
+
+  while (frontier.length > 0) {
+    const { data: dependencies, error } = await ctx.repo.listDependencies({ taskIds: frontier });
+    if (error) {
+      return { data: null, error };
+    }
+
+    const next: string[] = [];
+    for (const dependency of dependencies) {
+      if (previous.has(dependency.depends_on_task_id)) {
+        continue;
+      }
+      previous.set(dependency.depends_on_task_id, dependency.task_id);
+
+      if (dependency.depends_on_task_id === toId) {
+        const path: string[] = [];
+        for (let id: string | null = toId; id !== null; id = previous.get(id) ?? null) {
+          path.unshift(id);
+        }
+        return { data: path, error: null };
+      }
+
+      next.push(dependency.depends_on_task_id);
+    }
+
+    frontier = next;
+  }
+
+  return { data: null, error: null };
+}
@@ -7,11 +7,29 @@
  * - create_project: Create a new project
  * - update_project: Update project details
  * - update_project_progress: Update project completion percentage
+ *
+ * Every change is recorded in the activity log (see activity.ts), including
+ * progress updates made automatically after task changes.
+ *
+ * Each project has a progress_mode: progress is the share of tasks done
+ * (`count`), or the share of estimated work or priority weight done.
+ *
+ * Due dates may be relative ("end of month", "in 6 weeks"); they are stored
+ * as ISO dates in the workspace's time zone (see deadlines.ts).
  */
 
-import { getSupabase, getDefaultWorkspaceId, validateWorkspaceId, validateProjectId } from '../supabase/client.js';
+import {
+  getDefaultWorkspaceId,
+  isSubtaskWeightingEnabled,
+  validateWorkspaceId,
+  validateProjectId,
+} from '../repository/index.js';
+import { resolveDueDate } from './deadlines.js';
 import type {
+  ProgressMode,
+  ProjectEstimates,
   ProjectRow,
+  ProjectWithEstimates,
   ProjectWithTasks,
   TaskRow,
   ListProjectsInput,
@@ -19,14 +37,24 @@ import type {
   CreateProjectInput,
   UpdateProjectInput,
   ToolResult,
-  TaskStatus,
 } from '../types/index.js';
+import type { ProjectUpdate } from '../repository/index.js';
+import type { ToolContext } from './context.js';
+import { recordActivity } from './activity.js';
+
+/** How much a task of each priority counts in `priority` progress mode */
+const PRIORITY_WEIGHTS: Record<TaskRow['priority'], number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 5,
+};
 
 /**
  * List all projects in a workspace with optional filtering.
  */
-export async function listProjects(input: ListProjectsInput): Promise<ToolResult<ProjectRow[]>> {
-  const supabase = getSupabase();
+export async function listProjects(ctx: ToolContext, input: ListProjectsInput): Promise<ToolResult<ProjectRow[]>> {
+  const { repo } = ctx;
   const workspaceId = input.workspace_id || getDefaultWorkspaceId();
 
   if (!workspaceId) {
@@ -37,7 +65,7 @@ export async function listProjects(input: ListProjectsInput): Promise<ToolResult
     };
   }
 
-  const isValid = await validateWorkspaceId(workspaceId);
+  const isValid = await validateWorkspaceId(repo, workspaceId);
   if (!isValid) {
     return {
       success: false,
@@ -46,21 +74,11 @@ export async function listProjects(input: ListProjectsInput): Promise<ToolResult
     };
   }
 
-  let query = supabase
-    .from('projects')
-    .select('*')
-    .eq('workspace_id', workspaceId)
-    .order('updated_at', { ascending: false });
-
-  if (input.status) {
-    query = query.eq('status', input.status);
-  }
-
-  if (input.limit) {
-    query = query.limit(input.limit);
-  }
-
-  const { data, error } = await query;
+  const { data, error } = await repo.listProjects({
+    workspaceId,
+    status: input.status,
+    limit: input.limit,
+  });
 
   if (error) {
     return {
@@ -72,7 +90,7 @@ export async function listProjects(input: ListProjectsInput): Promise<ToolResult
 
   return {
     success: true,
-    data: data as ProjectRow[],
+    data,
     message: `Found ${data.length} project(s)`,
   };
 }
@@ -81,7 +99,7 @@ export async function listProjects(input: ListProjectsInput): Promise<ToolResult
  * Get detailed information about a specific project.
  * Optionally includes all tasks.
  */
-interface ProjectWithTaskCounts extends ProjectWithTasks {
+interface ProjectWithTaskCounts extends ProjectWithTasks, ProjectWithEstimates {
   task_counts: {
     total: number;
     backlog: number;
@@ -92,10 +110,13 @@ interface ProjectWithTaskCounts extends ProjectWithTasks {
   };
 }
 
-export async function getProject(input: GetProjectInput): Promise<ToolResult<ProjectWithTaskCounts | ProjectRow>> {
-  const supabase = getSupabase();
+export async function getProject(
+  ctx: ToolContext,
+  input: GetProjectInput
+): Promise<ToolResult<ProjectWithTaskCounts | ProjectWithEstimates>> {
+  const { repo } = ctx;
 
-  const isValid = await validateProjectId(input.project_id);
+  const isValid = await validateProjectId(repo, input.project_id);
   if (!isValid) {
     return {
       success: false,
@@ -104,26 +125,32 @@ export async function getProject(input: GetProjectInput): Promise<ToolResult<Pro
     };
   }
 
+  const { data, error } = await repo.getProject(input.project_id);
+
+  if (error || !data) {
+    return {
+      success: false,
+      error: `Failed to get project: ${error?.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const { data: tasks, error: taskError } = await repo.listTasks({ projectIds: [input.project_id] });
+
+  if (taskError) {
+    return {
+      success: false,
+      error: `Failed to get project: ${taskError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const estimates = summarizeEstimates(tasks);
+  const remaining = estimates.total > 0 ? `, ${estimates.remaining} of ${estimates.total} estimated left` : '';
+
   if (input.include_tasks !== false) {
     // Default: include tasks
-    const { data, error } = await supabase
-      .from('projects')
-      .select(`
-        *,
-        tasks (*)
-      `)
-      .eq('id', input.project_id)
-      .single();
-
-    if (error) {
-      return {
-        success: false,
-        error: `Failed to get project: ${error.message}`,
-        code: 'DATABASE_ERROR',
-      };
-    }
-
-    const project = data as ProjectWithTasks;
+    const project: ProjectWithTasks = { ...data, tasks };
 
     // Calculate task counts for convenience
     const taskCounts = {
@@ -137,39 +164,25 @@ export async function getProject(input: GetProjectInput): Promise<ToolResult<Pro
 
     return {
       success: true,
-      data: { ...project, task_counts: taskCounts },
-      message: `Project "${project.name}" with ${taskCounts.total} task(s)`,
-    };
-  } else {
-    const { data, error } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('id', input.project_id)
-      .single();
-
-    if (error) {
-      return {
-        success: false,
-        error: `Failed to get project: ${error.message}`,
-        code: 'DATABASE_ERROR',
-      };
-    }
-
-    return {
-      success: true,
-      data: data as ProjectRow,
-      message: `Project "${data.name}"`,
+      data: { ...project, task_counts: taskCounts, estimates },
+      message: `Project "${project.name}" with ${taskCounts.total} task(s)${remaining}`,
     };
   }
+
+  return {
+    success: true,
+    data: { ...data, estimates },
+    message: `Project "${data.name}"${remaining}`,
+  };
 }
 
 /**
  * Create a new project in a workspace.
  */
-export async function createProject(input: CreateProjectInput): Promise<ToolResult<ProjectRow>> {
-  const supabase = getSupabase();
+export async function createProject(ctx: ToolContext, input: CreateProjectInput): Promise<ToolResult<ProjectRow>> {
+  const { repo } = ctx;
 
-  const isValidWorkspace = await validateWorkspaceId(input.workspace_id);
+  const isValidWorkspace = await validateWorkspaceId(repo, input.workspace_id);
   if (!isValidWorkspace) {
     return {
       success: false,
@@ -178,27 +191,33 @@ export async function createProject(input: CreateProjectInput): Promise<ToolResu
     };
   }
 
+  let dueDate: string | null = null;
+  if (input.due_date) {
+    const resolved = await resolveDueDate(ctx, input.due_date, { workspaceId: input.workspace_id });
+    if (!resolved.success) {
+      return resolved;
+    }
+    dueDate = resolved.data;
+  }
+
   const now = new Date().toISOString();
 
-  const { data, error } = await supabase
-    .from('projects')
-    .insert({
-      workspace_id: input.workspace_id,
-      name: input.name,
-      description: input.description || null,
-      status: input.status || 'planning',
-      priority: input.priority || 'medium',
-      progress: 0,
-      budget: input.budget || null,
-      due_date: input.due_date || null,
-      client_id: input.client_id || null,
-      estimated_duration_hours: input.estimated_duration_hours || null,
-      item_type: 'project',
-      created_at: now,
-      updated_at: now,
-    })
-    .select()
-    .single();
+  const { data, error } = await repo.createProject({
+    workspace_id: input.workspace_id,
+    name: input.name,
+    description: input.description || null,
+    status: input.status || 'planning',
+    priority: input.priority || 'medium',
+    progress: 0,
+    budget: input.budget || null,
+    due_date: dueDate,
+    client_id: input.client_id || null,
+    estimated_duration_hours: input.estimated_duration_hours || null,
+    progress_mode: input.progress_mode || 'count',
+    item_type: 'project',
+    created_at: now,
+    updated_at: now,
+  });
 
   if (error) {
     return {
@@ -208,9 +227,20 @@ export async function createProject(input: CreateProjectInput): Promise<ToolResu
     };
   }
 
+  await recordActivity(ctx, {
+    entityType: 'project',
+    entityId: data.id,
+    projectId: data.id,
+    workspaceId: data.workspace_id,
+    action: 'create',
+    tool: 'create_project',
+    before: null,
+    after: data,
+  });
+
   return {
     success: true,
-    data: data as ProjectRow,
+    data,
     message: `Created project "${data.name}" (ID: ${data.id})`,
   };
 }
@@ -218,11 +248,11 @@ export async function createProject(input: CreateProjectInput): Promise<ToolResu
 /**
  * Update an existing project.
  */
-export async function updateProject(input: UpdateProjectInput): Promise<ToolResult<ProjectRow>> {
-  const supabase = getSupabase();
+export async function updateProject(ctx: ToolContext, input: UpdateProjectInput): Promise<ToolResult<ProjectRow>> {
+  const { repo } = ctx;
 
-  const isValid = await validateProjectId(input.project_id);
-  if (!isValid) {
+  const { data: currentProject } = await repo.getProject(input.project_id);
+  if (!currentProject) {
     return {
       success: false,
       error: `Project with ID "${input.project_id}" not found.`,
@@ -230,7 +260,7 @@ export async function updateProject(input: UpdateProjectInput): Promise<ToolResu
     };
   }
 
-  const updates: Record<string, unknown> = {
+  const updates: ProjectUpdate = {
     updated_at: new Date().toISOString(),
   };
 
@@ -241,14 +271,31 @@ export async function updateProject(input: UpdateProjectInput): Promise<ToolResu
   if (input.progress !== undefined) updates.progress = Math.min(100, Math.max(0, input.progress));
   if (input.budget !== undefined) updates.budget = input.budget;
   if (input.spent !== undefined) updates.spent = input.spent;
-  if (input.due_date !== undefined) updates.due_date = input.due_date;
+  if (input.progress_mode !== undefined) updates.progress_mode = input.progress_mode;
+
+  if (input.due_date === null) {
+    updates.due_date = null;
+  } else if (input.due_date !== undefined) {
+    const dueDate = await resolveDueDate(ctx, input.due_date, {
+      workspaceId: currentProject.workspace_id,
+      projectId: currentProject.id,
+    });
+    if (!dueDate.success) {
+      return dueDate;
+    }
+    updates.due_date = dueDate.data;
+  }
+
+  // A new progress mode recalculates progress, unless progress is set by hand too
+  const modeChanged = input.progress_mode !== undefined && input.progress_mode !== currentProject.progress_mode;
+  if (modeChanged && input.progress === undefined) {
+    const progress = await calculateProjectProgress(ctx, input.project_id, { mode: input.progress_mode });
+    if (progress.success) {
+      updates.progress = progress.data;
+    }
+  }
 
-  const { data, error } = await supabase
-    .from('projects')
-    .update(updates)
-    .eq('id', input.project_id)
-    .select()
-    .single();
+  const { data, error } = await repo.updateProject(input.project_id, updates);
 
   if (error) {
     return {
@@ -258,9 +305,20 @@ export async function updateProject(input: UpdateProjectInput): Promise<ToolResu
     };
   }
 
+  await recordActivity(ctx, {
+    entityType: 'project',
+    entityId: data.id,
+    projectId: data.id,
+    workspaceId: data.workspace_id,
+    action: 'update',
+    tool: 'update_project',
+    before: currentProject,
+    after: data,
+  });
+
   return {
     success: true,
-    data: data as ProjectRow,
+    data,
     message: `Updated project "${data.name}"`,
   };
 }
@@ -269,26 +327,46 @@ export async function updateProject(input: UpdateProjectInput): Promise<ToolResu
  * Update project progress percentage (convenience method).
  */
 export async function updateProjectProgress(
+  ctx: ToolContext,
   projectId: string,
   progress: number
 ): Promise<ToolResult<ProjectRow>> {
-  return updateProject({
+  return updateProject(ctx, {
     project_id: projectId,
     progress: Math.min(100, Math.max(0, progress)),
   });
 }
 
+export interface ProgressOptions {
+  /** How tasks are weighted; defaults to the project's progress_mode */
+  mode?: ProgressMode;
+  /**
+   * Count each top-level task as the share of its subtasks that are done
+   * (1 once the task itself is done), instead of counting every task and
+   * subtask on its own. Defaults to CANVAS_WEIGHT_SUBTASKS.
+   */
+  weightSubtasks?: boolean;
+}
+
 /**
- * Calculate project progress based on task completion.
- * Returns a number between 0-100.
+ * Calculate project progress based on task completion, weighting tasks by
+ * the project's progress mode. Returns a number between 0-100. Trashed
+ * tasks don't count.
  */
-export async function calculateProjectProgress(projectId: string): Promise<ToolResult<number>> {
-  const supabase = getSupabase();
+export async function calculateProjectProgress(
+  ctx: ToolContext,
+  projectId: string,
+  options: ProgressOptions = {}
+): Promise<ToolResult<number>> {
+  const { repo } = ctx;
+
+  let mode = options.mode;
+  if (!mode) {
+    const { data: project } = await repo.getProject(projectId);
+    mode = project?.progress_mode ?? 'count';
+  }
 
-  const { data: tasks, error } = await supabase
-    .from('tasks')
-    .select('status')
-    .eq('project_id', projectId);
+  const { data: tasks, error } = await repo.listTasks({ projectIds: [projectId], trash: 'exclude' });
 
   if (error) {
     return {
@@ -306,13 +384,25 @@ export async function calculateProjectProgress(projectId: string): Promise<ToolR
     };
   }
 
-  const completedTasks = tasks.filter((t) => t.status === 'done').length;
-  const progress = Math.round((completedTasks / tasks.length) * 100);
+  const weightSubtasks = options.weightSubtasks ?? isSubtaskWeightingEnabled();
+  const units = weightSubtasks ? subtaskWeightedCompletion(tasks) : tasks.map((task) => ({ task, done: doneShare(task) }));
+  const weigh = taskWeights(mode, units.map((u) => u.task));
+
+  let completed = 0;
+  let total = 0;
+  for (const { task, done } of units) {
+    completed += weigh(task) * done;
+    total += weigh(task);
+  }
+
+  const progress = total === 0 ? 0 : Math.round((completed / total) * 100);
+  const counted = weightSubtasks ? 'top-level tasks, counting subtasks' : 'tasks';
+  const unit = mode === 'count' ? counted : `${counted}, weighted by ${mode}`;
 
   return {
     success: true,
     data: progress,
-    message: `${completedTasks}/${tasks.length} tasks completed (${progress}%)`,
+    message: `${Math.round(completed * 10) / 10}/${Math.round(total * 10) / 10} ${unit} completed (${progress}%)`,
   };
 }
 
@@ -320,12 +410,138 @@ export async function calculateProjectProgress(projectId: string): Promise<ToolR
  * Auto-update project progress based on task status.
  * Call this after modifying tasks.
  */
-export async function syncProjectProgress(projectId: string): Promise<ToolResult<ProjectRow>> {
-  const progressResult = await calculateProjectProgress(projectId);
+export async function syncProjectProgress(ctx: ToolContext, projectId: string): Promise<ToolResult<ProjectRow>> {
+  const progressResult = await calculateProjectProgress(ctx, projectId);
 
   if (!progressResult.success) {
     return progressResult as ToolResult<ProjectRow>;
   }
 
-  return updateProjectProgress(projectId, progressResult.data);
+  return updateProjectProgress(ctx, projectId, progressResult.data);
+}
+
+/**
+ * Whether a task change can move its project's progress: its status, or the
+ * estimate or priority that the weighted progress modes count.
+ */
+export function changesProgress(before: TaskRow, after: TaskRow): boolean {
+  return before.status !== after.status || before.estimate !== after.estimate || before.priority !== after.priority;
+}
+
+/**
+ * Resolve the projects a workspace- or project-wide tool covers: the given
+ * project, or every project in the workspace (default workspace if none is
+ * given).
+ */
+export async function getScopeProjects(
+  ctx: ToolContext,
+  input: { workspace_id?: string; project_id?: string }
+): Promise<ToolResult<ProjectRow[]>> {
+  const { repo } = ctx;
+
+  if (input.project_id) {
+    const { data: project, error } = await repo.getProject(input.project_id);
+    if (error || !project) {
+      return {
+        success: false,
+        error: `Project with ID "${input.project_id}" not found.`,
+        code: 'PROJECT_NOT_FOUND',
+      };
+    }
+    return { success: true, data: [project] };
+  }
+
+  const workspaceId = input.workspace_id || getDefaultWorkspaceId();
+
+  if (!workspaceId) {
+    return {
+      success: false,
+      error: 'workspace_id is required. Either provide it or set DEFAULT_WORKSPACE_ID.',
+      code: 'MISSING_WORKSPACE_ID',
+    };
+  }
+
+  const isValid = await validateWorkspaceId(repo, workspaceId);
+  if (!isValid) {
+    return {
+      success: false,
+      error: `Workspace with ID "${workspaceId}" not found.`,
+      code: 'WORKSPACE_NOT_FOUND',
+    };
+  }
+
+  const { data: projects, error } = await repo.listProjects({ workspaceId });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to get projects: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return { success: true, data: projects };
+}
+
+/**
+ * Total and remaining estimated work. Trashed tasks are left out by the caller.
+ */
+function summarizeEstimates(tasks: TaskRow[]): ProjectEstimates {
+  const estimates: ProjectEstimates = { total: 0, remaining: 0, unestimated: 0 };
+
+  for (const task of tasks) {
+    const open = task.status !== 'done';
+
+    if (task.estimate === null) {
+      estimates.unestimated += open ? 1 : 0;
+      continue;
+    }
+
+    estimates.total += task.estimate;
+    estimates.remaining += open ? task.estimate : 0;
+  }
+
+  return estimates;
+}
+
+/**
+ * Top-level tasks with their share done, counting subtasks. Subtasks whose
+ * parent is missing (e.g. trashed) count as top-level tasks.
+ */
+function subtaskWeightedCompletion(tasks: TaskRow[]): { task: TaskRow; done: number }[] {
+  const ids = new Set(tasks.map((t) => t.id));
+  const topLevel = tasks.filter((t) => !t.parent_task_id || !ids.has(t.parent_task_id));
+
+  return topLevel.map((task) => {
+    const subtasks = tasks.filter((t) => t.parent_task_id === task.id);
+
+    if (task.status === 'done' || subtasks.length === 0) {
+      return { task, done: doneShare(task) };
+    }
+    return { task, done: subtasks.filter((t) => t.status === 'done').length / subtasks.length };
+  });
+}
+
+/**
+ * How much each task counts towards progress. Tasks without an estimate
+ * count as the average estimated task, or 1 when nothing is estimated.
+ */
+function taskWeights(mode: ProgressMode, tasks: TaskRow[]): (task: TaskRow) => number {
+  switch (mode) {
+    case 'count':
+      return () => 1;
+
+    case 'priority':
+      return (task) => PRIORITY_WEIGHTS[task.priority];
+
+    case 'estimate': {
+      const estimates = tasks.flatMap((t) => (t.estimate === null ? [] : [t.estimate]));
+      const fallback = estimates.length > 0 ? estimates.reduce((sum, e) => sum + e, 0) / estimates.length : 1;
+      return (task) => task.estimate ?? fallback;
+    }
+  }
+}
+
+function doneShare(task: TaskRow): number {
+  return task.status === 'done' ? 1 : 0;
 }
@@ -0,0 +1,234 @@
+/**
+ * Task Query Tools for Limitless Canvas MCP Server
+ *
+ * Provides:
+ * - query_tasks: Find tasks by assignee, priority, status, tags, dates and project status, a page at a time
+ *
+ * Unlike search_tasks this doesn't match keywords; it narrows tasks down by
+ * their fields, so agents don't have to pull whole projects with
+ * get_project and filter them themselves.
+ *
+ * Pages are read with an opaque cursor naming the last task returned, so
+ * tasks changing between calls don't shift later pages by an offset. Sorting
+ * and paging happen in the repository, so a page never loads more than one
+ * task beyond its limit.
+ */
+
+import { getDefaultWorkspaceId } from '../repository/index.js';
+import type { TaskFilter, TaskOrdering } from '../repository/index.js';
+import { PRIORITY_RANK } from '../repository/ordering.js';
+import { getScopeProjects } from './projects.js';
+import { resolveAssignee } from './team.js';
+import { dueDateResolver } from './deadlines.js';
+import { addDays } from './dates.js';
+import type { ToolContext } from './context.js';
+import type { QueryTasksInput, TaskPage, TaskRow, TaskSort, ToolResult } from '../types/index.js';
+import { TASK_STATUSES } from '../types/index.js';
+
+/** Tasks per page when no limit is given */
+const DEFAULT_PAGE_SIZE = 50;
+
+/** The fields a cursor keeps of the last task on a page */
+type Position = Pick<TaskRow, 'id' | 'project_id' | 'status' | 'order' | 'priority' | 'due_date' | 'updated_at'>;
+
+interface Cursor {
+  sort: TaskSort;
+  after: Position;
+}
+
+/**
+ * Sort orders; the repository breaks ties by task ID, so every task has one
+ * place:
+ * - priority: most urgent first, then earliest due, then most recently updated
+ * - due_date: earliest due first (no due date last), then most urgent
+ * - updated_at: most recently updated first
+ * - order: board order, project by project and column by column
+ */
+const ORDERINGS: Record<TaskSort, TaskOrdering[]> = {
+  priority: [
+    { column: 'priority', ascending: true },
+    { column: 'due_date', ascending: true },
+    { column: 'updated_at', ascending: false },
+  ],
+  due_date: [
+    { column: 'due_date', ascending: true },
+    { column: 'priority', ascending: true },
+  ],
+  updated_at: [{ column: 'updated_at', ascending: false }],
+  order: [
+    { column: 'project_id', ascending: true },
+    { column: 'status', ascending: true },
+    { column: 'order', ascending: true },
+  ],
+};
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * Find tasks matching every given filter, sorted and a page at a time.
+ */
+export async function queryTasks(ctx: ToolContext, input: QueryTasksInput): Promise<ToolResult<TaskPage>> {
+  const { repo } = ctx;
+  const sort = input.sort ?? 'priority';
+  const limit = input.limit ?? DEFAULT_PAGE_SIZE;
+
+  let after: Position | undefined;
+  if (input.cursor) {
+    const cursor = decodeCursor(input.cursor);
+    if (!cursor || cursor.sort !== sort) {
+      return {
+        success: false,
+        error: `Cursor "${input.cursor}" is not from a query_tasks call sorted by ${sort}. Repeat the query without a cursor to start over.`,
+        code: 'INVALID_CURSOR',
+      };
+    }
+    after = cursor.after;
+  }
+
+  const scope = await getScopeProjects(ctx, input);
+  if (!scope.success) {
+    return scope;
+  }
+
+  const workspaceId = scope.data[0]?.workspace_id ?? input.workspace_id ?? getDefaultWorkspaceId() ?? '';
+  const projects = scope.data.filter((p) => !input.project_statuses || input.project_statuses.includes(p.status));
+
+  const filter: TaskFilter = {
+    projectIds: projects.map((p) => p.id),
+    statuses: input.statuses,
+    priorities: input.priorities,
+    createdSince: input.created_since,
+    updatedSince: input.updated_since,
+  };
+
+  if (input.tags) {
+    if (input.tag_match === 'all') {
+      filter.tagsAll = input.tags;
+    } else {
+      filter.tagsAny = input.tags;
+    }
+  }
+
+  if (input.assignee !== undefined) {
+    const member = await resolveAssignee(ctx, workspaceId, input.assignee);
+    if (!member.success) {
+      return member;
+    }
+
+    if (member.data) {
+      filter.assigneeIds = [member.data.id];
+    } else {
+      filter.unassigned = true;
+    }
+  }
+
+  const resolveDueDate = dueDateResolver(ctx);
+
+  if (input.due_from !== undefined) {
+    const from = await resolveDueDate(input.due_from, { workspaceId, projectId: input.project_id });
+    if (!from.success) {
+      return from;
+    }
+    filter.dueFrom = from.data.slice(0, 10);
+  }
+
+  if (input.due_to !== undefined) {
+    const to = await resolveDueDate(input.due_to, { workspaceId, projectId: input.project_id });
+    if (!to.success) {
+      return to;
+    }
+    filter.dueBefore = addDays(to.data.slice(0, 10), 1);
+  }
+
+  // One task past the page tells whether there is another page
+  const { data: tasks, error } =
+    projects.length > 0
+      ? await repo.listTasks({ ...filter, orderBy: ORDERINGS[sort], after, limit: limit + 1 })
+      : { data: [], error: null };
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to query tasks: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const { data: total, error: countError } = projects.length > 0 ? await repo.countTasks(filter) : { data: 0, error: null };
+
+  if (countError) {
+    return {
+      success: false,
+      error: `Failed to count tasks: ${countError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const page = tasks.slice(0, limit);
+  const hasMore = tasks.length > limit;
+
+  const names = new Map(projects.map((p) => [p.id, p]));
+  const rows = page.map((t) => ({
+    ...t,
+    project: {
+      id: t.project_id,
+      name: names.get(t.project_id)?.name ?? '',
+      workspace_id: names.get(t.project_id)?.workspace_id ?? workspaceId,
+    },
+  }));
+
+  return {
+    success: true,
+    data: {
+      tasks: rows,
+      total,
+      next_cursor: hasMore ? encodeCursor({ sort, after: position(page[page.length - 1]) }) : null,
+    },
+    message:
+      `Found ${total} matching task(s)` +
+      (after || hasMore ? `, showing ${page.length}` : '') +
+      (hasMore ? '; pass next_cursor for more' : ''),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function position(task: TaskRow): Position {
+  const { id, project_id, status, order, priority, due_date, updated_at } = task;
+  return { id, project_id, status, order, priority, due_date, updated_at };
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Read a cursor back, or null if it isn't one of ours.
+ */
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as Cursor;
+    const after = cursor.after;
+
+    if (
+      !(cursor.sort in ORDERINGS) ||
+      typeof after?.id !== 'string' ||
+      typeof after.project_id !== 'string' ||
+      typeof after.updated_at !== 'string' ||
+      typeof after.order !== 'number' ||
+      !(after.priority in PRIORITY_RANK) ||
+      !TASK_STATUSES.includes(after.status) ||
+      (after.due_date !== null && typeof after.due_date !== 'string')
+    ) {
+      return null;
+    }
+
+    return cursor;
+  } catch {
+    return null;
+  }
+}
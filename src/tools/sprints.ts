@@ -0,0 +1,331 @@
+/**
+ * Sprint Tools for Limitless Canvas MCP Server
+ *
+ * Sprints are time-boxed plans within a project, with a goal and start and
+ * end dates. Tasks are planned into a sprint with add_tasks_to_sprint;
+ * tasks in no sprint are in the backlog.
+ *
+ * Provides:
+ * - create_sprint: Create a sprint in a project
+ * - list_sprints: List a project's sprints by start date
+ * - get_sprint: Get a sprint with its tasks and status counts
+ * - add_tasks_to_sprint: Plan tasks into a sprint
+ * - close_sprint: Close a sprint, carrying unfinished tasks over
+ *
+ * Closing a sprint moves its unfinished tasks to the next open sprint of
+ * the project, or out of any sprint (into the backlog) when there is none;
+ * their status is left as it is. Those moves are recorded in the activity
+ * log like any other task change, but sprints themselves aren't, so closing
+ * a sprint can't be undone.
+ */
+
+import { applyUpdates } from './bulk.js';
+import type { NewSprintRow, TaskUpdate } from '../repository/index.js';
+import type {
+  AddTasksToSprintInput,
+  CloseSprintInput,
+  CloseSprintResult,
+  CreateSprintInput,
+  SprintRow,
+  SprintWithTasks,
+  TaskCounts,
+  TaskRow,
+  ToolResult,
+} from '../types/index.js';
+import { TASK_STATUSES } from '../types/index.js';
+import type { ToolContext } from './context.js';
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * Create a sprint in a project.
+ */
+export async function createSprint(ctx: ToolContext, input: CreateSprintInput): Promise<ToolResult<SprintRow>> {
+  const { repo } = ctx;
+
+  const { data: project } = await repo.getProject(input.project_id);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project with ID "${input.project_id}" not found.`,
+      code: 'PROJECT_NOT_FOUND',
+    };
+  }
+
+  const now = new Date().toISOString();
+  const sprint: NewSprintRow = {
+    project_id: project.id,
+    name: input.name,
+    goal: input.goal || null,
+    start_date: input.start_date,
+    end_date: input.end_date,
+    closed_at: null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const { data, error } = await repo.createSprint(sprint);
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to create sprint: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Created sprint "${data.name}" (${data.start_date} – ${data.end_date}) in "${project.name}" (ID: ${data.id})`,
+  };
+}
+
+/**
+ * List a project's sprints, open and closed, by start date.
+ */
+export async function listSprints(ctx: ToolContext, projectId: string): Promise<ToolResult<SprintRow[]>> {
+  const { repo } = ctx;
+
+  const { data: project } = await repo.getProject(projectId);
+  if (!project) {
+    return {
+      success: false,
+      error: `Project with ID "${projectId}" not found.`,
+      code: 'PROJECT_NOT_FOUND',
+    };
+  }
+
+  const { data, error } = await repo.listSprints({ projectIds: [projectId] });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to list sprints: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const open = data.filter((s) => s.closed_at === null).length;
+
+  return {
+    success: true,
+    data,
+    message: `Found ${data.length} sprint(s) in "${project.name}", ${open} open`,
+  };
+}
+
+/**
+ * Get a sprint with its tasks in board order and how many are in each column.
+ */
+export async function getSprint(ctx: ToolContext, sprintId: string): Promise<ToolResult<SprintWithTasks>> {
+  const { repo } = ctx;
+
+  const { data: sprint } = await repo.getSprint(sprintId);
+  if (!sprint) {
+    return sprintNotFound(sprintId);
+  }
+
+  const { data: tasks, error } = await repo.listTasks({ sprintIds: [sprintId] });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to get sprint tasks: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const taskCounts = countTasks(tasks);
+
+  return {
+    success: true,
+    data: { ...sprint, tasks, task_counts: taskCounts },
+    message: `Sprint "${sprint.name}"${sprint.closed_at ? ' (closed)' : ''}: ${taskCounts.done}/${taskCounts.total} task(s) done`,
+  };
+}
+
+/**
+ * Plan tasks from the sprint's project into the sprint. Tasks already in
+ * another sprint move to this one.
+ */
+export async function addTasksToSprint(
+  ctx: ToolContext,
+  input: AddTasksToSprintInput
+): Promise<ToolResult<ToolResult<TaskRow>[]>> {
+  const { repo } = ctx;
+
+  const sprint = await getOpenSprint(ctx, input.sprint_id);
+  if (!sprint.success) {
+    return sprint;
+  }
+
+  const { data: tasks, error } = await repo.listTasks({ taskIds: input.task_ids });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to get tasks: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const found = new Set(tasks.map((t) => t.id));
+  const missing = input.task_ids.filter((id) => !found.has(id));
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `Task(s) not found: ${missing.join(', ')}`,
+      code: 'TASK_NOT_FOUND',
+    };
+  }
+
+  const elsewhere = tasks.filter((t) => t.project_id !== sprint.data.project_id);
+  if (elsewhere.length > 0) {
+    return {
+      success: false,
+      error: `Task(s) from another project can't join this sprint: ${elsewhere.map((t) => t.id).join(', ')}`,
+      code: 'TASK_NOT_IN_PROJECT',
+    };
+  }
+
+  const result = await applyUpdates(
+    ctx,
+    'add_tasks_to_sprint',
+    input.task_ids.map((taskId) => ({ taskId, updates: { sprint_id: sprint.data.id } })),
+    (_before, after) => `Added "${after.title}" to sprint "${sprint.data.name}"`,
+    'Added'
+  );
+
+  return result.success ? { ...result, message: `${result.message} to sprint "${sprint.data.name}"` } : result;
+}
+
+/**
+ * Close a sprint. Unfinished tasks move to the next open sprint of the
+ * project, or to the backlog (out of any sprint, keeping their status).
+ */
+export async function closeSprint(ctx: ToolContext, input: CloseSprintInput): Promise<ToolResult<CloseSprintResult>> {
+  const { repo } = ctx;
+
+  const sprint = await getOpenSprint(ctx, input.sprint_id);
+  if (!sprint.success) {
+    return sprint;
+  }
+
+  const { data: openSprints, error: sprintError } = await repo.listSprints({
+    projectIds: [sprint.data.project_id],
+    open: true,
+  });
+  const { data: tasks, error: taskError } = await repo.listTasks({ sprintIds: [sprint.data.id] });
+
+  if (sprintError || taskError) {
+    return {
+      success: false,
+      error: `Failed to close sprint: ${(sprintError ?? taskError)?.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const next =
+    input.move_unfinished_to === 'backlog'
+      ? null
+      : openSprints.find((s) => s.id !== sprint.data.id && s.start_date >= sprint.data.start_date) ?? null;
+
+  if (input.move_unfinished_to === 'next_sprint' && !next) {
+    return {
+      success: false,
+      error: `There is no open sprint after "${sprint.data.name}" to move unfinished tasks to.`,
+      code: 'NO_NEXT_SPRINT',
+    };
+  }
+
+  const unfinished = tasks.filter((t) => t.status !== 'done');
+  const updates: TaskUpdate = { sprint_id: next?.id ?? null };
+  const warnings: string[] = [];
+  const moved: string[] = [];
+
+  if (unfinished.length > 0) {
+    const result = await applyUpdates(
+      ctx,
+      'close_sprint',
+      unfinished.map((t) => ({ taskId: t.id, updates })),
+      (_before, after) => `Moved "${after.title}" to ${next ? `sprint "${next.name}"` : 'the backlog'}`,
+      'Moved'
+    );
+
+    if (!result.success) {
+      return result;
+    }
+
+    result.data.forEach((item, i) => {
+      if (item.success) {
+        moved.push(item.data.id);
+      } else {
+        warnings.push(`"${unfinished[i].title}" was not moved: ${item.error}`);
+      }
+    });
+  }
+
+  const now = new Date().toISOString();
+  const { data: closed, error } = await repo.updateSprint(sprint.data.id, { closed_at: now, updated_at: now });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to close sprint: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const completed = tasks.length - unfinished.length;
+  const destination = next ? `sprint "${next.name}"` : 'the backlog';
+
+  return {
+    success: true,
+    data: { sprint: closed, next_sprint: next, completed, moved_task_ids: moved },
+    message: `Closed sprint "${closed.name}": ${completed} task(s) done, ${moved.length} moved to ${destination}`,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function getOpenSprint(ctx: ToolContext, sprintId: string): Promise<ToolResult<SprintRow>> {
+  const { data: sprint } = await ctx.repo.getSprint(sprintId);
+
+  if (!sprint) {
+    return sprintNotFound(sprintId);
+  }
+
+  if (sprint.closed_at) {
+    return {
+      success: false,
+      error: `Sprint "${sprint.name}" is already closed.`,
+      code: 'SPRINT_CLOSED',
+    };
+  }
+
+  return { success: true, data: sprint };
+}
+
+function sprintNotFound<T>(sprintId: string): ToolResult<T> {
+  return {
+    success: false,
+    error: `Sprint with ID "${sprintId}" not found.`,
+    code: 'SPRINT_NOT_FOUND',
+  };
+}
+
+function countTasks(tasks: TaskRow[]): TaskCounts {
+  const counts = { total: tasks.length } as TaskCounts;
+
+  for (const status of TASK_STATUSES) {
+    counts[status] = tasks.filter((t) => t.status === status).length;
+  }
+
+  return counts;
+}
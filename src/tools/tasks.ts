@@ -3,40 +3,90 @@
  *
  * Provides CRUD operations for tasks:
  * - create_task: Create a new task in a project
+ * - create_subtask: Add a subtask (checklist item) to a task
+ * - toggle_checklist_item: Check off a subtask, or reopen it
  * - update_task: Update task details
  * - move_task: Move task between kanban columns
- * - complete_task: Mark task as done
+ * - reorder_task: Move task up or down within its column
+ * - complete_task: Mark task as done, optionally leaving a note
  * - start_task: Move task to in-progress
- * - search_tasks: Search tasks by keyword
- * - get_task: Get a single task by ID
- * - delete_task: Delete a task
+ * - search_tasks: Ranked keyword search over titles, tags, descriptions and comments
+ * - get_task: Get a single task by ID, with its subtasks and recent comments
+ * - delete_task: Move a task to the trash
+ * - list_trash: List trashed tasks
+ * - restore_task: Take a task back out of the trash
+ * - purge_trash: Permanently delete tasks trashed a while ago
+ *
+ * Subtasks are ordinary tasks with a parent_task_id, one level deep, so they
+ * show up on the board like any other task.
+ *
+ * Within a kanban column, tasks are kept in `order` 0, 1, 2, ... so the
+ * order always matches the card's position on the board.
+ *
+ * Deleting a task only moves it to the trash. Trashed tasks are left out of
+ * lists, search and project progress until they are restored or purged.
+ *
+ * Moving a task into or out of in-progress starts or stops its timer (see
+ * time.ts).
+ *
+ * Assignees must be team members (see team.ts). Creating an unassigned
+ * high-priority task suggests who could take it (see workload.ts).
+ *
+ * Due dates may be relative ("next friday", "end of sprint"); they are
+ * stored as ISO dates in the workspace's time zone (see deadlines.ts).
+ *
+ * Every change is recorded in the activity log (see activity.ts).
  */
 
-import { getSupabase, getDefaultWorkspaceId, validateProjectId, validateTaskId } from '../supabase/client.js';
-import { syncProjectProgress } from './projects.js';
+import { validateProjectId } from '../repository/index.js';
+import { changesProgress, getScopeProjects, syncProjectProgress } from './projects.js';
+import { recordActivity, recordActivities } from './activity.js';
+import { findBlockedMoves } from './dependencies.js';
+import { RECENT_COMMENT_LIMIT, addTaskComment } from './comments.js';
+import { syncTimer } from './time.js';
+import { assigneeFields, resolveAssignee } from './team.js';
+import { resolveDueDate } from './deadlines.js';
+import { describeSuggestion, needsAssigneeSuggestion, suggestAssignee } from './workload.js';
 import type {
+  ActivityAction,
   TaskRow,
-  TaskWithProject,
+  TaskSearchResult,
+  TaskWithSubtasks,
+  SubtaskCompletion,
   CreateTaskInput,
+  CreateSubtaskInput,
+  ToggleChecklistItemInput,
   UpdateTaskInput,
   MoveTaskInput,
   SearchTasksInput,
+  ReorderTaskInput,
+  ListTrashInput,
+  PurgeTrashInput,
   ToolResult,
   TaskStatus,
 } from '../types/index.js';
+import { TASK_STATUSES } from '../types/index.js';
+import type { RepoResult, TaskFilter, TaskUpdate } from '../repository/index.js';
+import type { ToolContext } from './context.js';
+
+/** Trashed tasks older than this are purged when no age is given */
+const DEFAULT_PURGE_AGE_DAYS = 30;
+
+/** Words of a search query beyond this many are ignored */
+const MAX_SEARCH_TERMS = 10;
 
 /**
- * Get the next order number for a task in a project.
+ * Get the next order number for a task at the bottom of a kanban column.
  */
-async function getNextTaskOrder(projectId: string): Promise<number> {
-  const supabase = getSupabase();
+export async function getNextTaskOrder(ctx: ToolContext, projectId: string, status: TaskStatus): Promise<number> {
+  const { repo } = ctx;
 
-  const { data } = await supabase
-    .from('tasks')
-    .select('order')
-    .eq('project_id', projectId)
-    .order('order', { ascending: false })
-    .limit(1);
+  const { data } = await repo.listTasks({
+    projectIds: [projectId],
+    statuses: [status],
+    orderBy: [{ column: 'order', ascending: false }],
+    limit: 1,
+  });
 
   if (data && data.length > 0) {
     return (data[0].order || 0) + 1;
@@ -44,14 +94,61 @@ async function getNextTaskOrder(projectId: string): Promise<number> {
   return 0;
 }
 
+/**
+ * Collect the fields an update_task style input sets. The assignee and due
+ * date are left out; they have to be resolved against the team (see
+ * team.ts) and the workspace's calendar (see deadlines.ts) first.
+ */
+export function buildTaskUpdate(input: Omit<UpdateTaskInput, 'task_id'>): TaskUpdate {
+  const updates: TaskUpdate = {};
+
+  if (input.title !== undefined) updates.title = input.title;
+  if (input.description !== undefined) updates.description = input.description;
+  if (input.status !== undefined) updates.status = input.status;
+  if (input.priority !== undefined) updates.priority = input.priority;
+  if (input.tags !== undefined) updates.tags = input.tags;
+  if (input.estimate !== undefined) updates.estimate = input.estimate;
+
+  return updates;
+}
+
+/**
+ * Record a task change in the activity log, under the task's workspace.
+ */
+async function recordTaskActivity(
+  ctx: ToolContext,
+  action: ActivityAction,
+  tool: string,
+  before: TaskRow | null,
+  after: TaskRow | null
+): Promise<void> {
+  const task = (after ?? before) as TaskRow;
+  const { data: project } = await ctx.repo.getProject(task.project_id);
+
+  if (!project) {
+    return;
+  }
+
+  await recordActivity(ctx, {
+    entityType: 'task',
+    entityId: task.id,
+    projectId: task.project_id,
+    workspaceId: project.workspace_id,
+    action,
+    tool,
+    before,
+    after,
+  });
+}
+
 /**
  * Create a new task in a project.
  */
-export async function createTask(input: CreateTaskInput): Promise<ToolResult<TaskRow>> {
-  const supabase = getSupabase();
+export async function createTask(ctx: ToolContext, input: CreateTaskInput): Promise<ToolResult<TaskRow>> {
+  const { repo } = ctx;
 
-  const isValidProject = await validateProjectId(input.project_id);
-  if (!isValidProject) {
+  const { data: project } = await repo.getProject(input.project_id);
+  if (!project) {
     return {
       success: false,
       error: `Project with ID "${input.project_id}" not found.`,
@@ -59,26 +156,38 @@ export async function createTask(input: CreateTaskInput): Promise<ToolResult<Tas
     };
   }
 
+  const member = await resolveAssignee(ctx, project.workspace_id, input.assignee ?? '');
+  if (!member.success) {
+    return member;
+  }
+
+  let dueDate: string | null = null;
+  if (input.due_date) {
+    const resolved = await resolveDueDate(ctx, input.due_date, { workspaceId: project.workspace_id, projectId: project.id });
+    if (!resolved.success) {
+      return resolved;
+    }
+    dueDate = resolved.data;
+  }
+
   const now = new Date().toISOString();
-  const order = await getNextTaskOrder(input.project_id);
-
-  const { data, error } = await supabase
-    .from('tasks')
-    .insert({
-      project_id: input.project_id,
-      title: input.title,
-      description: input.description || null,
-      status: input.status || 'todo',
-      priority: input.priority || 'medium',
-      assignee: input.assignee || null,
-      due_date: input.due_date || null,
-      tags: input.tags || null,
-      order,
-      created_at: now,
-      updated_at: now,
-    })
-    .select()
-    .single();
+  const order = await getNextTaskOrder(ctx, input.project_id, input.status || 'todo');
+
+  const { data, error } = await repo.createTask({
+    project_id: input.project_id,
+    title: input.title,
+    description: input.description || null,
+    status: input.status || 'todo',
+    priority: input.priority || 'medium',
+    ...assigneeFields(member.data),
+    due_date: dueDate,
+    tags: input.tags || null,
+    estimate: input.estimate ?? null,
+    parent_task_id: input.parent_task_id || null,
+    order,
+    created_at: now,
+    updated_at: now,
+  });
 
   if (error) {
     return {
@@ -88,89 +197,184 @@ export async function createTask(input: CreateTaskInput): Promise<ToolResult<Tas
     };
   }
 
+  await recordTaskActivity(ctx, 'create', 'create_task', null, data);
+
   // Sync project progress after creating task
-  await syncProjectProgress(input.project_id);
+  await syncProjectProgress(ctx, input.project_id);
+
+  let message = `Created task "${data.title}" in ${input.status || 'todo'} column`;
+
+  // Point unassigned urgent work at whoever has room for it
+  if (needsAssigneeSuggestion(data)) {
+    const suggestion = await suggestAssignee(ctx, project.workspace_id);
+    if (suggestion) {
+      message += `. It is unassigned: ${describeSuggestion(suggestion)}`;
+    }
+  }
 
   return {
     success: true,
-    data: data as TaskRow,
-    message: `Created task "${data.title}" in ${input.status || 'todo'} column`,
+    data,
+    message,
   };
 }
 
 /**
- * Get a single task by ID.
+ * Add a subtask to a task. The subtask goes in the parent's project, in the
+ * todo column.
  */
-export async function getTask(taskId: string): Promise<ToolResult<TaskWithProject>> {
-  const supabase = getSupabase();
-
-  const { data, error } = await supabase
-    .from('tasks')
-    .select(`
-      *,
-      project:projects (
-        id,
-        name,
-        workspace_id
-      )
-    `)
-    .eq('id', taskId)
-    .single();
+export async function createSubtask(ctx: ToolContext, input: CreateSubtaskInput): Promise<ToolResult<TaskRow>> {
+  const { repo } = ctx;
 
-  if (error) {
+  const found = await getUntrashedTask(ctx, input.parent_task_id, 'adding subtasks');
+  if (!found.success) {
+    return found;
+  }
+  const parent = found.data;
+
+  if (parent.parent_task_id) {
     return {
       success: false,
-      error: `Task with ID "${taskId}" not found.`,
-      code: 'TASK_NOT_FOUND',
+      error: `Task "${parent.title}" is itself a subtask. Add the subtask to its parent (${parent.parent_task_id}) instead.`,
+      code: 'SUBTASK_NESTING',
     };
   }
 
+  const result = await createTask(ctx, { ...input, project_id: parent.project_id, status: 'todo' });
+
+  if (!result.success) {
+    return result;
+  }
+
   return {
     success: true,
-    data: data as TaskWithProject,
-    message: `Task: "${data.title}"`,
+    data: result.data,
+    message: `Added subtask "${result.data.title}" to "${parent.title}"`,
   };
 }
 
 /**
- * Update an existing task.
+ * Get a single task by ID, with its subtasks, how many of them are done, and
+ * its most recent comments.
  */
-export async function updateTask(input: UpdateTaskInput): Promise<ToolResult<TaskRow>> {
-  const supabase = getSupabase();
+export async function getTask(ctx: ToolContext, taskId: string): Promise<ToolResult<TaskWithSubtasks>> {
+  const { repo } = ctx;
 
-  // Get current task to check project_id for progress sync
-  const { data: currentTask, error: fetchError } = await supabase
-    .from('tasks')
-    .select('project_id')
-    .eq('id', input.task_id)
-    .single();
+  const { data, error } = await repo.getTask(taskId);
 
-  if (fetchError || !currentTask) {
+  if (error || !data) {
     return {
       success: false,
-      error: `Task with ID "${input.task_id}" not found.`,
+      error: `Task with ID "${taskId}" not found.`,
       code: 'TASK_NOT_FOUND',
     };
   }
 
-  const updates: Record<string, unknown> = {
+  const { data: project } = await repo.getProject(data.project_id);
+  // Subtasks created together share a timestamp; their order keeps them as given
+  const { data: subtasks } = await repo.listTasks({
+    parentTaskIds: [taskId],
+    orderBy: [
+      { column: 'created_at', ascending: true },
+      { column: 'order', ascending: true },
+    ],
+  });
+
+  const { data: comments } = await repo.listComments({ taskIds: [taskId], limit: RECENT_COMMENT_LIMIT });
+
+  const completion = getSubtaskCompletion(subtasks ?? []);
+
+  return {
+    success: true,
+    data: {
+      ...data,
+      project: {
+        id: data.project_id,
+        name: project?.name ?? '',
+        workspace_id: project?.workspace_id ?? '',
+      },
+      subtasks: subtasks ?? [],
+      completion,
+      comments: comments ?? [],
+    },
+    message: `Task: "${data.title}"${completion ? ` (${completion.done}/${completion.total} subtasks done)` : ''}`,
+  };
+}
+
+/**
+ * Update an existing task.
+ */
+export async function updateTask(ctx: ToolContext, input: UpdateTaskInput): Promise<ToolResult<TaskRow>> {
+  const { repo } = ctx;
+
+  // Get current task to check project_id for progress sync
+  const current = await getUntrashedTask(ctx, input.task_id, 'updating it');
+  if (!current.success) {
+    return current;
+  }
+  const currentTask = current.data;
+
+  const updates: TaskUpdate = {
+    ...buildTaskUpdate(input),
     updated_at: new Date().toISOString(),
   };
 
-  if (input.title !== undefined) updates.title = input.title;
-  if (input.description !== undefined) updates.description = input.description;
-  if (input.status !== undefined) updates.status = input.status;
-  if (input.priority !== undefined) updates.priority = input.priority;
-  if (input.assignee !== undefined) updates.assignee = input.assignee;
-  if (input.due_date !== undefined) updates.due_date = input.due_date;
-  if (input.tags !== undefined) updates.tags = input.tags;
+  if (input.assignee !== undefined || input.due_date) {
+    const { data: project } = await repo.getProject(currentTask.project_id);
+    const workspaceId = project?.workspace_id ?? '';
+
+    if (input.assignee !== undefined) {
+      const member = await resolveAssignee(ctx, workspaceId, input.assignee);
+      if (!member.success) {
+        return member;
+      }
+      Object.assign(updates, assigneeFields(member.data));
+    }
+
+    if (input.due_date) {
+      const dueDate = await resolveDueDate(ctx, input.due_date, {
+        workspaceId,
+        projectId: currentTask.project_id,
+        sprintId: currentTask.sprint_id,
+      });
+      if (!dueDate.success) {
+        return dueDate;
+      }
+      updates.due_date = dueDate.data;
+    }
+  }
 
-  const { data, error } = await supabase
-    .from('tasks')
-    .update(updates)
-    .eq('id', input.task_id)
-    .select()
-    .single();
+  if (input.due_date === null) {
+    updates.due_date = null;
+  }
+
+  // A task changing columns goes to the bottom of its new column, closing
+  // the gap it leaves, as move_task does
+  const moving = updates.status !== undefined && updates.status !== currentTask.status;
+  const warnings: string[] = [];
+
+  if (moving) {
+    const { data: blocked, error: blockerError } = await findBlockedMoves(ctx, [
+      { task: currentTask, status: updates.status as TaskStatus },
+    ]);
+
+    if (blockerError) {
+      return {
+        success: false,
+        error: `Failed to check dependencies: ${blockerError.message}`,
+        code: 'DATABASE_ERROR',
+      };
+    }
+
+    const blockers = blocked.get(currentTask.id);
+    if (blockers) {
+      warnings.push(blockers);
+    }
+  }
+
+  const { data, error } = moving
+    ? await placeTask(ctx, currentTask, updates.status as TaskStatus, undefined, 'update_task', updates)
+    : await repo.updateTask(input.task_id, updates);
 
   if (error) {
     return {
@@ -180,60 +384,80 @@ export async function updateTask(input: UpdateTaskInput): Promise<ToolResult<Tas
     };
   }
 
-  // Sync project progress if status changed
-  if (input.status !== undefined) {
-    await syncProjectProgress(currentTask.project_id);
+  if (!moving) {
+    await recordTaskActivity(ctx, 'update', 'update_task', currentTask, data);
+  }
+
+  // Sync project progress if status, estimate or priority changed
+  if (changesProgress(currentTask, data)) {
+    await syncProjectProgress(ctx, currentTask.project_id);
+  }
+
+  const timerWarning = await syncTimer(ctx, currentTask, data);
+  if (timerWarning) {
+    warnings.push(timerWarning);
   }
 
   return {
     success: true,
-    data: data as TaskRow,
+    data,
     message: `Updated task "${data.title}"`,
+    ...(warnings.length > 0 && { warnings }),
   };
 }
 
 /**
- * Move a task to a different kanban column (status).
+ * Move a task to a different kanban column (status), at the bottom of the
+ * column unless a position is given.
  */
-export async function moveTask(input: MoveTaskInput): Promise<ToolResult<TaskRow>> {
-  const supabase = getSupabase();
+export async function moveTask(ctx: ToolContext, input: MoveTaskInput): Promise<ToolResult<TaskRow>> {
+  const { repo } = ctx;
 
   // Validate the status
-  const validStatuses: TaskStatus[] = ['backlog', 'todo', 'in-progress', 'review', 'done'];
-  if (!validStatuses.includes(input.new_status)) {
+  if (!TASK_STATUSES.includes(input.new_status)) {
     return {
       success: false,
-      error: `Invalid status "${input.new_status}". Valid statuses: ${validStatuses.join(', ')}`,
+      error: `Invalid status "${input.new_status}". Valid statuses: ${TASK_STATUSES.join(', ')}`,
       code: 'INVALID_STATUS',
     };
   }
 
   // Get current task for project_id
-  const { data: currentTask, error: fetchError } = await supabase
-    .from('tasks')
-    .select('project_id, title, status')
-    .eq('id', input.task_id)
-    .single();
+  const current = await getUntrashedTask(ctx, input.task_id, 'moving it');
+  if (!current.success) {
+    return current;
+  }
+  const currentTask = current.data;
+
+  const previousStatus = currentTask.status;
+  const warnings: string[] = [];
+
+  // Starting or finishing a task before its dependencies are done
+  const { data: blocked, error: blockerError } = await findBlockedMoves(ctx, [
+    { task: currentTask, status: input.new_status },
+  ]);
 
-  if (fetchError || !currentTask) {
+  if (blockerError) {
     return {
       success: false,
-      error: `Task with ID "${input.task_id}" not found.`,
-      code: 'TASK_NOT_FOUND',
+      error: `Failed to check dependencies: ${blockerError.message}`,
+      code: 'DATABASE_ERROR',
     };
   }
 
-  const previousStatus = currentTask.status;
+  const blockers = blocked.get(currentTask.id);
+  if (blockers) {
+    if (input.strict) {
+      return {
+        success: false,
+        error: `Cannot move to ${input.new_status}: ${blockers}.`,
+        code: 'TASK_BLOCKED',
+      };
+    }
+    warnings.push(blockers);
+  }
 
-  const { data, error } = await supabase
-    .from('tasks')
-    .update({
-      status: input.new_status,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', input.task_id)
-    .select()
-    .single();
+  const { data, error } = await placeTask(ctx, currentTask, input.new_status, input.position, 'move_task');
 
   if (error) {
     return {
@@ -244,151 +468,389 @@ export async function moveTask(input: MoveTaskInput): Promise<ToolResult<TaskRow
   }
 
   // Sync project progress
-  await syncProjectProgress(currentTask.project_id);
+  await syncProjectProgress(ctx, currentTask.project_id);
+
+  const timerWarning = await syncTimer(ctx, currentTask, data);
+  if (timerWarning) {
+    warnings.push(timerWarning);
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Moved "${data.title}" from ${previousStatus} → ${input.new_status} (position ${data.order})`,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+/**
+ * Move a task within its column: directly before or after another task in
+ * the same column, or to a position (0 = top).
+ */
+export async function reorderTask(ctx: ToolContext, input: ReorderTaskInput): Promise<ToolResult<TaskRow>> {
+  const current = await getUntrashedTask(ctx, input.task_id, 'reordering it');
+  if (!current.success) {
+    return current;
+  }
+  const task = current.data;
+
+  let position = input.position;
+  const anchorId = input.before_task_id ?? input.after_task_id;
+
+  if (anchorId) {
+    const { data: column, error: columnError } = await getColumnTasks(ctx, task.project_id, task.status);
+
+    if (columnError) {
+      return {
+        success: false,
+        error: `Failed to reorder task: ${columnError.message}`,
+        code: 'DATABASE_ERROR',
+      };
+    }
+
+    const anchorIndex = column.filter((t) => t.id !== task.id).findIndex((t) => t.id === anchorId);
+    if (anchorIndex === -1) {
+      return {
+        success: false,
+        error: `Task "${anchorId}" is not in the ${task.status} column with task "${task.title}".`,
+        code: 'TASK_NOT_IN_COLUMN',
+      };
+    }
+
+    position = input.before_task_id ? anchorIndex : anchorIndex + 1;
+  }
+
+  const { data, error } = await placeTask(ctx, task, task.status, position, 'reorder_task');
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to reorder task: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Moved "${data.title}" to position ${data.order} in ${data.status}`,
+  };
+}
+
+/**
+ * Check off a subtask (move it to done), or reopen it (back to todo).
+ * Without `done`, the subtask is toggled.
+ */
+export async function toggleChecklistItem(
+  ctx: ToolContext,
+  input: ToggleChecklistItemInput
+): Promise<ToolResult<TaskRow>> {
+  const { repo } = ctx;
+
+  const found = await getUntrashedTask(ctx, input.task_id, 'checking it off');
+  if (!found.success) {
+    return found;
+  }
+  const task = found.data;
+
+  if (!task.parent_task_id) {
+    return {
+      success: false,
+      error: `Task "${task.title}" is not a subtask. Use complete_task or move_task instead.`,
+      code: 'NOT_A_SUBTASK',
+    };
+  }
+
+  const done = input.done ?? task.status !== 'done';
+  if (done === (task.status === 'done')) {
+    return {
+      success: true,
+      data: task,
+      message: `"${task.title}" is already ${done ? 'done' : 'open'}`,
+    };
+  }
+
+  const result = await moveTask(ctx, { task_id: task.id, new_status: done ? 'done' : 'todo' });
+
+  if (!result.success) {
+    return result;
+  }
+
+  const { data: siblings } = await repo.listTasks({ parentTaskIds: [task.parent_task_id] });
+  const completion = getSubtaskCompletion(siblings ?? []);
 
   return {
     success: true,
-    data: data as TaskRow,
-    message: `Moved "${data.title}" from ${previousStatus} → ${input.new_status}`,
+    data: result.data,
+    message: `${done ? 'Checked off' : 'Reopened'} "${task.title}"${completion ? ` (${completion.done}/${completion.total} subtasks done)` : ''}`,
   };
 }
 
 /**
- * Mark a task as complete (done).
+ * Mark a task as complete (done), optionally leaving a note as a comment.
+ * The task stays done if the note can't be saved; that is reported as a warning.
  */
-export async function completeTask(taskId: string): Promise<ToolResult<TaskRow>> {
-  return moveTask({ task_id: taskId, new_status: 'done' });
+export async function completeTask(ctx: ToolContext, taskId: string, note?: string): Promise<ToolResult<TaskRow>> {
+  const result = await moveTask(ctx, { task_id: taskId, new_status: 'done' });
+
+  if (!result.success || !note) {
+    return result;
+  }
+
+  const comment = await addTaskComment(ctx, { task_id: taskId, body: note });
+
+  if (!comment.success) {
+    return {
+      ...result,
+      warnings: [...(result.warnings ?? []), `The note was not saved: ${comment.error}`],
+    };
+  }
+
+  return { ...result, message: `${result.message}, with a note` };
 }
 
 /**
  * Start working on a task (move to in-progress).
+ * With `strict`, a task whose dependencies aren't done is not started.
  */
-export async function startTask(taskId: string): Promise<ToolResult<TaskRow>> {
-  return moveTask({ task_id: taskId, new_status: 'in-progress' });
+export async function startTask(ctx: ToolContext, taskId: string, strict?: boolean): Promise<ToolResult<TaskRow>> {
+  return moveTask(ctx, { task_id: taskId, new_status: 'in-progress', strict });
 }
 
 /**
  * Move a task to review.
  */
-export async function reviewTask(taskId: string): Promise<ToolResult<TaskRow>> {
-  return moveTask({ task_id: taskId, new_status: 'review' });
+export async function reviewTask(ctx: ToolContext, taskId: string): Promise<ToolResult<TaskRow>> {
+  return moveTask(ctx, { task_id: taskId, new_status: 'review' });
 }
 
 /**
- * Search for tasks by keyword.
+ * Search tasks by keyword, best match first. Every word of the query must
+ * appear, as the start of a word, in the title, tags, description or
+ * comments; title matches count most. Punctuation in the query only
+ * separates words.
  */
-export async function searchTasks(input: SearchTasksInput): Promise<ToolResult<TaskWithProject[]>> {
-  const supabase = getSupabase();
+export async function searchTasks(ctx: ToolContext, input: SearchTasksInput): Promise<ToolResult<TaskSearchResult[]>> {
+  const { repo } = ctx;
+
+  const terms = searchTerms(input.query);
+  if (terms.length === 0) {
+    return {
+      success: true,
+      data: [],
+      message: `"${input.query}" has no words to search for`,
+    };
+  }
 
-  let query = supabase
-    .from('tasks')
-    .select(`
-      *,
-      project:projects (
-        id,
-        name,
-        workspace_id
-      )
-    `)
-    .or(`title.ilike.%${input.query}%,description.ilike.%${input.query}%`);
+  const { data, error } = await repo.searchTasks({
+    terms,
+    workspaceId: input.workspace_id,
+    projectId: input.project_id,
+    status: input.status,
+    limit: input.limit || 20,
+  });
 
-  // Filter by project if provided
-  if (input.project_id) {
-    query = query.eq('project_id', input.project_id);
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to search tasks: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
   }
 
-  // Filter by workspace if provided (through project relationship)
-  if (input.workspace_id) {
-    query = query.eq('project.workspace_id', input.workspace_id);
+  return {
+    success: true,
+    data,
+    message: `Found ${data.length} task(s) matching "${input.query}"`,
+  };
+}
+
+/**
+ * The distinct lowercase words of a search query, letters and digits only,
+ * so nothing the user types reaches the database as query syntax.
+ */
+export function searchTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return [...new Set(words)].slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Delete a task by moving it to the trash.
+ */
+export async function deleteTask(ctx: ToolContext, taskId: string): Promise<ToolResult<TaskRow>> {
+  const { repo } = ctx;
+
+  // Get project_id first for progress sync
+  const { data: task, error: fetchError } = await repo.getTask(taskId);
+
+  if (fetchError || !task) {
+    return {
+      success: false,
+      error: `Task with ID "${taskId}" not found.`,
+      code: 'TASK_NOT_FOUND',
+    };
   }
 
-  // Filter by status if provided
-  if (input.status) {
-    query = query.eq('status', input.status);
+  if (task.deleted_at) {
+    return {
+      success: false,
+      error: `Task "${task.title}" is already in the trash. Use purge_trash to delete it permanently.`,
+      code: 'TASK_IN_TRASH',
+    };
   }
 
-  // Apply limit
-  query = query.limit(input.limit || 20);
+  return trashTask(ctx, task, 'delete_task');
+}
+
+/**
+ * Take a task back out of the trash.
+ */
+export async function restoreTask(ctx: ToolContext, taskId: string): Promise<ToolResult<TaskRow>> {
+  const { repo } = ctx;
+
+  const { data: task, error: fetchError } = await repo.getTask(taskId);
+
+  if (fetchError || !task) {
+    return {
+      success: false,
+      error: `Task with ID "${taskId}" not found.`,
+      code: 'TASK_NOT_FOUND',
+    };
+  }
 
-  // Order by updated_at
-  query = query.order('updated_at', { ascending: false });
+  if (!task.deleted_at) {
+    return {
+      success: false,
+      error: `Task "${task.title}" is not in the trash.`,
+      code: 'TASK_NOT_IN_TRASH',
+    };
+  }
 
-  const { data, error } = await query;
+  // Restored tasks go to the bottom of their column, since it may have been reordered since
+  const { data, error } = await repo.updateTask(taskId, {
+    deleted_at: null,
+    order: await getNextTaskOrder(ctx, task.project_id, task.status),
+    updated_at: new Date().toISOString(),
+  });
 
   if (error) {
     return {
       success: false,
-      error: `Failed to search tasks: ${error.message}`,
+      error: `Failed to restore task: ${error.message}`,
       code: 'DATABASE_ERROR',
     };
   }
 
-  // Filter out tasks where the project filter didn't match (due to Supabase join behavior)
-  const filteredData = input.workspace_id
-    ? data.filter((t: any) => t.project && t.project.workspace_id === input.workspace_id)
-    : data;
+  await recordTaskActivity(ctx, 'restore', 'restore_task', task, data);
+
+  await syncProjectProgress(ctx, task.project_id);
+
+  // A task trashed while in progress picks its timer back up
+  const timerWarning = await syncTimer(ctx, task, data);
 
   return {
     success: true,
-    data: filteredData as TaskWithProject[],
-    message: `Found ${filteredData.length} task(s) matching "${input.query}"`,
+    data,
+    message: `Restored task "${data.title}" from the trash`,
+    ...(timerWarning && { warnings: [timerWarning] }),
   };
 }
 
 /**
- * Delete a task.
+ * List trashed tasks in a workspace or project, most recently trashed first.
  */
-export async function deleteTask(taskId: string): Promise<ToolResult<{ deleted: boolean }>> {
-  const supabase = getSupabase();
+export async function listTrash(ctx: ToolContext, input: ListTrashInput): Promise<ToolResult<TaskRow[]>> {
+  const projects = await getScopeProjects(ctx, input);
+  if (!projects.success) {
+    return projects;
+  }
 
-  // Get project_id first for progress sync
-  const { data: task, error: fetchError } = await supabase
-    .from('tasks')
-    .select('project_id, title')
-    .eq('id', taskId)
-    .single();
+  const { data, error } = await fetchTrash(ctx, { projectIds: projects.data.map((p) => p.id), trash: 'only' });
 
-  if (fetchError || !task) {
+  if (error) {
     return {
       success: false,
-      error: `Task with ID "${taskId}" not found.`,
-      code: 'TASK_NOT_FOUND',
+      error: `Failed to list trash: ${error.message}`,
+      code: 'DATABASE_ERROR',
     };
   }
 
-  const { error } = await supabase
-    .from('tasks')
-    .delete()
-    .eq('id', taskId);
+  const tasks = input.limit ? data.slice(0, input.limit) : data;
 
-  if (error) {
+  return {
+    success: true,
+    data: tasks,
+    message: `Found ${tasks.length} task(s) in the trash`,
+  };
+}
+
+/**
+ * Permanently delete tasks that have been in the trash longer than the given
+ * number of days (default 30). Their history stays in the activity log.
+ */
+export async function purgeTrash(
+  ctx: ToolContext,
+  input: PurgeTrashInput
+): Promise<ToolResult<{ purged: number; task_ids: string[] }>> {
+  const { repo } = ctx;
+
+  const projects = await getScopeProjects(ctx, input);
+  if (!projects.success) {
+    return projects;
+  }
+
+  const days = input.older_than_days ?? DEFAULT_PURGE_AGE_DAYS;
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: tasks, error: listError } = await fetchTrash(ctx, {
+    projectIds: projects.data.map((p) => p.id),
+    deletedBefore: cutoff,
+  });
+
+  if (listError) {
     return {
       success: false,
-      error: `Failed to delete task: ${error.message}`,
+      error: `Failed to list trash: ${listError.message}`,
       code: 'DATABASE_ERROR',
     };
   }
 
-  // Sync project progress after deletion
-  await syncProjectProgress(task.project_id);
+  const purged: string[] = [];
+
+  for (const task of tasks) {
+    const { error } = await repo.deleteTask(task.id);
+
+    if (error) {
+      return {
+        success: false,
+        error: `Failed to purge task "${task.title}" after purging ${purged.length}: ${error.message}`,
+        code: 'DATABASE_ERROR',
+      };
+    }
+
+    await recordTaskActivity(ctx, 'delete', 'purge_trash', task, null);
+    purged.push(task.id);
+  }
 
   return {
     success: true,
-    data: { deleted: true },
-    message: `Deleted task "${task.title}"`,
+    data: { purged: purged.length, task_ids: purged },
+    message: `Permanently deleted ${purged.length} task(s) trashed more than ${days} day(s) ago`,
   };
 }
 
 /**
- * List tasks for a project with optional status filter.
+ * List tasks for a project with optional status filter, grouped by column
+ * in board order (backlog → done) and in board position within a column.
  */
 export async function listProjectTasks(
+  ctx: ToolContext,
   projectId: string,
   status?: TaskStatus
 ): Promise<ToolResult<TaskRow[]>> {
-  const supabase = getSupabase();
+  const { repo } = ctx;
 
-  const isValid = await validateProjectId(projectId);
+  const isValid = await validateProjectId(repo, projectId);
   if (!isValid) {
     return {
       success: false,
@@ -397,29 +859,245 @@ export async function listProjectTasks(
     };
   }
 
-  let query = supabase
-    .from('tasks')
-    .select('*')
-    .eq('project_id', projectId)
-    .order('order', { ascending: true });
+  const { data, error } = await repo.listTasks({
+    projectIds: [projectId],
+    statuses: status ? [status] : undefined,
+  });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to list tasks: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  // Tasks come back in board position; a stable sort keeps it within each column
+  const tasks = [...data].sort((a, b) => TASK_STATUSES.indexOf(a.status) - TASK_STATUSES.indexOf(b.status));
+
+  const counts = TASK_STATUSES
+    .map((s) => [s, tasks.filter((t) => t.status === s).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([s, count]) => `${count} ${s}`);
+
+  return {
+    success: true,
+    data: tasks,
+    message: `Found ${tasks.length} task(s)${status ? ` in ${status}` : counts.length > 0 ? `: ${counts.join(', ')}` : ''}`,
+  };
+}
+
+/**
+ * Count how many subtasks are done, or null if there are none.
+ */
+function getSubtaskCompletion(subtasks: TaskRow[]): SubtaskCompletion | null {
+  if (subtasks.length === 0) {
+    return null;
+  }
+
+  const done = subtasks.filter((t) => t.status === 'done').length;
+
+  return { done, total: subtasks.length, ratio: Math.round((done / subtasks.length) * 100) / 100 };
+}
+
+// ============================================================================
+// Column Ordering Helpers
+// ============================================================================
+
+/**
+ * Get the tasks in one kanban column of a project, top to bottom.
+ */
+async function getColumnTasks(ctx: ToolContext, projectId: string, status: TaskStatus): Promise<RepoResult<TaskRow[]>> {
+  return ctx.repo.listTasks({ projectIds: [projectId], statuses: [status] });
+}
+
+/**
+ * Put a task at `position` in the `status` column of its project (default:
+ * its current position, or the bottom when it changes column) and renumber
+ * the column 0..n-1. A column the task leaves is renumbered too, so no gap
+ * is left behind. Other `updates` to the task are written along with its
+ * move. Only tasks whose status or order changed are written, in a single
+ * batch, and each change is recorded in the activity log.
+ */
+async function placeTask(
+  ctx: ToolContext,
+  task: TaskRow,
+  status: TaskStatus,
+  position: number | undefined,
+  tool: string,
+  updates: TaskUpdate = {}
+): Promise<RepoResult<TaskRow>> {
+  const { data: column, error } = await getColumnTasks(ctx, task.project_id, status);
+  if (error) {
+    return { data: null, error };
+  }
+
+  const target = column.filter((t) => t.id !== task.id);
+  const currentIndex = task.status === status ? column.findIndex((t) => t.id === task.id) : -1;
+  const index = Math.min(Math.max(position ?? (currentIndex === -1 ? target.length : currentIndex), 0), target.length);
+  target.splice(index, 0, { ...task, ...updates, status });
+
+  const arranged = target.map((t, order) => ({ ...t, order }));
+  const originals = new Map([...column, task].map((t) => [t.id, t]));
+
+  if (task.status !== status) {
+    const { data: source, error: sourceError } = await getColumnTasks(ctx, task.project_id, task.status);
+    if (sourceError) {
+      return { data: null, error: sourceError };
+    }
+
+    const remaining = source.filter((t) => t.id !== task.id);
+    remaining.forEach((t) => originals.set(t.id, t));
+    arranged.push(...remaining.map((t, order) => ({ ...t, order })));
+  }
+
+  const { data: updated, error: updateError } = await saveArrangement(ctx, task.project_id, arranged, originals, tool);
+  if (updateError) {
+    return { data: null, error: updateError };
+  }
+
+  return { data: updated.find((t) => t.id === task.id) ?? task, error: null };
+}
+
+/**
+ * Renumber a kanban column 0..n-1 after tasks have left it, so no gaps are
+ * left behind. Used by the bulk tools and the trash, which take tasks out of
+ * columns without placing them one by one.
+ */
+export async function closeColumnGaps(
+  ctx: ToolContext,
+  projectId: string,
+  status: TaskStatus,
+  tool: string
+): Promise<RepoResult<TaskRow[]>> {
+  const { data: column, error } = await getColumnTasks(ctx, projectId, status);
+  if (error) {
+    return { data: null, error };
+  }
+
+  const originals = new Map(column.map((t) => [t.id, t]));
+  return saveArrangement(ctx, projectId, column.map((t, order) => ({ ...t, order })), originals, tool);
+}
+
+/**
+ * Write the tasks of an arrangement whose status or order differs from
+ * `originals`, in a single batch, and record each change in the activity
+ * log. Returns the tasks written.
+ */
+async function saveArrangement(
+  ctx: ToolContext,
+  projectId: string,
+  arranged: TaskRow[],
+  originals: Map<string, TaskRow>,
+  tool: string
+): Promise<RepoResult<TaskRow[]>> {
+  const now = new Date().toISOString();
+  const changed = arranged
+    .filter((t) => {
+      const original = originals.get(t.id) as TaskRow;
+      return t.order !== original.order || t.status !== original.status;
+    })
+    .map((t) => ({ ...t, updated_at: now }));
+
+  if (changed.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const { data: updated, error: updateError } = await ctx.repo.updateTasks(changed);
+  if (updateError) {
+    return { data: null, error: updateError };
+  }
+
+  const { data: project } = await ctx.repo.getProject(projectId);
+  if (project) {
+    await recordActivities(ctx, updated.map((t) => ({
+      entityType: 'task' as const,
+      entityId: t.id,
+      projectId: t.project_id,
+      workspaceId: project.workspace_id,
+      action: 'update' as const,
+      tool,
+      before: originals.get(t.id) ?? null,
+      after: t,
+    })));
+  }
+
+  return { data: updated, error: null };
+}
+
+// ============================================================================
+// Trash Helpers
+// ============================================================================
+
+/**
+ * Get a task to change. Tasks in the trash can only be restored, so they
+ * are refused with TASK_IN_TRASH.
+ */
+async function getUntrashedTask(ctx: ToolContext, taskId: string, doing: string): Promise<ToolResult<TaskRow>> {
+  const { data: task, error } = await ctx.repo.getTask(taskId);
+
+  if (error || !task) {
+    return {
+      success: false,
+      error: `Task with ID "${taskId}" not found.`,
+      code: 'TASK_NOT_FOUND',
+    };
+  }
 
-  if (status) {
-    query = query.eq('status', status);
+  if (task.deleted_at) {
+    return {
+      success: false,
+      error: `Task "${task.title}" is in the trash. Restore it before ${doing}.`,
+      code: 'TASK_IN_TRASH',
+    };
   }
 
-  const { data, error } = await query;
+  return { success: true, data: task };
+}
+
+/**
+ * Move a task to the trash, closing the gap it leaves in its column and
+ * stopping its timer. Also used by undo to take back a created task.
+ */
+export async function trashTask(ctx: ToolContext, task: TaskRow, tool: string): Promise<ToolResult<TaskRow>> {
+  const now = new Date().toISOString();
+  const { data, error } = await ctx.repo.updateTask(task.id, { deleted_at: now, updated_at: now });
 
   if (error) {
     return {
       success: false,
-      error: `Failed to list tasks: ${error.message}`,
+      error: `Failed to delete task: ${error.message}`,
       code: 'DATABASE_ERROR',
     };
   }
 
+  await recordTaskActivity(ctx, 'trash', tool, task, data);
+  await closeColumnGaps(ctx, task.project_id, task.status, tool);
+
+  // Sync project progress after deletion
+  await syncProjectProgress(ctx, task.project_id);
+
+  // A trashed task isn't being worked on, so its timer stops
+  const timerWarning = await syncTimer(ctx, task, data);
+
   return {
     success: true,
-    data: data as TaskRow[],
-    message: `Found ${data.length} task(s)${status ? ` in ${status}` : ''}`,
+    data,
+    message: `Moved task "${task.title}" to the trash`,
+    ...(timerWarning && { warnings: [timerWarning] }),
   };
 }
+
+/**
+ * Fetch trashed tasks in the given projects, most recently trashed first.
+ */
+async function fetchTrash(ctx: ToolContext, filter: TaskFilter): Promise<RepoResult<TaskRow[]>> {
+  if (filter.projectIds?.length === 0) {
+    return { data: [], error: null };
+  }
+
+  return ctx.repo.listTasks({
+    ...filter,
+    orderBy: [{ column: 'deleted_at', ascending: false }],
+  });
+}
@@ -0,0 +1,389 @@
+/**
+ * Team Tools for Limitless Canvas MCP Server
+ *
+ * Team members are the people in a workspace that tasks can be assigned to.
+ *
+ * Provides:
+ * - list_team_members: List a workspace's team members by name
+ * - get_team_member: Get a team member with their unfinished tasks
+ * - add_team_member: Add a person to a workspace's team
+ * - update_team_member: Change a team member's details
+ *
+ * Task assignees are resolved against the team of the task's workspace by
+ * ID, email, full name or first name (ignoring case). Tasks store the
+ * member's ID in `assignee_id` and their current name in `assignee`, so an
+ * unknown or ambiguous assignee is refused rather than stored as free text.
+ */
+
+import { getDefaultWorkspaceId, validateWorkspaceId } from '../repository/index.js';
+import type { TeamMemberUpdate } from '../repository/index.js';
+import { applyUpdates } from './bulk.js';
+import type { ToolContext } from './context.js';
+import type {
+  AddTeamMemberInput,
+  TaskRow,
+  TeamMemberRow,
+  TeamMemberWithTasks,
+  ToolResult,
+  UpdateTeamMemberInput,
+} from '../types/index.js';
+import { TASK_STATUSES } from '../types/index.js';
+
+const DEFAULT_ROLE = 'member';
+
+/**
+ * Looks up an assignee in a workspace's team. Resolves to null for an
+ * empty assignee, which unassigns the task.
+ */
+export type AssigneeResolver = (workspaceId: string, assignee: string) => Promise<ToolResult<TeamMemberRow | null>>;
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * List a workspace's team members by name.
+ */
+export async function listTeamMembers(ctx: ToolContext, workspaceId?: string): Promise<ToolResult<TeamMemberRow[]>> {
+  const workspace = await resolveWorkspaceId(ctx, workspaceId);
+  if (!workspace.success) {
+    return workspace;
+  }
+
+  const { data, error } = await ctx.repo.listTeamMembers(workspace.data);
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to list team members: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Found ${data.length} team member(s)`,
+  };
+}
+
+/**
+ * Get a team member with the unfinished tasks assigned to them.
+ */
+export async function getTeamMember(ctx: ToolContext, memberId: string): Promise<ToolResult<TeamMemberWithTasks>> {
+  const { repo } = ctx;
+
+  const { data: member } = await repo.getTeamMember(memberId);
+  if (!member) {
+    return memberNotFound(memberId);
+  }
+
+  const { data: tasks, error } = await repo.listTasks({
+    assigneeIds: [member.id],
+    statuses: TASK_STATUSES.filter((s) => s !== 'done'),
+  });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to get assigned tasks: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data: { ...member, open_tasks: tasks },
+    message: `${member.name} (${member.role}) has ${tasks.length} unfinished task(s)`,
+  };
+}
+
+/**
+ * Add a person to a workspace's team. Emails are unique within a workspace.
+ */
+export async function addTeamMember(ctx: ToolContext, input: AddTeamMemberInput): Promise<ToolResult<TeamMemberRow>> {
+  const { repo } = ctx;
+
+  const workspace = await resolveWorkspaceId(ctx, input.workspace_id);
+  if (!workspace.success) {
+    return workspace;
+  }
+
+  const team = await loadTeam(ctx, workspace.data);
+  if (!team.success) {
+    return team;
+  }
+
+  const taken = findByEmail(team.data, input.email);
+  if (taken) {
+    return emailTaken(taken);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await repo.createTeamMember({
+    workspace_id: workspace.data,
+    name: input.name,
+    email: input.email,
+    role: input.role || DEFAULT_ROLE,
+    avatar: null,
+    department: input.department || null,
+    status: 'active',
+    created_at: now,
+    updated_at: now,
+  });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to add team member: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Added ${data.name} <${data.email}> to the team (ID: ${data.id})`,
+  };
+}
+
+/**
+ * Change a team member's details. A new name is copied to the tasks
+ * assigned to them.
+ */
+export async function updateTeamMember(
+  ctx: ToolContext,
+  input: UpdateTeamMemberInput
+): Promise<ToolResult<TeamMemberRow>> {
+  const { repo } = ctx;
+
+  const { data: member } = await repo.getTeamMember(input.member_id);
+  if (!member) {
+    return memberNotFound(input.member_id);
+  }
+
+  if (input.email !== undefined) {
+    const team = await loadTeam(ctx, member.workspace_id);
+    if (!team.success) {
+      return team;
+    }
+
+    const taken = findByEmail(team.data, input.email);
+    if (taken && taken.id !== member.id) {
+      return emailTaken(taken);
+    }
+  }
+
+  const updates: TeamMemberUpdate = { updated_at: new Date().toISOString() };
+  if (input.name !== undefined) updates.name = input.name;
+  if (input.email !== undefined) updates.email = input.email;
+  if (input.role !== undefined) updates.role = input.role;
+  if (input.department !== undefined) updates.department = input.department;
+  if (input.status !== undefined) updates.status = input.status;
+
+  const { data, error } = await repo.updateTeamMember(member.id, updates);
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to update team member: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const warnings: string[] = [];
+
+  if (data.name !== member.name) {
+    const renamed = await renameAssignee(ctx, data);
+    if (renamed) {
+      warnings.push(renamed);
+    }
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Updated team member ${data.name}`,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+// ============================================================================
+// Assignees
+// ============================================================================
+
+/**
+ * Create an assignee resolver that loads each workspace's team once, for
+ * tools that assign many tasks.
+ */
+export function assigneeResolver(ctx: ToolContext): AssigneeResolver {
+  const teams = new Map<string, TeamMemberRow[]>();
+
+  return async (workspaceId, assignee) => {
+    const query = assignee.trim();
+    if (!query) {
+      return { success: true, data: null };
+    }
+
+    let members = teams.get(workspaceId);
+    if (!members) {
+      const team = await loadTeam(ctx, workspaceId);
+      if (!team.success) {
+        return team;
+      }
+      members = team.data;
+      teams.set(workspaceId, members);
+    }
+
+    return matchMember(members, query);
+  };
+}
+
+/**
+ * Look up one assignee in a workspace's team.
+ */
+export async function resolveAssignee(
+  ctx: ToolContext,
+  workspaceId: string,
+  assignee: string
+): Promise<ToolResult<TeamMemberRow | null>> {
+  return assigneeResolver(ctx)(workspaceId, assignee);
+}
+
+/**
+ * The task fields that assign it to a member, or unassign it.
+ */
+export function assigneeFields(member: TeamMemberRow | null): Pick<TaskRow, 'assignee' | 'assignee_id'> {
+  return { assignee: member?.name ?? null, assignee_id: member?.id ?? null };
+}
+
+/**
+ * Match by ID, then email, then full name, then first name. The first rule
+ * with any match decides; more than one match there is ambiguous.
+ */
+function matchMember(members: TeamMemberRow[], query: string): ToolResult<TeamMemberRow> {
+  const lower = query.toLowerCase();
+  const rules: ((member: TeamMemberRow) => boolean)[] = [
+    (m) => m.id === query,
+    (m) => m.email.toLowerCase() === lower,
+    (m) => m.name.toLowerCase() === lower,
+    (m) => m.name.toLowerCase().split(/\s+/)[0] === lower,
+  ];
+
+  for (const rule of rules) {
+    const matches = members.filter(rule);
+
+    if (matches.length === 1) {
+      return { success: true, data: matches[0] };
+    }
+
+    if (matches.length > 1) {
+      return {
+        success: false,
+        error: `Assignee "${query}" matches ${matches.length} team members: ${matches.map((m) => `${m.name} <${m.email}>`).join(', ')}. Use their email instead.`,
+        code: 'AMBIGUOUS_ASSIGNEE',
+      };
+    }
+  }
+
+  return {
+    success: false,
+    error: `No team member matches assignee "${query}". Use list_team_members to see the team, or add_team_member to add them.`,
+    code: 'ASSIGNEE_NOT_FOUND',
+  };
+}
+
+/**
+ * Copy a member's new name to their tasks, trashed ones included.
+ * Returns a warning if some tasks couldn't be updated.
+ */
+async function renameAssignee(ctx: ToolContext, member: TeamMemberRow): Promise<string | null> {
+  const { data: tasks, error } = await ctx.repo.listTasks({ assigneeIds: [member.id], trash: 'include' });
+
+  if (error) {
+    return `Assigned tasks still show the old name: ${error.message}`;
+  }
+
+  if (tasks.length === 0) {
+    return null;
+  }
+
+  const result = await applyUpdates(
+    ctx,
+    'update_team_member',
+    tasks.map((t) => ({ taskId: t.id, updates: { assignee: member.name } })),
+    (_before, after) => `Renamed the assignee of "${after.title}" to ${member.name}`,
+    'Renamed'
+  );
+
+  if (!result.success) {
+    return `Assigned tasks still show the old name: ${result.error}`;
+  }
+
+  const failed = result.data.filter((r) => !r.success).length;
+  return failed > 0 ? `${failed} assigned task(s) still show the old name` : null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The given workspace, or the default one, if it exists.
+ */
+export async function resolveWorkspaceId(ctx: ToolContext, workspaceId?: string): Promise<ToolResult<string>> {
+  const id = workspaceId || getDefaultWorkspaceId();
+
+  if (!id) {
+    return {
+      success: false,
+      error: 'workspace_id is required. Either provide it or set DEFAULT_WORKSPACE_ID.',
+      code: 'MISSING_WORKSPACE_ID',
+    };
+  }
+
+  const isValid = await validateWorkspaceId(ctx.repo, id);
+  if (!isValid) {
+    return {
+      success: false,
+      error: `Workspace with ID "${id}" not found.`,
+      code: 'WORKSPACE_NOT_FOUND',
+    };
+  }
+
+  return { success: true, data: id };
+}
+
+async function loadTeam(ctx: ToolContext, workspaceId: string): Promise<ToolResult<TeamMemberRow[]>> {
+  const { data, error } = await ctx.repo.listTeamMembers(workspaceId);
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to get team members: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return { success: true, data };
+}
+
+function findByEmail(members: TeamMemberRow[], email: string): TeamMemberRow | undefined {
+  return members.find((m) => m.email.toLowerCase() === email.toLowerCase());
+}
+
+function memberNotFound<T>(memberId: string): ToolResult<T> {
+  return {
+    success: false,
+    error: `Team member with ID "${memberId}" not found.`,
+    code: 'MEMBER_NOT_FOUND',
+  };
+}
+
+function emailTaken<T>(member: TeamMemberRow): ToolResult<T> {
+  return {
+    success: false,
+    error: `${member.name} already uses ${member.email} in this workspace (ID: ${member.id}).`,
+    code: 'EMAIL_TAKEN',
+  };
+}
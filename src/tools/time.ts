@@ -0,0 +1,280 @@
+/**
+ * Time Tracking Tools for Limitless Canvas MCP Server
+ *
+ * A task's timer runs while it is in progress: moving it into in-progress
+ * (start_task) opens a time entry, and moving it out again (review_task,
+ * complete_task, or any other move) or trashing it closes it. Time spent
+ * away from the board can be added by hand.
+ *
+ * Provides:
+ * - log_time: Record minutes spent on a task
+ * - get_time_report: Total time in a project or workspace, by task, assignee and day
+ *
+ * Each entry keeps the task's assignee at the time it was made, so the
+ * report still credits the right person after a task is reassigned.
+ */
+
+import { getScopeProjects } from './projects.js';
+import { getActor } from './context.js';
+import type { ToolContext } from './context.js';
+import type { NewTimeEntryRow } from '../repository/index.js';
+import type {
+  GetTimeReportInput,
+  LogTimeInput,
+  TaskRow,
+  TimeEntryRow,
+  TimeReport,
+  ToolResult,
+} from '../types/index.js';
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * Record time spent on a task, ending now.
+ */
+export async function logTime(ctx: ToolContext, input: LogTimeInput): Promise<ToolResult<TimeEntryRow>> {
+  const { repo } = ctx;
+
+  const { data: task, error: fetchError } = await repo.getTask(input.task_id);
+
+  if (fetchError || !task) {
+    return {
+      success: false,
+      error: `Task with ID "${input.task_id}" not found.`,
+      code: 'TASK_NOT_FOUND',
+    };
+  }
+
+  if (task.deleted_at) {
+    return {
+      success: false,
+      error: `Task "${task.title}" is in the trash. Restore it before logging time.`,
+      code: 'TASK_IN_TRASH',
+    };
+  }
+
+  const now = Date.now();
+  const { data, error } = await repo.createTimeEntry({
+    ...newEntry(ctx, task, 'manual', new Date(now - input.minutes * MS_PER_MINUTE).toISOString()),
+    ended_at: new Date(now).toISOString(),
+    minutes: input.minutes,
+    note: input.note || null,
+  });
+
+  if (error) {
+    return {
+      success: false,
+      error: `Failed to log time: ${error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    message: `Logged ${formatMinutes(input.minutes)} on "${task.title}"`,
+  };
+}
+
+/**
+ * Total the time logged in a project or workspace, by task, assignee and
+ * day. `from` and `to` bound when entries started; a `to` date without a
+ * time includes that whole day.
+ */
+export async function getTimeReport(ctx: ToolContext, input: GetTimeReportInput): Promise<ToolResult<TimeReport>> {
+  const { repo } = ctx;
+
+  const projects = await getScopeProjects(ctx, input);
+  if (!projects.success) {
+    return projects;
+  }
+
+  const projectIds = projects.data.map((p) => p.id);
+  let entries: TimeEntryRow[] = [];
+
+  if (projectIds.length > 0) {
+    const { data, error } = await repo.listTimeEntries({
+      projectIds,
+      startedFrom: input.from ? new Date(input.from).toISOString() : undefined,
+      startedBefore: input.to ? rangeEnd(input.to) : undefined,
+    });
+
+    if (error) {
+      return {
+        success: false,
+        error: `Failed to get time entries: ${error.message}`,
+        code: 'DATABASE_ERROR',
+      };
+    }
+    entries = data;
+  }
+
+  const finished = entries.filter((e) => e.minutes !== null);
+
+  const { data: tasks, error: taskError } =
+    finished.length > 0
+      ? await repo.listTasks({ taskIds: [...new Set(finished.map((e) => e.task_id))], trash: 'include' })
+      : { data: [], error: null };
+
+  if (taskError) {
+    return {
+      success: false,
+      error: `Failed to get tasks: ${taskError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const titles = new Map(tasks.map((t) => [t.id, t.title]));
+  const byTask = new Map<string, number>();
+  const byAssignee = new Map<string | null, number>();
+  const byDay = new Map<string, number>();
+  let total = 0;
+
+  for (const entry of finished) {
+    const minutes = entry.minutes as number;
+    const day = entry.started_at.slice(0, 10);
+
+    total += minutes;
+    byTask.set(entry.task_id, (byTask.get(entry.task_id) ?? 0) + minutes);
+    byAssignee.set(entry.assignee, (byAssignee.get(entry.assignee) ?? 0) + minutes);
+    byDay.set(day, (byDay.get(day) ?? 0) + minutes);
+  }
+
+  const estimates = projects.data.flatMap((p) => (p.estimated_duration_hours === null ? [] : [p.estimated_duration_hours]));
+  const estimatedHours = estimates.length > 0 ? estimates.reduce((sum, hours) => sum + hours, 0) : null;
+
+  const report: TimeReport = {
+    from: input.from ?? null,
+    to: input.to ?? null,
+    total_minutes: total,
+    entries: finished.length,
+    running: entries.length - finished.length,
+    estimated_hours: estimatedHours,
+    by_task: [...byTask]
+      .map(([taskId, minutes]) => ({ task_id: taskId, title: titles.get(taskId) ?? '', minutes }))
+      .sort((a, b) => b.minutes - a.minutes),
+    by_assignee: [...byAssignee]
+      .map(([assignee, minutes]) => ({ assignee, minutes }))
+      .sort((a, b) => b.minutes - a.minutes),
+    by_day: [...byDay]
+      .map(([date, minutes]) => ({ date, minutes }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+
+  const estimate = estimatedHours === null ? '' : ` against an estimate of ${estimatedHours}h`;
+
+  return {
+    success: true,
+    data: report,
+    message: `Logged ${formatMinutes(total)} on ${byTask.size} task(s)${estimate}`,
+  };
+}
+
+// ============================================================================
+// Timers
+// ============================================================================
+
+/**
+ * Open or close the task's timer when a move takes it into or out of
+ * in-progress, or it goes to the trash. Returns a warning if the timer
+ * couldn't be updated; the change itself has already happened, so it isn't
+ * undone.
+ */
+export async function syncTimer(ctx: ToolContext, before: TaskRow, after: TaskRow): Promise<string | null> {
+  const wasRunning = before.status === 'in-progress' && !before.deleted_at;
+  const running = after.status === 'in-progress' && !after.deleted_at;
+
+  if (wasRunning === running) {
+    return null;
+  }
+
+  return running ? startTimer(ctx, after) : stopTimer(ctx, after);
+}
+
+async function startTimer(ctx: ToolContext, task: TaskRow): Promise<string | null> {
+  const { repo } = ctx;
+
+  const { data: running, error: listError } = await repo.listTimeEntries({ taskIds: [task.id], running: true });
+  if (listError) {
+    return `Timer not started: ${listError.message}`;
+  }
+
+  if (running.length > 0) {
+    return null;
+  }
+
+  const { error } = await repo.createTimeEntry(newEntry(ctx, task, 'timer', new Date().toISOString()));
+  return error ? `Timer not started: ${error.message}` : null;
+}
+
+async function stopTimer(ctx: ToolContext, task: TaskRow): Promise<string | null> {
+  const { repo } = ctx;
+
+  const { data: running, error: listError } = await repo.listTimeEntries({ taskIds: [task.id], running: true });
+  if (listError) {
+    return `Timer not stopped: ${listError.message}`;
+  }
+
+  const now = new Date();
+
+  for (const entry of running) {
+    const { error } = await repo.updateTimeEntry(entry.id, {
+      ended_at: now.toISOString(),
+      minutes: Math.round((now.getTime() - new Date(entry.started_at).getTime()) / MS_PER_MINUTE),
+    });
+
+    if (error) {
+      return `Timer not stopped: ${error.message}`;
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * A running entry for the task, credited to its current assignee.
+ */
+function newEntry(ctx: ToolContext, task: TaskRow, source: TimeEntryRow['source'], startedAt: string): NewTimeEntryRow {
+  const author = getActor(ctx);
+
+  return {
+    task_id: task.id,
+    project_id: task.project_id,
+    assignee: task.assignee,
+    started_at: startedAt,
+    ended_at: null,
+    minutes: null,
+    note: null,
+    source,
+    author_id: author.id,
+    author: author.name,
+  };
+}
+
+/**
+ * Exclusive end of a report range. A bare date covers the whole day.
+ */
+function rangeEnd(to: string): string {
+  const end = new Date(to).getTime();
+  return new Date(DATE_ONLY_PATTERN.test(to) ? end + MS_PER_DAY : end).toISOString();
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) {
+    return `${rest}m`;
+  }
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
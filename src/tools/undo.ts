@@ -0,0 +1,321 @@
+/**
+ * Undo Tools for Limitless Canvas MCP Server
+ *
+ * Every tool call that changes data is kept in the session's history along
+ * with the activity entries it recorded. Undoing a call applies the inverse
+ * of each entry, newest first:
+ * - create: move a created task to the trash, or delete a created project
+ * - update, trash, restore: put back the previous field values
+ * - delete: recreate the row with the same ID, order and tags
+ *
+ * Provides:
+ * - undo_last_action: Undo the most recent change made in this session
+ * - undo_action: Undo a specific change by the action_id its tool call returned
+ *
+ * History is per session and kept in memory. An undo is refused if anything
+ * it would revert has changed since, so it never overwrites later work.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { syncProjectProgress } from './projects.js';
+import { recordActivity } from './activity.js';
+import { trashTask } from './tasks.js';
+import { syncTimer } from './time.js';
+import type { NewProjectRow, NewTaskRow, ProjectUpdate, TaskUpdate } from '../repository/index.js';
+import type { ActivityAction, ActivityRow, ProjectRow, TaskRow, ToolResult } from '../types/index.js';
+import type { ToolContext } from './context.js';
+
+/** Oldest actions are forgotten beyond this many per session */
+export const MAX_SESSION_ACTIONS = 100;
+
+const INVERSE_ACTIONS: Record<ActivityAction, ActivityAction> = {
+  create: 'delete',
+  update: 'update',
+  trash: 'restore',
+  restore: 'trash',
+  delete: 'create',
+};
+
+/**
+ * A tool call that changed data, as recorded in the session history.
+ */
+export interface SessionAction {
+  id: string;
+  tool: string;
+  created_at: string;
+  /** Activity entries recorded by the call, oldest first */
+  changes: ActivityRow[];
+  /** False for calls that changed data the activity log doesn't cover */
+  undoable: boolean;
+  undone: boolean;
+}
+
+export interface UndoResult {
+  action_id: string;
+  tool: string;
+  reverted: { entity_type: ActivityRow['entity_type']; entity_id: string; action: ActivityAction }[];
+}
+
+/**
+ * Add a tool call to the session history. Returns null if the session has
+ * no history or the call changed nothing. A call that can't be undone is
+ * kept too, so undo_last_action refuses it rather than reverting an earlier
+ * call instead.
+ */
+export function recordSessionAction(
+  ctx: ToolContext,
+  tool: string,
+  changes: ActivityRow[],
+  undoable = true
+): SessionAction | null {
+  if (!ctx.history || (undoable && changes.length === 0)) {
+    return null;
+  }
+
+  const action: SessionAction = {
+    id: randomUUID(),
+    tool,
+    created_at: new Date().toISOString(),
+    changes,
+    undoable,
+    undone: false,
+  };
+
+  ctx.history.push(action);
+  if (ctx.history.length > MAX_SESSION_ACTIONS) {
+    ctx.history.splice(0, ctx.history.length - MAX_SESSION_ACTIONS);
+  }
+
+  return action;
+}
+
+/**
+ * Undo the most recent action in this session that hasn't been undone.
+ */
+export async function undoLastAction(ctx: ToolContext): Promise<ToolResult<UndoResult>> {
+  const action = [...(ctx.history ?? [])].reverse().find((a) => !a.undone);
+
+  if (!action) {
+    return {
+      success: false,
+      error: 'Nothing to undo in this session.',
+      code: 'NOTHING_TO_UNDO',
+    };
+  }
+
+  return undoAction(ctx, action.id);
+}
+
+/**
+ * Undo a specific action from this session.
+ */
+export async function undoAction(ctx: ToolContext, actionId: string): Promise<ToolResult<UndoResult>> {
+  const action = ctx.history?.find((a) => a.id === actionId);
+
+  if (!action) {
+    return {
+      success: false,
+      error: `Action "${actionId}" not found in this session.`,
+      code: 'ACTION_NOT_FOUND',
+    };
+  }
+
+  if (action.undone) {
+    return {
+      success: false,
+      error: `Action "${actionId}" (${action.tool}) has already been undone.`,
+      code: 'ALREADY_UNDONE',
+    };
+  }
+
+  if (!action.undoable) {
+    return {
+      success: false,
+      error: `Action "${actionId}" (${action.tool}) can't be undone.`,
+      code: 'NOT_UNDOABLE',
+    };
+  }
+
+  // Progress updates that followed task changes are recomputed afterwards instead
+  const changedTasks = action.changes.some((c) => c.entity_type === 'task');
+  const changes = action.changes.filter((c) => !(changedTasks && isProgressSync(c))).reverse();
+
+  // Check everything first so an undo is applied completely or not at all
+  const checked = new Set<string>();
+  for (const change of changes) {
+    if (checked.has(change.entity_id)) {
+      continue;
+    }
+    checked.add(change.entity_id);
+
+    const conflict = await findConflict(ctx, change);
+    if (conflict) {
+      return {
+        success: false,
+        error: `Cannot undo ${action.tool}: ${conflict}`,
+        code: 'UNDO_CONFLICT',
+      };
+    }
+  }
+
+  const reverted: UndoResult['reverted'] = [];
+  const warnings: string[] = [];
+  const projectIds = new Set<string>();
+
+  for (const change of changes) {
+    const result = await revertChange(ctx, change);
+    if (!result.success) {
+      return result;
+    }
+    if (result.data) {
+      warnings.push(result.data);
+    }
+
+    reverted.push({ entity_type: change.entity_type, entity_id: change.entity_id, action: change.action });
+    if (change.entity_type === 'task') {
+      projectIds.add(change.project_id);
+    }
+  }
+
+  action.undone = true;
+
+  for (const projectId of projectIds) {
+    await syncProjectProgress(ctx, projectId);
+  }
+
+  return {
+    success: true,
+    data: { action_id: action.id, tool: action.tool, reverted },
+    message: `Undid ${action.tool} (${reverted.length} change(s))`,
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isProgressSync(change: ActivityRow): boolean {
+  return (
+    change.entity_type === 'project' &&
+    change.action === 'update' &&
+    Object.keys(change.after ?? {}).every((key) => key === 'progress')
+  );
+}
+
+async function getCurrentRow(ctx: ToolContext, change: ActivityRow): Promise<TaskRow | ProjectRow | null> {
+  const { data } = change.entity_type === 'task'
+    ? await ctx.repo.getTask(change.entity_id)
+    : await ctx.repo.getProject(change.entity_id);
+  return data;
+}
+
+function entityLabel(change: ActivityRow): string {
+  return `${change.entity_type} ${change.entity_id}`;
+}
+
+/**
+ * Explain why a change can't be reverted, or return null if it can.
+ */
+async function findConflict(ctx: ToolContext, change: ActivityRow): Promise<string | null> {
+  const current = await getCurrentRow(ctx, change);
+
+  if (change.action === 'delete') {
+    return current ? `${entityLabel(change)} exists again` : null;
+  }
+
+  if (!current) {
+    // Undoing a create of something already gone is a no-op
+    return change.action === 'create' ? null : `${entityLabel(change)} has been deleted`;
+  }
+
+  const fields = current as unknown as Record<string, unknown>;
+  for (const [key, value] of Object.entries(change.after ?? {})) {
+    // Progress is derived from tasks and recomputed after the undo
+    if (key === 'progress' && change.entity_type === 'project') {
+      continue;
+    }
+    if (JSON.stringify(fields[key] ?? null) !== JSON.stringify(value ?? null)) {
+      return `${entityLabel(change)} has changed since (${key})`;
+    }
+  }
+
+  if (change.entity_type === 'project' && change.action === 'create') {
+    const { data: tasks } = await ctx.repo.listTasks({ projectIds: [change.entity_id], trash: 'include', limit: 1 });
+    if (tasks && tasks.length > 0) {
+      return `${entityLabel(change)} has tasks`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply the inverse of one change and record it in the activity log. A task
+ * moved into or out of in-progress has its timer started or stopped, as the
+ * status tools do; the result is a warning if that failed.
+ */
+async function revertChange(ctx: ToolContext, change: ActivityRow): Promise<ToolResult<string | null>> {
+  const { repo } = ctx;
+  const current = await getCurrentRow(ctx, change);
+  const now = new Date().toISOString();
+  const isTask = change.entity_type === 'task';
+
+  let result: { data: TaskRow | ProjectRow | null; error: { message: string } | null };
+
+  switch (change.action) {
+    case 'create': {
+      if (!current) {
+        return { success: true, data: null };
+      }
+
+      // Created tasks go to the trash like deleted ones, and are logged there
+      if (isTask) {
+        const trashed = await trashTask(ctx, current as TaskRow, 'undo_action');
+        return trashed.success ? { success: true, data: null } : trashed;
+      }
+
+      const { error } = await repo.deleteProject(change.entity_id);
+      result = { data: null, error };
+      break;
+    }
+
+    case 'update':
+    case 'trash':
+    case 'restore':
+      result = isTask
+        ? await repo.updateTask(change.entity_id, { ...(change.before as TaskUpdate), updated_at: now })
+        : await repo.updateProject(change.entity_id, { ...(change.before as ProjectUpdate), updated_at: now });
+      break;
+
+    case 'delete':
+      result = isTask
+        ? await repo.createTask({ ...(change.before as NewTaskRow), id: change.entity_id, updated_at: now })
+        : await repo.createProject({ ...(change.before as NewProjectRow), id: change.entity_id, updated_at: now });
+      break;
+  }
+
+  if (result.error) {
+    return {
+      success: false,
+      error: `Failed to undo change to ${entityLabel(change)}: ${result.error.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  await recordActivity(ctx, {
+    entityType: change.entity_type,
+    entityId: change.entity_id,
+    projectId: change.project_id,
+    workspaceId: change.workspace_id,
+    action: INVERSE_ACTIONS[change.action],
+    tool: 'undo_action',
+    before: current,
+    after: result.data,
+  });
+
+  const timer = isTask && current && result.data ? await syncTimer(ctx, current as TaskRow, result.data as TaskRow) : null;
+
+  return { success: true, data: timer };
+}
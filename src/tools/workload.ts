@@ -0,0 +1,197 @@
+/**
+ * Workload Tools for Limitless Canvas MCP Server
+ *
+ * How much unfinished work each team member holds, to answer "who can take
+ * this?".
+ *
+ * Provides:
+ * - get_workload: Open tasks per team member in a workspace, flagging anyone over the WIP limit
+ *
+ * A member's work in progress (WIP) is their in-progress and review tasks;
+ * the limit defaults to CANVAS_WIP_LIMIT. create_task and bulk_create_tasks
+ * use the same report to suggest an assignee for unassigned high-priority
+ * tasks.
+ */
+
+import { getWipLimit } from '../repository/index.js';
+import { resolveWorkspaceId } from './team.js';
+import { workspaceTimeZone } from './deadlines.js';
+import { todayIn } from './dates.js';
+import type { ToolContext } from './context.js';
+import type {
+  GetWorkloadInput,
+  MemberWorkload,
+  TaskPriority,
+  TaskRow,
+  TaskStatus,
+  TeamMemberRow,
+  ToolResult,
+  WorkloadReport,
+} from '../types/index.js';
+
+const OPEN_STATUSES: Exclude<TaskStatus, 'done'>[] = ['backlog', 'todo', 'in-progress', 'review'];
+const WIP_STATUSES: TaskStatus[] = ['in-progress', 'review'];
+const HIGH_PRIORITIES: TaskPriority[] = ['high', 'critical'];
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * Report each team member's unfinished tasks in a workspace, lightest load
+ * first, and suggest who could take new work.
+ */
+export async function getWorkload(ctx: ToolContext, input: GetWorkloadInput): Promise<ToolResult<WorkloadReport>> {
+  const { repo } = ctx;
+
+  const workspace = await resolveWorkspaceId(ctx, input.workspace_id);
+  if (!workspace.success) {
+    return workspace;
+  }
+
+  const { data: projects, error: projectError } = await repo.listProjects({ workspaceId: workspace.data });
+  const { data: members, error: memberError } = await repo.listTeamMembers(workspace.data);
+
+  if (projectError || memberError) {
+    return {
+      success: false,
+      error: `Failed to get workload: ${(projectError ?? memberError)?.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  let tasks: TaskRow[] = [];
+
+  if (projects.length > 0) {
+    const { data, error } = await repo.listTasks({
+      projectIds: projects.map((p) => p.id),
+      statuses: OPEN_STATUSES,
+    });
+
+    if (error) {
+      return {
+        success: false,
+        error: `Failed to get tasks: ${error.message}`,
+        code: 'DATABASE_ERROR',
+      };
+    }
+    tasks = data;
+  }
+
+  const wipLimit = input.wip_limit ?? getWipLimit();
+  const today = todayIn(await workspaceTimeZone(ctx, workspace.data));
+  const memberIds = new Set(members.map((m) => m.id));
+  const unassigned = tasks.filter((t) => !t.assignee_id || !memberIds.has(t.assignee_id));
+
+  const workloads = members
+    .map((member) => memberWorkload(member, tasks.filter((t) => t.assignee_id === member.id), wipLimit, today))
+    .sort(byLoad);
+
+  const overloaded = workloads.filter((w) => w.over_wip_limit).map((w) => w.name);
+  const active = new Set(members.filter(isActive).map((m) => m.id));
+  const suggested = workloads.find((w) => !w.over_wip_limit && active.has(w.member_id)) ?? null;
+
+  const report: WorkloadReport = {
+    workspace_id: workspace.data,
+    wip_limit: wipLimit,
+    members: workloads,
+    unassigned: {
+      open_tasks: unassigned.length,
+      high_priority: unassigned.filter((t) => HIGH_PRIORITIES.includes(t.priority)).length,
+    },
+    overloaded,
+    suggested_assignee: suggested,
+  };
+
+  let message = `${tasks.length} unfinished task(s) across ${members.length} team member(s), ${unassigned.length} unassigned`;
+  if (overloaded.length > 0) {
+    message += `. Over the WIP limit of ${wipLimit}: ${overloaded.join(', ')}`;
+  }
+  if (suggested) {
+    message += `. ${describeSuggestion(suggested)}`;
+  }
+
+  return {
+    success: true,
+    data: report,
+    message,
+  };
+}
+
+// ============================================================================
+// Suggestions
+// ============================================================================
+
+/**
+ * The team member best placed to take a new task in the workspace, or null
+ * if everyone is over the WIP limit or the report fails.
+ */
+export async function suggestAssignee(ctx: ToolContext, workspaceId: string): Promise<MemberWorkload | null> {
+  const workload = await getWorkload(ctx, { workspace_id: workspaceId });
+  return workload.success ? workload.data.suggested_assignee : null;
+}
+
+/**
+ * Whether a new task at this priority should get an assignee suggestion.
+ */
+export function needsAssigneeSuggestion(task: Pick<TaskRow, 'priority' | 'assignee_id'>): boolean {
+  return !task.assignee_id && HIGH_PRIORITIES.includes(task.priority);
+}
+
+/** Why a member is suggested, for tool messages */
+export function describeSuggestion(member: MemberWorkload): string {
+  return `${member.name} has the lightest load (${member.open_tasks} open, ${member.wip} in progress or review) and could take it`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * One member's share of the work. Tasks are overdue once their due date is
+ * before `today` in the workspace's time zone.
+ */
+function memberWorkload(member: TeamMemberRow, tasks: TaskRow[], wipLimit: number, today: string): MemberWorkload {
+  const wip = tasks.filter((t) => WIP_STATUSES.includes(t.status)).length;
+
+  const byStatus = Object.fromEntries(OPEN_STATUSES.map((s) => [s, 0])) as MemberWorkload['by_status'];
+  const byPriority: MemberWorkload['by_priority'] = { low: 0, medium: 0, high: 0, critical: 0 };
+
+  for (const task of tasks) {
+    byStatus[task.status as Exclude<TaskStatus, 'done'>] += 1;
+    byPriority[task.priority] += 1;
+  }
+
+  return {
+    member_id: member.id,
+    name: member.name,
+    email: member.email,
+    open_tasks: tasks.length,
+    by_status: byStatus,
+    by_priority: byPriority,
+    overdue: tasks.filter((t) => t.due_date !== null && t.due_date.slice(0, 10) < today).length,
+    remaining_estimate: tasks.reduce((sum, t) => sum + (t.estimate ?? 0), 0),
+    in_progress: byStatus['in-progress'],
+    wip,
+    over_wip_limit: wip > wipLimit,
+  };
+}
+
+/**
+ * Lightest load first: anyone over the WIP limit goes last, then fewer open
+ * tasks, less remaining estimate and less work in progress come first.
+ */
+function byLoad(a: MemberWorkload, b: MemberWorkload): number {
+  return (
+    Number(a.over_wip_limit) - Number(b.over_wip_limit) ||
+    a.open_tasks - b.open_tasks ||
+    a.remaining_estimate - b.remaining_estimate ||
+    a.wip - b.wip ||
+    a.name.localeCompare(b.name)
+  );
+}
+
+/** Members without a status are taken to be active */
+function isActive(member: TeamMemberRow): boolean {
+  return member.status === null || member.status === 'active';
+}
@@ -7,16 +7,19 @@
  * - get_workspace_summary: Get analytics summary for a workspace
  */
 
-import { getSupabase, validateWorkspaceId } from '../supabase/client.js';
+import { validateWorkspaceId } from '../repository/index.js';
 import type {
   WorkspaceRow,
   ProjectRow,
   TaskRow,
+  TaskWithBlockers,
   TeamMemberRow,
   ListWorkspacesInput,
   GetWorkspaceInput,
   ToolResult,
 } from '../types/index.js';
+import type { ToolContext } from './context.js';
+import { withBlockers } from './dependencies.js';
 
 export interface WorkspaceSummary {
   workspace: WorkspaceRow;
@@ -42,19 +45,10 @@ export interface WorkspaceSummary {
 /**
  * List all workspaces the service has access to.
  */
-export async function listWorkspaces(input: ListWorkspacesInput = {}): Promise<ToolResult<WorkspaceRow[]>> {
-  const supabase = getSupabase();
+export async function listWorkspaces(ctx: ToolContext, input: ListWorkspacesInput = {}): Promise<ToolResult<WorkspaceRow[]>> {
+  const { repo } = ctx;
 
-  let query = supabase
-    .from('workspaces')
-    .select('*')
-    .order('updated_at', { ascending: false });
-
-  if (input.limit) {
-    query = query.limit(input.limit);
-  }
-
-  const { data, error } = await query;
+  const { data, error } = await repo.listWorkspaces({ limit: input.limit });
 
   if (error) {
     return {
@@ -66,7 +60,7 @@ export async function listWorkspaces(input: ListWorkspacesInput = {}): Promise<T
 
   return {
     success: true,
-    data: data as WorkspaceRow[],
+    data,
     message: `Found ${data.length} workspace(s)`,
   };
 }
@@ -74,10 +68,10 @@ export async function listWorkspaces(input: ListWorkspacesInput = {}): Promise<T
 /**
  * Get detailed workspace information.
  */
-export async function getWorkspace(input: GetWorkspaceInput): Promise<ToolResult<WorkspaceRow>> {
-  const supabase = getSupabase();
+export async function getWorkspace(ctx: ToolContext, input: GetWorkspaceInput): Promise<ToolResult<WorkspaceRow>> {
+  const { repo } = ctx;
 
-  const isValid = await validateWorkspaceId(input.workspace_id);
+  const isValid = await validateWorkspaceId(repo, input.workspace_id);
   if (!isValid) {
     return {
       success: false,
@@ -86,23 +80,19 @@ export async function getWorkspace(input: GetWorkspaceInput): Promise<ToolResult
     };
   }
 
-  const { data, error } = await supabase
-    .from('workspaces')
-    .select('*')
-    .eq('id', input.workspace_id)
-    .single();
+  const { data, error } = await repo.getWorkspace(input.workspace_id);
 
-  if (error) {
+  if (error || !data) {
     return {
       success: false,
-      error: `Failed to get workspace: ${error.message}`,
+      error: `Failed to get workspace: ${error?.message}`,
       code: 'DATABASE_ERROR',
     };
   }
 
   return {
     success: true,
-    data: data as WorkspaceRow,
+    data,
     message: `Workspace: "${data.name}"`,
   };
 }
@@ -110,11 +100,11 @@ export async function getWorkspace(input: GetWorkspaceInput): Promise<ToolResult
 /**
  * Get a comprehensive summary of a workspace including project and task counts.
  */
-export async function getWorkspaceSummary(workspaceId: string): Promise<ToolResult<WorkspaceSummary>> {
-  const supabase = getSupabase();
+export async function getWorkspaceSummary(ctx: ToolContext, workspaceId: string): Promise<ToolResult<WorkspaceSummary>> {
+  const { repo } = ctx;
 
   // Validate workspace
-  const isValid = await validateWorkspaceId(workspaceId);
+  const isValid = await validateWorkspaceId(repo, workspaceId);
   if (!isValid) {
     return {
       success: false,
@@ -124,11 +114,7 @@ export async function getWorkspaceSummary(workspaceId: string): Promise<ToolResu
   }
 
   // Fetch workspace
-  const { data: workspace, error: wsError } = await supabase
-    .from('workspaces')
-    .select('*')
-    .eq('id', workspaceId)
-    .single();
+  const { data: workspace, error: wsError } = await repo.getWorkspace(workspaceId);
 
   if (wsError || !workspace) {
     return {
@@ -139,10 +125,7 @@ export async function getWorkspaceSummary(workspaceId: string): Promise<ToolResu
   }
 
   // Fetch projects
-  const { data: projects, error: projError } = await supabase
-    .from('projects')
-    .select('*')
-    .eq('workspace_id', workspaceId);
+  const { data: projects, error: projError } = await repo.listProjects({ workspaceId });
 
   if (projError) {
     return {
@@ -157,10 +140,7 @@ export async function getWorkspaceSummary(workspaceId: string): Promise<ToolResu
   let tasks: TaskRow[] = [];
 
   if (projectIds.length > 0) {
-    const { data: taskData, error: taskError } = await supabase
-      .from('tasks')
-      .select('*')
-      .in('project_id', projectIds);
+    const { data: taskData, error: taskError } = await repo.listTasks({ projectIds });
 
     if (taskError) {
       return {
@@ -169,14 +149,11 @@ export async function getWorkspaceSummary(workspaceId: string): Promise<ToolResu
         code: 'DATABASE_ERROR',
       };
     }
-    tasks = taskData as TaskRow[];
+    tasks = taskData;
   }
 
   // Fetch team members
-  const { data: teamMembers, error: teamError } = await supabase
-    .from('team_members')
-    .select('*')
-    .eq('workspace_id', workspaceId);
+  const { data: teamMembers, error: teamError } = await repo.listTeamMembers(workspaceId);
 
   if (teamError) {
     return {
@@ -211,13 +188,13 @@ export async function getWorkspaceSummary(workspaceId: string): Promise<ToolResu
     .sort((a: ProjectRow, b: ProjectRow) =>
       new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
     )
-    .slice(0, 5) as ProjectRow[];
+    .slice(0, 5);
 
   const summary: WorkspaceSummary = {
-    workspace: workspace as WorkspaceRow,
+    workspace,
     projects: projectCounts,
     tasks: taskCounts,
-    team_members: teamMembers?.length || 0,
+    team_members: teamMembers.length,
     recent_projects: recentProjects,
   };
 
@@ -230,12 +207,16 @@ export async function getWorkspaceSummary(workspaceId: string): Promise<ToolResu
 
 /**
  * Get active work in progress for a workspace.
- * Returns tasks that are currently in-progress or in-review.
+ * Returns tasks that are currently in-progress or in-review, each with the
+ * unfinished dependencies blocking it (if any).
  */
-export async function getWorkInProgress(workspaceId: string): Promise<ToolResult<TaskRow[]>> {
-  const supabase = getSupabase();
+export async function getWorkInProgress(
+  ctx: ToolContext,
+  workspaceId: string
+): Promise<ToolResult<TaskWithBlockers[]>> {
+  const { repo } = ctx;
 
-  const isValid = await validateWorkspaceId(workspaceId);
+  const isValid = await validateWorkspaceId(repo, workspaceId);
   if (!isValid) {
     return {
       success: false,
@@ -245,10 +226,7 @@ export async function getWorkInProgress(workspaceId: string): Promise<ToolResult
   }
 
   // Get all project IDs in this workspace
-  const { data: projects, error: projError } = await supabase
-    .from('projects')
-    .select('id')
-    .eq('workspace_id', workspaceId);
+  const { data: projects, error: projError } = await repo.listProjects({ workspaceId });
 
   if (projError) {
     return {
@@ -269,12 +247,74 @@ export async function getWorkInProgress(workspaceId: string): Promise<ToolResult
   }
 
   // Get in-progress and review tasks
-  const { data: tasks, error: taskError } = await supabase
-    .from('tasks')
-    .select('*')
-    .in('project_id', projectIds)
-    .in('status', ['in-progress', 'review'])
-    .order('updated_at', { ascending: false });
+  const { data: tasks, error: taskError } = await repo.listTasks({
+    projectIds,
+    statuses: ['in-progress', 'review'],
+    orderBy: [{ column: 'updated_at', ascending: false }],
+  });
+
+  if (taskError) {
+    return {
+      success: false,
+      error: `Failed to get tasks: ${taskError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const { data: withDeps, error: depError } = await withBlockers(ctx, tasks);
+
+  if (depError) {
+    return {
+      success: false,
+      error: `Failed to get dependencies: ${depError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  const blocked = withDeps.filter((t) => t.blocked_by.length > 0).length;
+
+  return {
+    success: true,
+    data: withDeps,
+    message: `${tasks.length} task(s) in progress or review${blocked > 0 ? `, ${blocked} blocked` : ''}`,
+  };
+}
+
+/**
+ * Get tasks in a workspace that were moved to done since a given time.
+ * Uses updated_at, so later edits to a done task also count as recent.
+ */
+export async function getRecentlyCompletedTasks(
+  ctx: ToolContext,
+  workspaceId: string,
+  since: string
+): Promise<ToolResult<TaskRow[]>> {
+  const { repo } = ctx;
+
+  const { data: projects, error: projError } = await repo.listProjects({ workspaceId });
+
+  if (projError) {
+    return {
+      success: false,
+      error: `Failed to get projects: ${projError.message}`,
+      code: 'DATABASE_ERROR',
+    };
+  }
+
+  if (projects.length === 0) {
+    return {
+      success: true,
+      data: [],
+      message: 'No projects in workspace',
+    };
+  }
+
+  const { data: tasks, error: taskError } = await repo.listTasks({
+    projectIds: projects.map((p) => p.id),
+    statuses: ['done'],
+    updatedSince: since,
+    orderBy: [{ column: 'updated_at', ascending: false }],
+  });
 
   if (taskError) {
     return {
@@ -286,7 +326,7 @@ export async function getWorkInProgress(workspaceId: string): Promise<ToolResult
 
   return {
     success: true,
-    data: tasks as TaskRow[],
-    message: `${tasks.length} task(s) in progress or review`,
+    data: tasks,
+    message: `${tasks.length} task(s) completed since ${since}`,
   };
 }
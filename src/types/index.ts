@@ -9,11 +9,22 @@
 // Database Enums
 // ============================================================================
 
-export type TaskStatus = 'backlog' | 'todo' | 'in-progress' | 'review' | 'done';
+/** Kanban columns in board order, left to right */
+export const TASK_STATUSES = ['backlog', 'todo', 'in-progress', 'review', 'done'] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
 export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
 export type ProjectStatus = 'active' | 'completed' | 'on-hold' | 'planning';
 export type ProjectPriority = 'low' | 'medium' | 'high' | 'critical';
 export type ProjectItemType = 'project' | 'task' | 'quick_task';
+export type ActivityEntityType = 'task' | 'project';
+/** `trash` and `restore` are soft deletes; `delete` removes the row for good */
+export type ActivityAction = 'create' | 'update' | 'trash' | 'restore' | 'delete';
+export type TimeEntrySource = 'timer' | 'manual';
+/**
+ * How project progress is calculated: the share of tasks done (`count`), or
+ * with each task weighted by its estimate or by its priority.
+ */
+export type ProgressMode = 'count' | 'estimate' | 'priority';
 
 // ============================================================================
 // Database Row Types (from Supabase)
@@ -25,6 +36,8 @@ export interface WorkspaceRow {
   color: string;
   logo: string | null;
   owner_id: string | null;
+  /** IANA time zone relative due dates are counted in (e.g., "Europe/Berlin"); null uses CANVAS_TIME_ZONE */
+  time_zone: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -44,6 +57,7 @@ export interface ProjectRow {
   team_size: number | null;
   item_type: ProjectItemType;
   estimated_duration_hours: number | null;
+  progress_mode: ProgressMode;
   created_at: string;
   updated_at: string;
 }
@@ -55,12 +69,23 @@ export interface TaskRow {
   description: string | null;
   status: TaskStatus;
   priority: TaskPriority;
+  /** Display name of the assigned team member */
   assignee: string | null;
+  /** The assigned team member's ID; the stable reference for `assignee` */
+  assignee_id: string | null;
   due_date: string | null;
   tags: string[] | null;
+  /** Size of the task, in the team's unit (story points or hours) */
+  estimate: number | null;
   order: number;
   created_at: string;
   updated_at: string;
+  /** The task this is a subtask of; subtasks are one level deep */
+  parent_task_id: string | null;
+  /** When the task was moved to the trash, or null if it isn't trashed */
+  deleted_at: string | null;
+  /** The sprint the task is planned in, or null if it is in the backlog */
+  sprint_id: string | null;
 }
 
 export interface TeamMemberRow {
@@ -76,6 +101,88 @@ export interface TeamMemberRow {
   updated_at: string;
 }
 
+/**
+ * One mutation made through a tool. `before` and `after` hold only the
+ * fields that changed; `before` is null for creates and `after` for deletes.
+ */
+export interface ActivityRow {
+  id: string;
+  workspace_id: string;
+  project_id: string;
+  entity_type: ActivityEntityType;
+  entity_id: string;
+  action: ActivityAction;
+  /** MCP tool that made the change */
+  tool: string;
+  /** User ID, or null for the service role */
+  actor_id: string | null;
+  /** User email or ID, or "service" */
+  actor: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+/**
+ * `task_id` can't be started until `depends_on_task_id` is done.
+ */
+export interface TaskDependencyRow {
+  task_id: string;
+  depends_on_task_id: string;
+  created_at: string;
+}
+
+/**
+ * A time-boxed plan within a project. Open until closed with close_sprint.
+ */
+export interface SprintRow {
+  id: string;
+  project_id: string;
+  name: string;
+  goal: string | null;
+  start_date: string;
+  end_date: string;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A note left on a task, e.g. what was done and what is left.
+ */
+export interface TaskCommentRow {
+  id: string;
+  task_id: string;
+  body: string;
+  /** User ID, or null for the service role */
+  author_id: string | null;
+  /** User email or ID, or "service" */
+  author: string;
+  created_at: string;
+}
+
+/**
+ * Time spent on a task. Timers run while the task is in progress and have
+ * no `ended_at` or `minutes` until it leaves that column; manual entries
+ * come from log_time.
+ */
+export interface TimeEntryRow {
+  id: string;
+  task_id: string;
+  project_id: string;
+  /** Task assignee when the entry was made */
+  assignee: string | null;
+  started_at: string;
+  ended_at: string | null;
+  minutes: number | null;
+  note: string | null;
+  source: TimeEntrySource;
+  /** User ID, or null for the service role */
+  author_id: string | null;
+  /** User email or ID, or "service" */
+  author: string;
+}
+
 // ============================================================================
 // API Response Types (enriched with relationships)
 // ============================================================================
@@ -84,6 +191,19 @@ export interface ProjectWithTasks extends ProjectRow {
   tasks: TaskRow[];
 }
 
+export interface ProjectEstimates {
+  /** Sum of all task estimates */
+  total: number;
+  /** Sum of the estimates of tasks that aren't done */
+  remaining: number;
+  /** Number of unfinished tasks without an estimate */
+  unestimated: number;
+}
+
+export interface ProjectWithEstimates extends ProjectRow {
+  estimates: ProjectEstimates;
+}
+
 export interface ProjectWithTaskCounts extends ProjectRow {
   task_counts: {
     total: number;
@@ -95,6 +215,110 @@ export interface ProjectWithTaskCounts extends ProjectRow {
   };
 }
 
+/** Number of tasks in each kanban column, plus the total */
+export type TaskCounts = { total: number } & Record<TaskStatus, number>;
+
+export interface SprintWithTasks extends SprintRow {
+  tasks: TaskRow[];
+  task_counts: TaskCounts;
+}
+
+export interface CloseSprintResult {
+  sprint: SprintRow;
+  /** Sprint the unfinished tasks moved to, or null if they went to the backlog */
+  next_sprint: SprintRow | null;
+  completed: number;
+  moved_task_ids: string[];
+}
+
+export interface TeamMemberWithTasks extends TeamMemberRow {
+  /** Unfinished tasks assigned to the member, in board order */
+  open_tasks: TaskRow[];
+}
+
+export interface MemberWorkload {
+  member_id: string;
+  name: string;
+  email: string;
+  /** Unfinished tasks assigned to the member */
+  open_tasks: number;
+  by_status: Record<Exclude<TaskStatus, 'done'>, number>;
+  by_priority: Record<TaskPriority, number>;
+  /** Unfinished tasks past their due date */
+  overdue: number;
+  /** Sum of the unfinished tasks' estimates; unestimated tasks count as 0 */
+  remaining_estimate: number;
+  in_progress: number;
+  /** In-progress and review tasks, compared with the WIP limit */
+  wip: number;
+  over_wip_limit: boolean;
+}
+
+export interface WorkloadReport {
+  workspace_id: string;
+  wip_limit: number;
+  /** Lightest load first */
+  members: MemberWorkload[];
+  /** Unfinished tasks without a team member assigned */
+  unassigned: { open_tasks: number; high_priority: number };
+  /** Names of members over the WIP limit */
+  overloaded: string[];
+  /** The active member with the lightest load under the WIP limit, if any */
+  suggested_assignee: MemberWorkload | null;
+}
+
+export type DueWindow = 'overdue' | 'today' | 'this_week' | 'range';
+
+export interface DueTasks {
+  window: DueWindow;
+  /** Time zone the dates are in */
+  time_zone: string;
+  today: string;
+  /** First and last due date covered; null when open-ended */
+  from: string | null;
+  to: string | null;
+  /** Earliest due first, then most urgent */
+  tasks: TaskWithProject[];
+}
+
+export interface ProjectDeadline {
+  project_id: string;
+  name: string;
+  status: ProjectStatus;
+  progress: number;
+  due_date: string;
+  /** Days from today to the due date; negative once it has passed */
+  days_left: number;
+  overdue: boolean;
+  open_tasks: number;
+  /** Unfinished tasks past their own due date */
+  overdue_tasks: number;
+}
+
+export type SearchField = 'title' | 'tags' | 'description' | 'comments';
+
+export interface SearchHighlight {
+  field: SearchField;
+  /** Matching text with the search terms in **bold**; long fields are cut to the part around the match */
+  snippet: string;
+}
+
+export interface TaskSearchResult extends TaskWithProject {
+  /** Relevance; higher is better. Only comparable within one search */
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+export type TaskSort = 'priority' | 'due_date' | 'updated_at' | 'order';
+
+export interface TaskPage {
+  tasks: TaskWithProject[];
+  /** Matching tasks across all pages */
+  total: number;
+  /** Pass as `cursor` to get the next page; null on the last page */
+  next_cursor: string | null;
+}
+
 export interface TaskWithProject extends TaskRow {
   project: {
     id: string;
@@ -103,6 +327,105 @@ export interface TaskWithProject extends TaskRow {
   };
 }
 
+/** An unfinished task another task depends on */
+export type TaskBlocker = Pick<TaskRow, 'id' | 'title' | 'status' | 'project_id'>;
+
+export interface TaskWithBlockers extends TaskRow {
+  /** Unfinished tasks this task depends on; empty when it isn't blocked */
+  blocked_by: TaskBlocker[];
+}
+
+export interface SubtaskCompletion {
+  done: number;
+  total: number;
+  /** done / total, between 0 and 1 */
+  ratio: number;
+}
+
+export interface TaskWithSubtasks extends TaskWithProject {
+  subtasks: TaskRow[];
+  /** Null when the task has no subtasks */
+  completion: SubtaskCompletion | null;
+  /** Most recent comments, newest first */
+  comments: TaskCommentRow[];
+}
+
+export interface TimeReport {
+  from: string | null;
+  to: string | null;
+  /** Minutes in finished entries; running timers are only counted in `running` */
+  total_minutes: number;
+  entries: number;
+  running: number;
+  /** Sum of the projects' estimated_duration_hours, or null if none is set */
+  estimated_hours: number | null;
+  /** Most time first */
+  by_task: { task_id: string; title: string; minutes: number }[];
+  /** Most time first; a null assignee is unassigned work */
+  by_assignee: { assignee: string | null; minutes: number }[];
+  /** Oldest day first, UTC dates */
+  by_day: { date: string; minutes: number }[];
+}
+
+export interface BurndownDay {
+  /** UTC date */
+  date: string;
+  /** Tasks not done at the end of the day */
+  remaining_tasks: number;
+  /** Sum of those tasks' estimates; unestimated tasks count as 0 */
+  remaining_estimate: number;
+  /** Remaining tasks on a straight line to zero by the deadline, or null without one */
+  ideal_tasks: number | null;
+}
+
+export interface Burndown {
+  project_id: string;
+  sprint_id: string | null;
+  from: string;
+  to: string;
+  /** Sprint end date or project due date the ideal line aims for */
+  deadline: string | null;
+  /** Oldest day first */
+  days: BurndownDay[];
+  /** Whether the last day is at or below the ideal line, or null without a deadline */
+  on_track: boolean | null;
+}
+
+export interface VelocityWeek {
+  /** Monday the week starts on, UTC */
+  week_start: string;
+  tasks: number;
+  /** Sum of the completed tasks' estimates */
+  points: number;
+}
+
+export interface Velocity {
+  /** Oldest week first; the last one is the current week so far */
+  weeks: VelocityWeek[];
+  /** Averages over the complete weeks, or null if there are none */
+  average_tasks: number | null;
+  average_points: number | null;
+}
+
+export interface DurationStats {
+  median_hours: number;
+  p90_hours: number;
+}
+
+export interface CycleTimeReport {
+  project_id: string;
+  /** Done tasks with a recorded start, which the stats cover */
+  tasks: number;
+  /** Done tasks never recorded as in progress */
+  skipped: number;
+  /** From first entering in-progress to last entering done; null if no tasks */
+  cycle_time: DurationStats | null;
+  /** Total time spent in review */
+  review_time: DurationStats | null;
+  /** Longest cycle time first, at most five */
+  slowest: { task_id: string; title: string; cycle_hours: number; review_hours: number }[];
+}
+
 // ============================================================================
 // Tool Input Types
 // ============================================================================
@@ -128,6 +451,7 @@ export interface CreateProjectInput {
   due_date?: string;
   client_id?: string;
   estimated_duration_hours?: number;
+  progress_mode?: ProgressMode;
 }
 
 export interface UpdateProjectInput {
@@ -139,7 +463,9 @@ export interface UpdateProjectInput {
   progress?: number;
   budget?: number;
   spent?: number;
-  due_date?: string;
+  /** null clears the due date */
+  due_date?: string | null;
+  progress_mode?: ProgressMode;
 }
 
 export interface CreateTaskInput {
@@ -148,9 +474,22 @@ export interface CreateTaskInput {
   description?: string;
   status?: TaskStatus;
   priority?: TaskPriority;
+  /** Team member name, email or ID */
   assignee?: string;
   due_date?: string;
   tags?: string[];
+  estimate?: number;
+  /** Set by create_subtask */
+  parent_task_id?: string;
+}
+
+export interface CreateSubtaskInput extends Omit<CreateTaskInput, 'project_id' | 'status' | 'parent_task_id'> {
+  parent_task_id: string;
+}
+
+export interface ToggleChecklistItemInput {
+  task_id: string;
+  done?: boolean;
 }
 
 export interface UpdateTaskInput {
@@ -159,14 +498,135 @@ export interface UpdateTaskInput {
   description?: string;
   status?: TaskStatus;
   priority?: TaskPriority;
+  /** Team member name, email or ID; an empty string unassigns */
   assignee?: string;
-  due_date?: string;
+  /** null clears the due date */
+  due_date?: string | null;
   tags?: string[];
+  estimate?: number;
 }
 
 export interface MoveTaskInput {
   task_id: string;
   new_status: TaskStatus;
+  /** Position in the new column, 0 = top */
+  position?: number;
+  /** Refuse to start or finish the task while it has unfinished dependencies */
+  strict?: boolean;
+}
+
+export interface AddTaskCommentInput {
+  task_id: string;
+  body: string;
+}
+
+export interface ListTaskCommentsInput {
+  task_id: string;
+  limit?: number;
+}
+
+export interface CreateSprintInput {
+  project_id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  goal?: string;
+}
+
+export interface AddTasksToSprintInput {
+  sprint_id: string;
+  task_ids: string[];
+}
+
+export interface CloseSprintInput {
+  sprint_id: string;
+  /** Defaults to the next sprint when there is one, the backlog otherwise */
+  move_unfinished_to?: 'next_sprint' | 'backlog';
+}
+
+export interface AddTeamMemberInput {
+  workspace_id?: string;
+  name: string;
+  email: string;
+  role?: string;
+  department?: string;
+}
+
+export interface UpdateTeamMemberInput {
+  member_id: string;
+  name?: string;
+  email?: string;
+  role?: string;
+  department?: string;
+  status?: string;
+}
+
+export interface GetWorkloadInput {
+  workspace_id?: string;
+  /** Defaults to CANVAS_WIP_LIMIT */
+  wip_limit?: number;
+}
+
+export interface LogTimeInput {
+  task_id: string;
+  minutes: number;
+  note?: string;
+}
+
+export interface GetDueTasksInput {
+  workspace_id?: string;
+  project_id?: string;
+  window: DueWindow;
+  /** Range bounds (inclusive); ISO dates or relative phrases */
+  from?: string;
+  to?: string;
+}
+
+export interface GetProjectDeadlinesInput {
+  workspace_id?: string;
+}
+
+export interface GetTimeReportInput {
+  workspace_id?: string;
+  project_id?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface GetBurndownInput {
+  project_id?: string;
+  sprint_id?: string;
+  /** Days to cover for a project, ending today */
+  days?: number;
+}
+
+export interface GetVelocityInput {
+  workspace_id?: string;
+  weeks?: number;
+}
+
+export interface DependencyInput {
+  task_id: string;
+  depends_on_task_id: string;
+}
+
+export interface BulkCreateTasksInput {
+  tasks: CreateTaskInput[];
+}
+
+export interface BulkUpdateTasksInput {
+  tasks: UpdateTaskInput[];
+}
+
+export interface BulkMoveTasksInput {
+  tasks: Omit<MoveTaskInput, 'position' | 'strict'>[];
+}
+
+export interface ReorderTaskInput {
+  task_id: string;
+  before_task_id?: string;
+  after_task_id?: string;
+  position?: number;
 }
 
 export interface SearchTasksInput {
@@ -177,6 +637,27 @@ export interface SearchTasksInput {
   limit?: number;
 }
 
+export interface QueryTasksInput {
+  workspace_id?: string;
+  project_id?: string;
+  /** Team member name, email or ID; an empty string matches unassigned tasks */
+  assignee?: string;
+  priorities?: TaskPriority[];
+  statuses?: TaskStatus[];
+  tags?: string[];
+  /** Whether a task needs any (default) or all of `tags` */
+  tag_match?: 'any' | 'all';
+  /** Due date bounds (inclusive); ISO dates or relative phrases */
+  due_from?: string;
+  due_to?: string;
+  created_since?: string;
+  updated_since?: string;
+  project_statuses?: ProjectStatus[];
+  sort?: TaskSort;
+  limit?: number;
+  cursor?: string;
+}
+
 export interface ListWorkspacesInput {
   limit?: number;
 }
@@ -185,6 +666,23 @@ export interface GetWorkspaceInput {
   workspace_id: string;
 }
 
+export interface ListTrashInput {
+  workspace_id?: string;
+  project_id?: string;
+  limit?: number;
+}
+
+export interface PurgeTrashInput {
+  workspace_id?: string;
+  older_than_days?: number;
+}
+
+export interface GetActivityFeedInput {
+  workspace_id?: string;
+  since?: string;
+  limit?: number;
+}
+
 // ============================================================================
 // Tool Result Types
 // ============================================================================
@@ -193,12 +691,18 @@ export interface ToolSuccess<T = unknown> {
   success: true;
   data: T;
   message?: string;
+  /** Set on calls that changed data; pass to undo_action to revert them */
+  action_id?: string;
+  /** Things the caller should know about even though the call succeeded */
+  warnings?: string[];
 }
 
 export interface ToolError {
   success: false;
   error: string;
   code?: string;
+  /** Per-field messages, e.g. for INVALID_INPUT errors */
+  details?: Record<string, string>;
 }
 
 export type ToolResult<T = unknown> = ToolSuccess<T> | ToolError;
@@ -207,8 +711,22 @@ export type ToolResult<T = unknown> = ToolSuccess<T> | ToolError;
 // Configuration
 // ============================================================================
 
+export type DataBackend = 'supabase' | 'local';
+
 export interface ServerConfig {
+  backend: DataBackend;
+  /** JSON file used by the local backend (CANVAS_DATA_FILE) */
+  localDataFile?: string;
   supabaseUrl: string;
   supabaseServiceKey: string;
+  supabaseAnonKey?: string;
   defaultWorkspaceId?: string;
+  /** Send a logging message to sessions for each realtime change (CANVAS_LOG_CHANGES) */
+  logChanges?: boolean;
+  /** Count parent tasks by their finished subtasks in project progress (CANVAS_WEIGHT_SUBTASKS) */
+  weightSubtasks?: boolean;
+  /** In-progress and review tasks a person can hold before get_workload flags them (CANVAS_WIP_LIMIT) */
+  wipLimit?: number;
+  /** Time zone for relative due dates in workspaces without their own (CANVAS_TIME_ZONE) */
+  timeZone?: string;
 }
@@ -0,0 +1,37 @@
+-- Activity log for changes made through the MCP server.
+-- Rows are written by the server after each task or project mutation and
+-- read by the get_task_history and get_activity_feed tools.
+
+create table if not exists public.activity_log (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  project_id uuid not null,
+  entity_type text not null check (entity_type in ('task', 'project')),
+  entity_id uuid not null,
+  action text not null check (action in ('create', 'update', 'delete')),
+  tool text not null,
+  actor_id uuid,
+  actor text not null,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists activity_log_workspace_created_idx
+  on public.activity_log (workspace_id, created_at desc);
+
+create index if not exists activity_log_entity_idx
+  on public.activity_log (entity_type, entity_id, created_at desc);
+
+-- Users can read and append entries for workspaces they can see.
+-- Entries are never updated or deleted through the API.
+alter table public.activity_log enable row level security;
+
+create policy "activity_log_select" on public.activity_log
+  for select using (workspace_id in (select id from public.workspaces));
+
+create policy "activity_log_insert" on public.activity_log
+  for insert with check (
+    workspace_id in (select id from public.workspaces)
+    and (actor_id is null or actor_id = auth.uid())
+  );
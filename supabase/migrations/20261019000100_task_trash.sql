@@ -0,0 +1,17 @@
+-- Soft delete for tasks.
+-- delete_task sets deleted_at instead of removing the row; trashed tasks are
+-- hidden from lists and search until restore_task clears it again or
+-- purge_trash removes the row for good.
+
+alter table public.tasks
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists tasks_project_deleted_idx
+  on public.tasks (project_id, deleted_at);
+
+alter table public.activity_log
+  drop constraint if exists activity_log_action_check;
+
+alter table public.activity_log
+  add constraint activity_log_action_check
+  check (action in ('create', 'update', 'trash', 'restore', 'delete'));
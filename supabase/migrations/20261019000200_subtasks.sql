@@ -0,0 +1,9 @@
+-- Subtasks: a task can belong to a parent task in the same project.
+-- Subtasks are one level deep; the server refuses subtasks of subtasks.
+
+alter table public.tasks
+  add column if not exists parent_task_id uuid references public.tasks (id) on delete set null;
+
+create index if not exists tasks_parent_task_idx
+  on public.tasks (parent_task_id)
+  where parent_task_id is not null;
@@ -0,0 +1,28 @@
+-- Task dependencies: task_id can't be started until depends_on_task_id is done.
+-- Cycles are refused by the add_dependency tool.
+
+create table if not exists public.task_dependencies (
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  depends_on_task_id uuid not null references public.tasks (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (task_id, depends_on_task_id),
+  check (task_id <> depends_on_task_id)
+);
+
+create index if not exists task_dependencies_depends_on_idx
+  on public.task_dependencies (depends_on_task_id);
+
+-- Users can manage dependencies between tasks they can see.
+alter table public.task_dependencies enable row level security;
+
+create policy "task_dependencies_select" on public.task_dependencies
+  for select using (task_id in (select id from public.tasks));
+
+create policy "task_dependencies_insert" on public.task_dependencies
+  for insert with check (
+    task_id in (select id from public.tasks)
+    and depends_on_task_id in (select id from public.tasks)
+  );
+
+create policy "task_dependencies_delete" on public.task_dependencies
+  for delete using (task_id in (select id from public.tasks));
@@ -0,0 +1,26 @@
+-- Task comments: notes left on a task, such as what was done and what is left.
+-- author_id is null for comments left with the service role.
+
+create table if not exists public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  body text not null check (length(body) > 0),
+  author_id uuid,
+  author text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_comments_task_created_idx
+  on public.task_comments (task_id, created_at desc);
+
+-- Users can read and comment on tasks they can see.
+alter table public.task_comments enable row level security;
+
+create policy "task_comments_select" on public.task_comments
+  for select using (task_id in (select id from public.tasks));
+
+create policy "task_comments_insert" on public.task_comments
+  for insert with check (
+    task_id in (select id from public.tasks)
+    and (author_id is null or author_id = auth.uid())
+  );
@@ -0,0 +1,39 @@
+-- Time entries: timers opened by start_task and closed when the task leaves
+-- in-progress, plus time logged by hand with log_time.
+-- ended_at and minutes stay null while a timer is running.
+
+create table if not exists public.time_entries (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  assignee text,
+  started_at timestamptz not null,
+  ended_at timestamptz,
+  minutes integer check (minutes >= 0),
+  note text,
+  source text not null check (source in ('timer', 'manual')),
+  author_id uuid,
+  author text not null,
+  check ((ended_at is null) = (minutes is null))
+);
+
+create index if not exists time_entries_project_started_idx
+  on public.time_entries (project_id, started_at);
+
+create index if not exists time_entries_running_idx
+  on public.time_entries (task_id) where ended_at is null;
+
+-- Users can track time on tasks they can see.
+alter table public.time_entries enable row level security;
+
+create policy "time_entries_select" on public.time_entries
+  for select using (task_id in (select id from public.tasks));
+
+create policy "time_entries_insert" on public.time_entries
+  for insert with check (
+    task_id in (select id from public.tasks)
+    and (author_id is null or author_id = auth.uid())
+  );
+
+create policy "time_entries_update" on public.time_entries
+  for update using (task_id in (select id from public.tasks));
@@ -0,0 +1,11 @@
+-- Task estimates and per-project progress modes.
+-- estimate is in the team's unit (story points or hours).
+-- progress_mode picks how project progress is calculated: the share of tasks
+-- done (count), or weighted by task estimate or priority.
+
+alter table public.tasks
+  add column if not exists estimate numeric check (estimate >= 0);
+
+alter table public.projects
+  add column if not exists progress_mode text not null default 'count'
+    check (progress_mode in ('count', 'estimate', 'priority'));
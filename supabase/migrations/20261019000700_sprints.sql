@@ -0,0 +1,37 @@
+-- Sprints: time-boxed plans within a project.
+-- Tasks in no sprint are in the backlog. A sprint is open until closed_at is set.
+
+create table if not exists public.sprints (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null,
+  goal text,
+  start_date date not null,
+  end_date date not null,
+  closed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index if not exists sprints_project_start_idx
+  on public.sprints (project_id, start_date);
+
+alter table public.tasks
+  add column if not exists sprint_id uuid references public.sprints (id) on delete set null;
+
+create index if not exists tasks_sprint_idx
+  on public.tasks (sprint_id)
+  where sprint_id is not null;
+
+-- Users can manage sprints in projects they can see.
+alter table public.sprints enable row level security;
+
+create policy "sprints_select" on public.sprints
+  for select using (project_id in (select id from public.projects));
+
+create policy "sprints_insert" on public.sprints
+  for insert with check (project_id in (select id from public.projects));
+
+create policy "sprints_update" on public.sprints
+  for update using (project_id in (select id from public.projects));
@@ -0,0 +1,5 @@
+-- The analytics tools (get_burndown, get_velocity, get_cycle_time) read a
+-- project's task status changes from the activity log.
+
+create index if not exists activity_log_project_created_idx
+  on public.activity_log (project_id, entity_type, created_at desc);
@@ -0,0 +1,25 @@
+-- Stable task assignees.
+-- assignee_id references the assigned team member; assignee keeps their
+-- display name. Existing free-text assignees are linked when they name
+-- exactly one member of the task's workspace.
+
+alter table public.tasks
+  add column if not exists assignee_id uuid references public.team_members (id) on delete set null;
+
+create index if not exists tasks_assignee_idx
+  on public.tasks (assignee_id);
+
+update public.tasks t
+set assignee_id = m.id,
+    assignee = m.name
+from public.projects p
+join public.team_members m on m.workspace_id = p.workspace_id
+where t.project_id = p.id
+  and t.assignee_id is null
+  and lower(m.name) = lower(t.assignee)
+  and (
+    select count(*)
+    from public.team_members other
+    where other.workspace_id = p.workspace_id
+      and lower(other.name) = lower(t.assignee)
+  ) = 1;
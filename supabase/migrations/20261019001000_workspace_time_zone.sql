@@ -0,0 +1,7 @@
+-- Workspace time zones.
+-- Relative due dates ("next friday") and the overdue / due today windows are
+-- counted in the workspace's IANA time zone, e.g. 'Europe/Berlin'. Null
+-- falls back to CANVAS_TIME_ZONE on the server (default UTC).
+
+alter table public.workspaces
+  add column if not exists time_zone text;
@@ -0,0 +1,7 @@
+-- query_tasks filters tasks by tag and by priority within a set of projects.
+
+create index if not exists tasks_tags_idx
+  on public.tasks using gin (tags);
+
+create index if not exists tasks_project_priority_idx
+  on public.tasks (project_id, priority);
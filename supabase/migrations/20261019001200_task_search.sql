@@ -0,0 +1,84 @@
+-- Ranked full-text task search for search_tasks.
+-- Matches every search term as a word prefix in a task's title, tags,
+-- description or comments, ranked with title matches weighted highest and
+-- comment matches lowest. Each field with any of the terms gets a snippet
+-- with the terms in **bold**. Terms arrive as an array of plain words, so no
+-- part of the user's query is ever parsed as tsquery or filter syntax.
+-- The 'simple' configuration neither stems nor drops stop words; prefix
+-- matching stands in for stemming ("auth" finds "authentication").
+-- Runs as the caller, so row level security still decides what is visible.
+
+create or replace function public.search_tasks(
+  search_terms text[],
+  search_workspace_id uuid default null,
+  search_project_id uuid default null,
+  search_status text default null,
+  result_limit integer default 20
+)
+returns table (
+  task_id uuid,
+  score real,
+  title_snippet text,
+  tags_snippet text,
+  description_snippet text,
+  comments_snippet text
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with query as (
+    select
+      to_tsquery('simple', string_agg(quote_literal(lower(term)) || ':*', ' & ')) as q,
+      to_tsquery('simple', string_agg(quote_literal(lower(term)) || ':*', ' | ')) as q_any
+    from unnest(search_terms) as term
+    where term <> ''
+  ),
+  documents as (
+    select
+      t.id,
+      t.updated_at,
+      coalesce(t.title, '') as title,
+      array_to_string(coalesce(t.tags, '{}'), ' ') as tags,
+      coalesce(t.description, '') as description,
+      coalesce(c.bodies, '') as comments
+    from tasks t
+    join projects p on p.id = t.project_id
+    left join lateral (
+      select string_agg(tc.body, ' ' order by tc.created_at) as bodies
+      from task_comments tc
+      where tc.task_id = t.id
+    ) c on true
+    where t.deleted_at is null
+      and (search_workspace_id is null or p.workspace_id = search_workspace_id)
+      and (search_project_id is null or t.project_id = search_project_id)
+      and (search_status is null or t.status = search_status)
+  ),
+  ranked as (
+    select
+      d.*,
+      query.q,
+      query.q_any,
+      setweight(to_tsvector('simple', d.title), 'A') ||
+      setweight(to_tsvector('simple', d.tags), 'B') ||
+      setweight(to_tsvector('simple', d.description), 'C') ||
+      setweight(to_tsvector('simple', d.comments), 'D') as document
+    from documents d, query
+  )
+  select
+    r.id as task_id,
+    ts_rank(r.document, r.q) as score,
+    case when to_tsvector('simple', r.title) @@ r.q_any
+      then ts_headline('simple', r.title, r.q_any, 'StartSel=**, StopSel=**, HighlightAll=true') end,
+    case when to_tsvector('simple', r.tags) @@ r.q_any
+      then ts_headline('simple', r.tags, r.q_any, 'StartSel=**, StopSel=**, HighlightAll=true') end,
+    case when to_tsvector('simple', r.description) @@ r.q_any
+      then ts_headline('simple', r.description, r.q_any, 'StartSel=**, StopSel=**, MinWords=8, MaxWords=20') end,
+    case when to_tsvector('simple', r.comments) @@ r.q_any
+      then ts_headline('simple', r.comments, r.q_any, 'StartSel=**, StopSel=**, MinWords=8, MaxWords=20') end
+  from ranked r
+  where r.document @@ r.q
+  order by score desc, r.updated_at desc
+  limit result_limit;
+$$;
@@ -0,0 +1,27 @@
+-- Sort keys for paging through tasks in the database (query_tasks).
+-- priority and status are text, so ordering by them would be alphabetical.
+-- This view adds their ranks to sort and page by: priorities most urgent
+-- first, statuses in board order, matching src/repository/ordering.ts.
+-- `t.*` is expanded when the view is created, so recreate the view after
+-- adding columns to tasks.
+-- Runs as the caller, so row level security still decides what is visible.
+
+create or replace view public.tasks_ranked
+with (security_invoker = true) as
+  select
+    t.*,
+    case t.priority
+      when 'critical' then 0
+      when 'high' then 1
+      when 'medium' then 2
+      else 3
+    end as priority_rank,
+    case t.status
+      when 'backlog' then 0
+      when 'todo' then 1
+      when 'in-progress' then 2
+      when 'review' then 3
+      else 4
+    end as status_rank
+  from public.tasks t;
+
@@ -0,0 +1,22 @@
+-- Live updates for resource subscriptions.
+-- The server watches tasks and projects through Supabase Realtime, which
+-- only reports changes to tables in the supabase_realtime publication.
+-- Adding a table twice is an error, so each is only added if missing.
+
+do $$
+declare
+  watched text;
+begin
+  foreach watched in array array['tasks', 'projects'] loop
+    if not exists (
+      select 1
+      from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = watched
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', watched);
+    end if;
+  end loop;
+end
+$$;
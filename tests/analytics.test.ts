@@ -0,0 +1,151 @@
+/**
+ * Analytics Tool Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify that burndown, velocity and cycle time are read from
+ * the status changes in the activity log.
+ */
+
+import { LocalRepository } from '../src/repository/index.js';
+import { getBurndown, getCycleTime, getVelocity } from '../src/tools/analytics.js';
+import { createSprint, addTasksToSprint } from '../src/tools/sprints.js';
+import { createTask } from '../src/tools/tasks.js';
+import type { ToolContext } from '../src/tools/context.js';
+import type { ActivityRow, TaskRow, TaskStatus } from '../src/types/index.js';
+import { expectSuccess, mockProject, mockTasks, mockWorkspace } from './fixtures.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** A done task with an estimate, besides the fixtures' task-1 */
+const doneTask: TaskRow = {
+  ...mockTasks[0],
+  id: 'task-4',
+  title: 'Write docs',
+  estimate: 3,
+  order: 3,
+};
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * MS_PER_DAY).toISOString();
+}
+
+/** A recorded move of a task from one column to another */
+function move(taskId: string, from: TaskStatus, to: TaskStatus, at: string): ActivityRow {
+  return {
+    id: `${taskId}-${at}`,
+    workspace_id: 'ws-123',
+    project_id: 'proj-123',
+    entity_type: 'task',
+    entity_id: taskId,
+    action: 'update',
+    tool: 'move_task',
+    actor_id: null,
+    actor: 'service',
+    before: { status: from },
+    after: { status: to },
+    created_at: at,
+  };
+}
+
+function createContext(activity: ActivityRow[]): ToolContext {
+  return {
+    repo: new LocalRepository({
+      seed: {
+        workspaces: [mockWorkspace],
+        projects: [mockProject],
+        tasks: [...mockTasks, doneTask],
+        activity_log: activity,
+      },
+    }),
+  };
+}
+
+describe('Analytics', () => {
+  it('should measure cycle time from in-progress to done, with time in review', async () => {
+    const ctx = createContext([
+      move('task-1', 'todo', 'in-progress', '2026-10-01T09:00:00.000Z'),
+      move('task-1', 'in-progress', 'review', '2026-10-02T09:00:00.000Z'),
+      move('task-1', 'review', 'done', '2026-10-03T09:00:00.000Z'),
+      move('task-4', 'todo', 'in-progress', '2026-10-05T00:00:00.000Z'),
+      move('task-4', 'in-progress', 'done', '2026-10-05T12:00:00.000Z'),
+    ]);
+
+    const report = expectSuccess(await getCycleTime(ctx, 'proj-123'));
+
+    expect(report).toMatchObject({ tasks: 2, skipped: 0 });
+    expect(report.cycle_time).toEqual({ median_hours: 30, p90_hours: 44.4 });
+    expect(report.review_time).toEqual({ median_hours: 12, p90_hours: 21.6 });
+    expect(report.slowest[0]).toMatchObject({ task_id: 'task-1', cycle_hours: 48, review_hours: 24 });
+  });
+
+  it('should read the whole activity log when it spans several pages', async () => {
+    const ctx = createContext([
+      move('task-1', 'todo', 'in-progress', '2026-10-01T09:00:00.000Z'),
+      move('task-1', 'in-progress', 'review', '2026-10-02T09:00:00.000Z'),
+      move('task-1', 'review', 'done', '2026-10-03T09:00:00.000Z'),
+      move('task-4', 'todo', 'in-progress', '2026-10-05T00:00:00.000Z'),
+      move('task-4', 'in-progress', 'done', '2026-10-05T12:00:00.000Z'),
+    ]);
+
+    // Like the hosted database's max rows, return at most two entries per request
+    const listActivity = ctx.repo.listActivity.bind(ctx.repo);
+    ctx.repo.listActivity = async (filter) => {
+      const result = await listActivity(filter);
+      return result.error ? result : { data: result.data.slice(0, 2), error: null };
+    };
+
+    const report = expectSuccess(await getCycleTime(ctx, 'proj-123'));
+
+    expect(report).toMatchObject({ tasks: 2, skipped: 0 });
+    expect(report.slowest[0]).toMatchObject({ task_id: 'task-1', cycle_hours: 48, review_hours: 24 });
+  });
+
+  it('should count tasks and points in the week they were last completed', async () => {
+    const ctx = createContext([
+      move('task-1', 'review', 'done', daysAgo(7)),
+      move('task-2', 'review', 'done', daysAgo(7)),
+      move('task-2', 'done', 'in-progress', daysAgo(6)), // reopened, so not counted
+      move('task-4', 'review', 'done', daysAgo(0)),
+    ]);
+
+    const velocity = expectSuccess(await getVelocity(ctx, { workspace_id: 'ws-123', weeks: 2 }));
+
+    expect(velocity.weeks.map((w) => [w.tasks, w.points])).toEqual([
+      [1, 0],
+      [1, 3],
+    ]);
+    expect(velocity).toMatchObject({ average_tasks: 1, average_points: 0 });
+  });
+
+  it("should chart a sprint's remaining tasks against the ideal line", async () => {
+    const ctx = createContext([move('task-1', 'review', 'done', daysAgo(2))]);
+    const sprint = expectSuccess(await createSprint(ctx, {
+      project_id: 'proj-123',
+      name: 'Sprint 1',
+      start_date: daysAgo(4).slice(0, 10),
+      end_date: daysAgo(-5).slice(0, 10),
+    }));
+    await addTasksToSprint(ctx, { sprint_id: sprint.id, task_ids: ['task-1', 'task-2', 'task-3'] });
+
+    const burndown = expectSuccess(await getBurndown(ctx, { sprint_id: sprint.id }));
+
+    expect(burndown.days.map((d) => d.remaining_tasks)).toEqual([3, 3, 2, 2, 2]);
+    expect(burndown.days[0].ideal_tasks).toBe(3);
+    expect(burndown.days[4].ideal_tasks).toBe(1.7);
+    expect(burndown.on_track).toBe(false);
+  });
+
+  it('should leave tasks out of a project burndown before they were created', async () => {
+    const ctx = createContext([]);
+    await createTask(ctx, { project_id: 'proj-123', title: 'New work', estimate: 5 });
+
+    const burndown = expectSuccess(await getBurndown(ctx, { project_id: 'proj-123', days: 3 }));
+
+    expect(burndown.days.map((d) => [d.remaining_tasks, d.remaining_estimate])).toEqual([
+      [2, 0],
+      [2, 0],
+      [3, 5],
+    ]);
+    // The fixture project was due in 2024
+    expect(burndown.on_track).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Authentication Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify how access tokens are read from incoming requests.
+ */
+
+import { extractBearerToken } from '../src/server/auth.js';
+
+describe('extractBearerToken', () => {
+  it('should read a token from the Authorization header', () => {
+    const token = extractBearerToken({
+      headers: { authorization: 'Bearer abc.def.ghi' },
+      query: {},
+    });
+
+    expect(token).toBe('abc.def.ghi');
+  });
+
+  it('should accept a case-insensitive Bearer scheme', () => {
+    const token = extractBearerToken({
+      headers: { authorization: 'bearer abc' },
+      query: {},
+    });
+
+    expect(token).toBe('abc');
+  });
+
+  it('should fall back to the token query parameter', () => {
+    const token = extractBearerToken({
+      headers: {},
+      query: { token: 'from-query' },
+    });
+
+    expect(token).toBe('from-query');
+  });
+
+  it('should prefer the header over the query parameter', () => {
+    const token = extractBearerToken({
+      headers: { authorization: 'Bearer from-header' },
+      query: { token: 'from-query' },
+    });
+
+    expect(token).toBe('from-header');
+  });
+
+  it('should return null when no token is provided', () => {
+    expect(extractBearerToken({ headers: {}, query: {} })).toBeNull();
+    expect(extractBearerToken({ headers: { authorization: 'Basic xyz' }, query: {} })).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Bulk Task Tool Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify per-item results, batching and progress reporting
+ * of the bulk task tools.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
+
+import { createMCPServer } from '../src/server/createMCPServer.js';
+import { BULK_BATCH_SIZE, bulkCreateTasks, bulkMoveTasks, bulkUpdateTasks } from '../src/tools/bulk.js';
+import { getProject } from '../src/tools/projects.js';
+import { createTask, deleteTask, getTask, listProjectTasks } from '../src/tools/tasks.js';
+import { getActivityFeed } from '../src/tools/activity.js';
+import type { ToolContext } from '../src/tools/context.js';
+import { createTestContext, expectSuccess } from './fixtures.js';
+
+describe('Bulk Task Tools', () => {
+  let ctx: ToolContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  it('should create tasks in order and report failures per item', async () => {
+    const results = expectSuccess(await bulkCreateTasks(ctx, {
+      tasks: [
+        { project_id: 'proj-123', title: 'First' },
+        { project_id: 'missing', title: 'Misfiled' },
+        { project_id: 'proj-123', title: 'Second', status: 'done' },
+      ],
+    }));
+
+    expect(results.map((r) => r.success)).toEqual([true, false, true]);
+    if (!results[1].success) {
+      expect(results[1].code).toBe('PROJECT_NOT_FOUND');
+    }
+
+    const orders = results.flatMap((r) => (r.success ? [r.data.order] : []));
+    const project = expectSuccess(await getProject(ctx, { project_id: 'proj-123', include_tasks: false }));
+    expect(orders).toEqual([3, 1]); // bottom of the todo and done columns
+    expect(project.progress).toBe(40); // 2 out of 5 tasks done
+  });
+
+  it('should update tasks and skip unknown or repeated ones', async () => {
+    const results = expectSuccess(await bulkUpdateTasks(ctx, {
+      tasks: [
+        { task_id: 'task-2', priority: 'high' },
+        { task_id: 'missing', priority: 'low' },
+        { task_id: 'task-2', priority: 'low' },
+      ],
+    }));
+
+    expect(results.map((r) => (r.success ? 'ok' : r.code))).toEqual(['ok', 'TASK_NOT_FOUND', 'DUPLICATE_TASK']);
+    expect(expectSuccess(await getTask(ctx, 'task-2')).priority).toBe('high');
+  });
+
+  it('should leave trashed tasks alone', async () => {
+    expectSuccess(await deleteTask(ctx, 'task-3'));
+
+    const results = expectSuccess(await bulkMoveTasks(ctx, { tasks: [{ task_id: 'task-3', new_status: 'done' }] }));
+
+    expect(results[0].success === false && results[0].code).toBe('TASK_NOT_FOUND');
+    expect(expectSuccess(await getTask(ctx, 'task-3')).status).toBe('todo');
+  });
+
+  it('should fail an item whose row does not come back from the write', async () => {
+    const updateTasks = ctx.repo.updateTasks.bind(ctx.repo);
+    ctx.repo.updateTasks = async (tasks) => {
+      const { data, error } = await updateTasks(tasks);
+      return error ? { data, error } : { data: data.filter((t) => t.id !== 'task-3'), error };
+    };
+
+    const results = expectSuccess(await bulkUpdateTasks(ctx, {
+      tasks: [
+        { task_id: 'task-2', priority: 'high' },
+        { task_id: 'task-3', priority: 'low' },
+      ],
+    }));
+
+    expect(results.map((r) => (r.success ? 'ok' : r.code))).toEqual(['ok', 'DATABASE_ERROR']);
+  });
+
+  it('should move tasks, recompute progress and log each move', async () => {
+    expectSuccess(await bulkMoveTasks(ctx, {
+      tasks: [
+        { task_id: 'task-2', new_status: 'done' },
+        { task_id: 'task-3', new_status: 'done' },
+      ],
+    }));
+
+    const project = expectSuccess(await getProject(ctx, { project_id: 'proj-123', include_tasks: false }));
+    const feed = expectSuccess(await getActivityFeed(ctx, { workspace_id: 'ws-123' }));
+
+    expect(project.progress).toBe(100);
+    expect(feed.filter((e) => e.entity_type === 'task' && e.tool === 'bulk_move_tasks')).toHaveLength(2);
+  });
+
+  it('should close the gaps moved tasks leave in their columns', async () => {
+    const first = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'First' }));
+    expectSuccess(await bulkMoveTasks(ctx, { tasks: [{ task_id: 'task-3', new_status: 'done' }] }));
+
+    const { data: todo } = await ctx.repo.listTasks({ projectIds: ['proj-123'], statuses: ['todo'] });
+    expect(todo?.map((t) => [t.id, t.order])).toEqual([[first.id, 0]]);
+  });
+
+  it('should send a progress notification after each batch', async () => {
+    const server = createMCPServer(ctx);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const count = BULK_BATCH_SIZE + 5;
+    const tasks = Array.from({ length: count }, (_, i) => ({ project_id: 'proj-123', title: `Subtask ${i + 1}` }));
+    const progress: Progress[] = [];
+
+    await client.callTool({ name: 'bulk_create_tasks', arguments: { tasks } }, undefined, {
+      onprogress: (p) => progress.push(p),
+    });
+
+    expect(progress.map((p) => p.progress)).toEqual([BULK_BATCH_SIZE, count]);
+    expect(progress[1]).toMatchObject({ total: count, message: `Created ${count} of ${count} task(s)` });
+    expect(expectSuccess(await listProjectTasks(ctx, 'proj-123'))).toHaveLength(3 + count);
+    await client.close();
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Comment Tool Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify comment authors, ordering and the closing note left
+ * by complete_task.
+ */
+
+import { addTaskComment, listTaskComments, RECENT_COMMENT_LIMIT } from '../src/tools/comments.js';
+import { completeTask, deleteTask, getTask } from '../src/tools/tasks.js';
+import type { ToolContext } from '../src/tools/context.js';
+import { createTestContext, expectSuccess } from './fixtures.js';
+
+describe('Task Comments', () => {
+  let ctx: ToolContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  it('should record the author and list comments newest first', async () => {
+    await addTaskComment(ctx, { task_id: 'task-2', body: 'Layout done' });
+    const userCtx = { ...ctx, user: { id: 'user-123', email: 'jane@example.com' } };
+    await addTaskComment(userCtx, { task_id: 'task-2', body: 'Charts left' });
+
+    const comments = expectSuccess(await listTaskComments(ctx, { task_id: 'task-2' }));
+
+    expect(comments.map((c) => [c.body, c.author, c.author_id])).toEqual([
+      ['Charts left', 'jane@example.com', 'user-123'],
+      ['Layout done', 'service', null],
+    ]);
+  });
+
+  it('should leave the completion note as a comment without touching the description', async () => {
+    const result = await completeTask(ctx, 'task-2', 'Shipped; charts moved to a follow-up');
+    expect(result).toMatchObject({ success: true, message: expect.stringContaining('with a note') });
+
+    const task = expectSuccess(await getTask(ctx, 'task-2'));
+    expect(task.status).toBe('done');
+    expect(task.description).toBe('Create main dashboard view');
+    expect(task.comments.map((c) => c.body)).toEqual(['Shipped; charts moved to a follow-up']);
+  });
+
+  it('should only return the most recent comments with the task', async () => {
+    for (let i = 1; i <= RECENT_COMMENT_LIMIT + 2; i++) {
+      await addTaskComment(ctx, { task_id: 'task-3', body: `Note ${i}` });
+    }
+
+    const task = expectSuccess(await getTask(ctx, 'task-3'));
+
+    expect(task.comments).toHaveLength(RECENT_COMMENT_LIMIT);
+    expect(task.comments[0].body).toBe(`Note ${RECENT_COMMENT_LIMIT + 2}`);
+  });
+
+  it('should refuse comments on trashed tasks but keep their comments', async () => {
+    await addTaskComment(ctx, { task_id: 'task-3', body: 'Blocked on API keys' });
+    await deleteTask(ctx, 'task-3');
+
+    const result = await addTaskComment(ctx, { task_id: 'task-3', body: 'Still blocked' });
+
+    expect(result).toMatchObject({ success: false, code: 'TASK_IN_TRASH' });
+    expect(expectSuccess(await listTaskComments(ctx, { task_id: 'task-3' }))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Deadline Tool Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify relative due date phrases, the due task windows and
+ * project deadlines.
+ */
+
+import { getDueTasks, getProjectDeadlines } from '../src/tools/deadlines.js';
+import { addDays, parseDuePhrase, todayIn } from '../src/tools/dates.js';
+import { createTask, updateTask } from '../src/tools/tasks.js';
+import { createSprint } from '../src/tools/sprints.js';
+import type { ToolContext } from '../src/tools/context.js';
+import { createTestContext, expectSuccess } from './fixtures.js';
+
+describe('Deadlines', () => {
+  let ctx: ToolContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  it('should turn relative due dates into ISO dates', () => {
+    // 2024-05-15 is a Wednesday
+    const today = '2024-05-15';
+
+    expect(parseDuePhrase('tomorrow', today)).toBe('2024-05-16');
+    expect(parseDuePhrase('Next Friday', today)).toBe('2024-05-17');
+    expect(parseDuePhrase('wednesday', today)).toBe('2024-05-15');
+    expect(parseDuePhrase('next wednesday', today)).toBe('2024-05-22');
+    expect(parseDuePhrase('in 3 days', today)).toBe('2024-05-18');
+    expect(parseDuePhrase('in two weeks', today)).toBe('2024-05-29');
+    expect(parseDuePhrase('by end of month', today)).toBe('2024-05-31');
+    expect(parseDuePhrase('in a month', '2024-01-31')).toBe('2024-02-29');
+    expect(parseDuePhrase('someday', today)).toBeNull();
+    expect(todayIn('Pacific/Kiritimati', new Date('2024-05-15T12:00:00Z'))).toBe('2024-05-16');
+  });
+
+  it('should list overdue and due-today tasks', async () => {
+    const dueToday = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'Send invoice', due_date: 'today' }));
+    expect(dueToday.due_date).toBe(todayIn('UTC'));
+
+    const overdue = expectSuccess(await getDueTasks(ctx, { workspace_id: 'ws-123', window: 'overdue' }));
+    expect(overdue.tasks.map((t) => t.id)).toEqual(['task-2']);
+    expect(overdue.tasks[0].project.name).toBe('Test Project');
+
+    const today = expectSuccess(await getDueTasks(ctx, { workspace_id: 'ws-123', window: 'today' }));
+    expect(today.tasks.map((t) => t.title)).toEqual(['Send invoice']);
+
+    const range = expectSuccess(
+      await getDueTasks(ctx, { workspace_id: 'ws-123', window: 'range', from: '2024-01-01', to: '2024-01-31' })
+    );
+    expect(range.tasks.map((t) => t.id)).toEqual(['task-2']);
+  });
+
+  it('should set "end of sprint" from the task or project sprint', async () => {
+    const today = todayIn('UTC');
+    const sprint = expectSuccess(
+      await createSprint(ctx, { project_id: 'proj-123', name: 'Sprint 1', start_date: addDays(today, -3), end_date: addDays(today, 10) })
+    );
+
+    const task = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'Ship it', due_date: 'end of sprint' }));
+    expect(task.due_date).toBe(sprint.end_date.slice(0, 10));
+
+    const cleared = expectSuccess(await updateTask(ctx, { task_id: task.id, due_date: null }));
+    expect(cleared.due_date).toBeNull();
+
+    const unreadable = await updateTask(ctx, { task_id: 'task-3', due_date: 'whenever' });
+    expect(unreadable.success === false && unreadable.code).toBe('INVALID_DUE_DATE');
+  });
+
+  it('should list project deadlines with the work left', async () => {
+    const deadlines = expectSuccess(await getProjectDeadlines(ctx, { workspace_id: 'ws-123' }));
+
+    expect(deadlines).toHaveLength(1);
+    expect(deadlines[0]).toMatchObject({
+      project_id: 'proj-123',
+      due_date: '2024-12-31',
+      overdue: true,
+      open_tasks: 2,
+      overdue_tasks: 1,
+    });
+    expect(deadlines[0].days_left).toBeLessThan(0);
+  });
+});
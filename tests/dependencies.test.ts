@@ -0,0 +1,99 @@
+/**
+ * Dependency Tool Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify cycle detection and how unfinished dependencies
+ * block starting work.
+ */
+
+import { addDependency, removeDependency, getBlockedTasks } from '../src/tools/dependencies.js';
+import { createTask, deleteTask, moveTask, startTask, updateTask } from '../src/tools/tasks.js';
+import { bulkMoveTasks } from '../src/tools/bulk.js';
+import { getWorkInProgress } from '../src/tools/workspaces.js';
+import type { ToolContext } from '../src/tools/context.js';
+import { createTestContext, expectSuccess } from './fixtures.js';
+
+describe('Task Dependencies', () => {
+  let ctx: ToolContext;
+
+  beforeEach(async () => {
+    ctx = createTestContext();
+    // task-3 (todo) waits for task-2 (in progress)
+    expectSuccess(await addDependency(ctx, { task_id: 'task-3', depends_on_task_id: 'task-2' }));
+  });
+
+  it('should warn when starting a blocked task, or refuse when strict', async () => {
+    const strict = await startTask(ctx, 'task-3', true);
+    expect(strict).toMatchObject({ success: false, code: 'TASK_BLOCKED' });
+
+    const started = await startTask(ctx, 'task-3');
+    expect(started.success && started.warnings).toEqual([
+      '"API integration" depends on unfinished task(s): "Add dashboard" (in-progress)',
+    ]);
+  });
+
+  it('should warn on every status change that starts or finishes a blocked task', async () => {
+    const warning = '"API integration" depends on unfinished task(s): "Add dashboard" (in-progress)';
+
+    const updated = await updateTask(ctx, { task_id: 'task-3', status: 'done' });
+    expect(updated.success && updated.warnings).toEqual([warning]);
+
+    await updateTask(ctx, { task_id: 'task-3', status: 'todo' });
+    const [moved] = expectSuccess(await bulkMoveTasks(ctx, { tasks: [{ task_id: 'task-3', new_status: 'review' }] }));
+    expect(moved.success && moved.warnings).toEqual([warning]);
+  });
+
+  it('should not warn when the blocker is finished in the same bulk move', async () => {
+    const results = expectSuccess(await bulkMoveTasks(ctx, {
+      tasks: [
+        { task_id: 'task-2', new_status: 'done' },
+        { task_id: 'task-3', new_status: 'in-progress' },
+      ],
+    }));
+
+    expect(results.map((r) => r.success && r.warnings)).toEqual([undefined, undefined]);
+  });
+
+  it('should stop blocking once the dependency is done or trashed', async () => {
+    await moveTask(ctx, { task_id: 'task-2', new_status: 'done' });
+    const started = expectSuccess(await startTask(ctx, 'task-3', true));
+    expect(started.status).toBe('in-progress');
+
+    const other = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'Other' }));
+    const blocker = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'Blocker' }));
+    await addDependency(ctx, { task_id: other.id, depends_on_task_id: blocker.id });
+    await deleteTask(ctx, blocker.id);
+    expectSuccess(await startTask(ctx, other.id, true));
+  });
+
+  it('should refuse dependencies that create a cycle', async () => {
+    expectSuccess(await addDependency(ctx, { task_id: 'task-2', depends_on_task_id: 'task-1' }));
+
+    const cycle = await addDependency(ctx, { task_id: 'task-1', depends_on_task_id: 'task-3' });
+    const self = await addDependency(ctx, { task_id: 'task-1', depends_on_task_id: 'task-1' });
+
+    expect(cycle).toMatchObject({ success: false, code: 'DEPENDENCY_CYCLE' });
+    expect(self).toMatchObject({ success: false, code: 'DEPENDENCY_CYCLE' });
+  });
+
+  it('should list blocked tasks and mark blocked work in progress', async () => {
+    // task-1 is done, so it doesn't block task-2 until it is reopened
+    await addDependency(ctx, { task_id: 'task-2', depends_on_task_id: 'task-1' });
+    const blocked = expectSuccess(await getBlockedTasks(ctx, 'proj-123'));
+
+    expect(blocked.map((t) => [t.id, t.blocked_by.map((b) => b.id)])).toEqual([['task-3', ['task-2']]]);
+
+    await moveTask(ctx, { task_id: 'task-1', new_status: 'todo' });
+    const wip = expectSuccess(await getWorkInProgress(ctx, 'ws-123'));
+    expect(wip.find((t) => t.id === 'task-2')?.blocked_by.map((b) => b.id)).toEqual(['task-1']);
+  });
+
+  it('should remove dependencies', async () => {
+    expectSuccess(await removeDependency(ctx, { task_id: 'task-3', depends_on_task_id: 'task-2' }));
+
+    expect(expectSuccess(await getBlockedTasks(ctx, 'proj-123'))).toHaveLength(0);
+    expect(await removeDependency(ctx, { task_id: 'task-3', depends_on_task_id: 'task-2' })).toMatchObject({
+      success: false,
+      code: 'DEPENDENCY_NOT_FOUND',
+    });
+  });
+});
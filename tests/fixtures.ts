@@ -0,0 +1,156 @@
+/**
+ * Shared Test Fixtures for Limitless Canvas MCP Server
+ *
+ * Mock workspace, project, tasks and team, plus helpers to run tool functions
+ * against a local in-memory backend seeded with them.
+ */
+
+import { LocalRepository } from '../src/repository/index.js';
+import type { ToolContext } from '../src/tools/context.js';
+import type { ToolResult, TaskRow, ProjectRow, TeamMemberRow, WorkspaceRow } from '../src/types/index.js';
+
+// Mock data for testing
+export const mockWorkspace: WorkspaceRow = {
+  id: 'ws-123',
+  name: 'Test Workspace',
+  color: '#8B5CF6',
+  logo: null,
+  owner_id: 'user-123',
+  time_zone: null,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+};
+
+export const mockProject: ProjectRow = {
+  id: 'proj-123',
+  workspace_id: 'ws-123',
+  name: 'Test Project',
+  description: 'A test project',
+  status: 'active',
+  priority: 'medium',
+  progress: 25,
+  budget: 10000,
+  spent: 2500,
+  due_date: '2024-12-31',
+  client_id: null,
+  team_size: 3,
+  item_type: 'project',
+  estimated_duration_hours: 100,
+  progress_mode: 'count',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-15T00:00:00.000Z',
+};
+
+export const mockTasks: TaskRow[] = [
+  {
+    id: 'task-1',
+    project_id: 'proj-123',
+    title: 'Implement login',
+    description: 'Add user authentication',
+    status: 'done',
+    priority: 'high',
+    assignee: 'John',
+    assignee_id: 'member-1',
+    due_date: '2024-01-10',
+    tags: ['auth', 'frontend'],
+    estimate: null,
+    order: 0,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-10T00:00:00.000Z',
+    parent_task_id: null,
+    deleted_at: null,
+    sprint_id: null,
+  },
+  {
+    id: 'task-2',
+    project_id: 'proj-123',
+    title: 'Add dashboard',
+    description: 'Create main dashboard view',
+    status: 'in-progress',
+    priority: 'medium',
+    assignee: 'Jane',
+    assignee_id: 'member-2',
+    due_date: '2024-01-20',
+    tags: ['frontend', 'ui'],
+    estimate: null,
+    order: 1,
+    created_at: '2024-01-05T00:00:00.000Z',
+    updated_at: '2024-01-15T00:00:00.000Z',
+    parent_task_id: null,
+    deleted_at: null,
+    sprint_id: null,
+  },
+  {
+    id: 'task-3',
+    project_id: 'proj-123',
+    title: 'API integration',
+    description: 'Connect to backend API',
+    status: 'todo',
+    priority: 'high',
+    assignee: null,
+    assignee_id: null,
+    due_date: null,
+    tags: ['backend', 'api'],
+    estimate: null,
+    order: 2,
+    created_at: '2024-01-10T00:00:00.000Z',
+    updated_at: '2024-01-10T00:00:00.000Z',
+    parent_task_id: null,
+    deleted_at: null,
+    sprint_id: null,
+  },
+];
+
+export const mockTeamMembers: TeamMemberRow[] = [
+  {
+    id: 'member-1',
+    workspace_id: 'ws-123',
+    name: 'John',
+    email: 'john@example.com',
+    role: 'developer',
+    avatar: null,
+    department: 'Engineering',
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'member-2',
+    workspace_id: 'ws-123',
+    name: 'Jane',
+    email: 'jane@example.com',
+    role: 'designer',
+    avatar: null,
+    department: 'Design',
+    status: 'active',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  },
+];
+
+/**
+ * Create a tool context over a fresh local store seeded with the mock data.
+ */
+export function createTestContext(filePath?: string): ToolContext {
+  return {
+    repo: new LocalRepository({
+      filePath,
+      seed: {
+        workspaces: [mockWorkspace],
+        projects: [mockProject],
+        tasks: mockTasks,
+        team_members: mockTeamMembers,
+      },
+    }),
+  };
+}
+
+/**
+ * Unwrap a successful tool result, failing the test otherwise.
+ */
+export function expectSuccess<T>(result: ToolResult<T>): T {
+  if (!result.success) {
+    throw new Error(`Expected success, got ${result.code}: ${result.error}`);
+  }
+  return result.data;
+}
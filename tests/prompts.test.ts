@@ -0,0 +1,56 @@
+/**
+ * Prompt Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify prompt arguments and the board state each prompt
+ * embeds, against the local in-memory backend.
+ */
+
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import { getPrompt, PROMPTS } from '../src/server/prompts.js';
+import type { ToolContext } from '../src/tools/context.js';
+import { createTestContext } from './fixtures.js';
+
+function promptText(result: Awaited<ReturnType<typeof getPrompt>>): string {
+  const [message] = result.messages;
+  return message.content.type === 'text' ? message.content.text : '';
+}
+
+describe('Prompts', () => {
+  let ctx: ToolContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  it('should declare a required argument for every prompt', () => {
+    for (const prompt of PROMPTS) {
+      expect(prompt.arguments?.every(a => a.required)).toBe(true);
+    }
+  });
+
+  it('should include work in progress in the daily standup', async () => {
+    const text = promptText(await getPrompt(ctx, 'daily_standup', { workspace_id: 'ws-123' }));
+
+    expect(text).toContain('## In progress (1)');
+    expect(text).toContain('Add dashboard');
+  });
+
+  it('should list todo tasks when planning a sprint', async () => {
+    const text = promptText(await getPrompt(ctx, 'plan_sprint', { project_id: 'proj-123' }));
+
+    expect(text).toContain('## Todo (1)');
+    expect(text).toContain('API integration');
+  });
+
+  it('should include the task when breaking it down', async () => {
+    const text = promptText(await getPrompt(ctx, 'break_down_task', { task_id: 'task-3' }));
+
+    expect(text).toContain('Break down the task "API integration"');
+  });
+
+  it('should reject missing arguments and unknown prompts', async () => {
+    await expect(getPrompt(ctx, 'plan_sprint', {})).rejects.toThrow(McpError);
+    await expect(getPrompt(ctx, 'retro', { project_id: 'proj-123' })).rejects.toThrow('Unknown prompt');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Task Query Tool Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify query_tasks filtering, sorting and cursor pagination.
+ */
+
+import { queryTasks } from '../src/tools/query.js';
+import { deleteTask } from '../src/tools/tasks.js';
+import type { TaskFilter } from '../src/repository/index.js';
+import type { ToolContext } from '../src/tools/context.js';
+import type { QueryTasksInput } from '../src/types/index.js';
+import { createTestContext, expectSuccess } from './fixtures.js';
+
+describe('Task Query', () => {
+  let ctx: ToolContext;
+
+  const ids = async (input: Omit<QueryTasksInput, 'workspace_id'>) =>
+    expectSuccess(await queryTasks(ctx, { workspace_id: 'ws-123', ...input })).tasks.map((t) => t.id);
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  it('should match every given filter', async () => {
+    expect(await ids({ tags: ['frontend'], sort: 'order' })).toEqual(['task-2', 'task-1']);
+    expect(await ids({ tags: ['frontend', 'ui'], tag_match: 'all' })).toEqual(['task-2']);
+    expect(await ids({ priorities: ['high', 'critical'], statuses: ['todo', 'in-progress'] })).toEqual(['task-3']);
+    expect(await ids({ assignee: 'jane@example.com' })).toEqual(['task-2']);
+    expect(await ids({ assignee: '' })).toEqual(['task-3']);
+    expect(await ids({ created_since: '2024-01-05', sort: 'order' })).toEqual(['task-3', 'task-2']);
+    expect(await ids({ due_from: '2024-01-01', due_to: '2024-01-10' })).toEqual(['task-1']);
+    expect(await ids({ project_statuses: ['completed'] })).toEqual([]);
+  });
+
+  it('should sort by priority, due date and last update', async () => {
+    expect(await ids({ sort: 'priority' })).toEqual(['task-1', 'task-3', 'task-2']);
+    expect(await ids({ sort: 'due_date' })).toEqual(['task-1', 'task-2', 'task-3']);
+    expect(await ids({ sort: 'updated_at' })).toEqual(['task-2', 'task-1', 'task-3']);
+  });
+
+  it('should page through results with a cursor', async () => {
+    const first = expectSuccess(await queryTasks(ctx, { workspace_id: 'ws-123', sort: 'due_date', limit: 2 }));
+    expect(first.tasks.map((t) => t.id)).toEqual(['task-1', 'task-2']);
+    expect(first.total).toBe(3);
+    expect(first.next_cursor).not.toBeNull();
+
+    const second = expectSuccess(
+      await queryTasks(ctx, { workspace_id: 'ws-123', sort: 'due_date', limit: 2, cursor: first.next_cursor as string })
+    );
+    expect(second.tasks.map((t) => t.id)).toEqual(['task-3']);
+    expect(second.next_cursor).toBeNull();
+
+    const otherSort = await queryTasks(ctx, { workspace_id: 'ws-123', sort: 'priority', cursor: first.next_cursor as string });
+    expect(otherSort.success === false && otherSort.code).toBe('INVALID_CURSOR');
+
+    const garbage = await queryTasks(ctx, { workspace_id: 'ws-123', cursor: 'not-a-cursor' });
+    expect(garbage.success === false && garbage.code).toBe('INVALID_CURSOR');
+  });
+
+  it('should read one page at a time from the repository', async () => {
+    const reads: TaskFilter[] = [];
+    const listTasks = ctx.repo.listTasks.bind(ctx.repo);
+    ctx.repo.listTasks = async (filter) => {
+      reads.push(filter);
+      return listTasks(filter);
+    };
+
+    const first = expectSuccess(await queryTasks(ctx, { workspace_id: 'ws-123', sort: 'priority', limit: 1 }));
+    expect(first.tasks.map((t) => t.id)).toEqual(['task-1']);
+    expect(reads[0]).toMatchObject({ limit: 2, after: undefined });
+
+    // The cursor names the last task, so trashing it doesn't shift the next page
+    await deleteTask(ctx, 'task-1');
+    const second = expectSuccess(
+      await queryTasks(ctx, { workspace_id: 'ws-123', sort: 'priority', limit: 1, cursor: first.next_cursor as string })
+    );
+    expect(second.tasks.map((t) => t.id)).toEqual(['task-3']);
+    expect(second.total).toBe(2);
+    expect(reads[reads.length - 1].after).toMatchObject({ id: 'task-1', priority: 'high' });
+  });
+});
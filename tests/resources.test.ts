@@ -0,0 +1,66 @@
+/**
+ * Resource Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify canvas:// URI parsing and resource reads
+ * against the local in-memory backend.
+ */
+
+import { listResources, parseResourceUri, readResource } from '../src/server/resources.js';
+import type { ToolContext } from '../src/tools/context.js';
+import { createTestContext } from './fixtures.js';
+
+describe('Resources', () => {
+  let ctx: ToolContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  describe('parseResourceUri', () => {
+    it('should parse every URI template', () => {
+      expect(parseResourceUri('canvas://workspace/ws-123')).toEqual({ type: 'workspace', id: 'ws-123' });
+      expect(parseResourceUri('canvas://project/proj-123')).toEqual({ type: 'project', id: 'proj-123' });
+      expect(parseResourceUri('canvas://project/proj-123/board')).toEqual({ type: 'board', id: 'proj-123' });
+      expect(parseResourceUri('canvas://task/task-1')).toEqual({ type: 'task', id: 'task-1' });
+    });
+
+    it('should reject unknown URIs', () => {
+      expect(parseResourceUri('canvas://task/task-1/board')).toBeNull();
+      expect(parseResourceUri('canvas://sprint/1')).toBeNull();
+      expect(parseResourceUri('https://example.com')).toBeNull();
+    });
+  });
+
+  it('should list workspaces, projects and boards', async () => {
+    const uris = (await listResources(ctx)).map(r => r.uri);
+
+    expect(uris).toEqual(expect.arrayContaining([
+      'canvas://workspace/ws-123',
+      'canvas://project/proj-123',
+      'canvas://project/proj-123/board',
+    ]));
+  });
+
+  it('should read a board as Markdown and JSON', async () => {
+    const result = await readResource(ctx, 'canvas://project/proj-123/board');
+    const [markdown, json] = result.contents as { mimeType: string; text: string }[];
+
+    expect(markdown.mimeType).toBe('text/markdown');
+    expect(markdown.text).toContain('## In Progress (1)');
+    expect(markdown.text).toContain('Add dashboard');
+    expect(json.mimeType).toBe('application/json');
+    expect(JSON.parse(json.text).columns.done[0].id).toBe('task-1');
+  });
+
+  it('should read a task', async () => {
+    const result = await readResource(ctx, 'canvas://task/task-3');
+    const [markdown] = result.contents as { text: string }[];
+
+    expect(markdown.text).toContain('# Task: API integration');
+    expect(markdown.text).toContain('Unassigned');
+  });
+
+  it('should fail for missing resources', async () => {
+    await expect(readResource(ctx, 'canvas://task/missing')).rejects.toThrow('Resource not found');
+  });
+});
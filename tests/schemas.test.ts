@@ -0,0 +1,67 @@
+/**
+ * Tool Input Schema Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify that tool arguments are validated at runtime and that
+ * the advertised JSON Schemas are generated from the same zod schemas.
+ */
+
+import { TOOL_SCHEMAS, isToolName, toInputSchema, toInvalidInputError } from '../src/server/schemas.js';
+import { TOOLS } from '../src/server/createMCPServer.js';
+
+describe('Tool Input Schemas', () => {
+  it('should have a schema for every advertised tool', () => {
+    for (const tool of TOOLS) {
+      expect(isToolName(tool.name)).toBe(true);
+    }
+  });
+
+  it('should generate object JSON Schemas with required fields', () => {
+    const schema = toInputSchema('create_task');
+
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual(['project_id', 'title']);
+    expect(schema).not.toHaveProperty('$schema');
+  });
+
+  it('should accept valid input', () => {
+    const result = TOOL_SCHEMAS.create_task.safeParse({
+      project_id: 'proj-123',
+      title: 'Write docs',
+      status: 'todo',
+      due_date: '2024-12-31',
+      tags: ['docs'],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject invalid enums, dates and limits', () => {
+    expect(TOOL_SCHEMAS.move_task.safeParse({ task_id: 't', new_status: 'doing' }).success).toBe(false);
+    expect(TOOL_SCHEMAS.create_task.safeParse({ project_id: 'p', title: 'T', due_date: 'someday' }).success).toBe(false);
+    expect(TOOL_SCHEMAS.create_task.safeParse({ project_id: 'p', title: 'T', due_date: 'next friday' }).success).toBe(true);
+    expect(TOOL_SCHEMAS.create_task.safeParse({ project_id: 'p', title: 'T', due_date: null }).success).toBe(false);
+    expect(TOOL_SCHEMAS.update_task.safeParse({ task_id: 't', due_date: null }).success).toBe(true);
+    expect(TOOL_SCHEMAS.create_task.safeParse({ project_id: 'p', title: 'T', due_date: '2024-02-31T25:00' }).success).toBe(false);
+    expect(TOOL_SCHEMAS.list_projects.safeParse({ limit: -5 }).success).toBe(false);
+    expect(TOOL_SCHEMAS.search_tasks.safeParse({ query: 'x', limit: 2.5 }).success).toBe(false);
+  });
+
+  it('should require exactly one reorder target', () => {
+    expect(TOOL_SCHEMAS.reorder_task.safeParse({ task_id: 't', position: 0 }).success).toBe(true);
+    expect(TOOL_SCHEMAS.reorder_task.safeParse({ task_id: 't' }).success).toBe(false);
+    expect(TOOL_SCHEMAS.reorder_task.safeParse({ task_id: 't', before_task_id: 'a', position: 1 }).success).toBe(false);
+    expect(toInputSchema('reorder_task').required).toEqual(['task_id']);
+  });
+
+  it('should report one message per invalid field', () => {
+    const parsed = TOOL_SCHEMAS.create_task.safeParse({ title: '', priority: 'urgent' });
+    expect(parsed.success).toBe(false);
+    if (parsed.success) return;
+
+    const error = toInvalidInputError('create_task', parsed.error);
+
+    expect(error.code).toBe('INVALID_INPUT');
+    expect(Object.keys(error.details ?? {}).sort()).toEqual(['priority', 'project_id', 'title']);
+    expect(error.error).toContain('Invalid input for create_task');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Sprint Tool Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify sprint planning and where unfinished tasks go when a
+ * sprint is closed.
+ */
+
+import { TOOL_SCHEMAS } from '../src/server/schemas.js';
+import { addTasksToSprint, closeSprint, createSprint, getSprint } from '../src/tools/sprints.js';
+import { createProject } from '../src/tools/projects.js';
+import { createTask, getTask } from '../src/tools/tasks.js';
+import type { ToolContext } from '../src/tools/context.js';
+import type { SprintRow } from '../src/types/index.js';
+import { createTestContext, expectSuccess } from './fixtures.js';
+
+describe('Sprints', () => {
+  let ctx: ToolContext;
+  let sprint: SprintRow;
+
+  beforeEach(async () => {
+    ctx = createTestContext();
+    sprint = expectSuccess(await createSprint(ctx, {
+      project_id: 'proj-123',
+      name: 'Sprint 1',
+      start_date: '2026-10-05',
+      end_date: '2026-10-16',
+      goal: 'Ship the dashboard',
+    }));
+    expectSuccess(await addTasksToSprint(ctx, { sprint_id: sprint.id, task_ids: ['task-1', 'task-2', 'task-3'] }));
+  });
+
+  it('should return the sprint with its tasks and status counts', async () => {
+    const result = expectSuccess(await getSprint(ctx, sprint.id));
+
+    expect(result.goal).toBe('Ship the dashboard');
+    expect(result.tasks.map((t) => t.id)).toEqual(['task-1', 'task-2', 'task-3']);
+    expect(result.task_counts).toMatchObject({ total: 3, todo: 1, 'in-progress': 1, done: 1 });
+  });
+
+  it("should only accept tasks from the sprint's project", async () => {
+    const other = expectSuccess(await createProject(ctx, { workspace_id: 'ws-123', name: 'Other' }));
+    const task = expectSuccess(await createTask(ctx, { project_id: other.id, title: 'Elsewhere' }));
+
+    const result = await addTasksToSprint(ctx, { sprint_id: sprint.id, task_ids: [task.id] });
+
+    expect(result).toMatchObject({ success: false, code: 'TASK_NOT_IN_PROJECT' });
+  });
+
+  it('should move unfinished tasks to the next sprint on close', async () => {
+    const next = expectSuccess(await createSprint(ctx, {
+      project_id: 'proj-123',
+      name: 'Sprint 2',
+      start_date: '2026-10-19',
+      end_date: '2026-10-30',
+    }));
+
+    const closed = expectSuccess(await closeSprint(ctx, { sprint_id: sprint.id }));
+
+    expect(closed).toMatchObject({ completed: 1, moved_task_ids: ['task-2', 'task-3'] });
+    expect(closed.sprint.closed_at).not.toBeNull();
+    expect(expectSuccess(await getSprint(ctx, next.id)).tasks.map((t) => t.id)).toEqual(['task-2', 'task-3']);
+    expect(expectSuccess(await getTask(ctx, 'task-2')).status).toBe('in-progress');
+
+    const again = await closeSprint(ctx, { sprint_id: sprint.id });
+    expect(again).toMatchObject({ success: false, code: 'SPRINT_CLOSED' });
+  });
+
+  it('should move unfinished tasks to the backlog when there is no next sprint', async () => {
+    const missing = await closeSprint(ctx, { sprint_id: sprint.id, move_unfinished_to: 'next_sprint' });
+    expect(missing).toMatchObject({ success: false, code: 'NO_NEXT_SPRINT' });
+
+    expectSuccess(await closeSprint(ctx, { sprint_id: sprint.id }));
+    const task = expectSuccess(await getTask(ctx, 'task-2'));
+
+    expect(task).toMatchObject({ status: 'in-progress', sprint_id: null });
+    expect(expectSuccess(await getTask(ctx, 'task-1')).sprint_id).toBe(sprint.id);
+  });
+
+  it('should refuse sprints that end before they start', () => {
+    const result = TOOL_SCHEMAS.create_sprint.safeParse({
+      project_id: 'proj-123',
+      name: 'Backwards',
+      start_date: '2026-10-16',
+      end_date: '2026-10-05',
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Subscription Tests for Limitless Canvas MCP Server
+ *
+ * These tests connect a client to the server in memory and verify that
+ * changes from a local change feed reach subscribed resources.
+ */
+
+import { EventEmitter } from 'node:events';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { createMCPServer } from '../src/server/createMCPServer.js';
+import { CHANGE_EVENT, LocalChangeFeed } from '../src/realtime/index.js';
+import type { CanvasChange } from '../src/realtime/index.js';
+import { LocalRepository } from '../src/repository/index.js';
+import { updateTask } from '../src/tools/tasks.js';
+import type { ToolContext } from '../src/tools/context.js';
+import { createTestContext } from './fixtures.js';
+
+async function connect(ctx: ToolContext): Promise<{ client: Client; updates: string[] }> {
+  const server = createMCPServer(ctx);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const updates: string[] = [];
+
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updates.push(notification.params.uri);
+  });
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return { client, updates };
+}
+
+/** Let queued notifications reach the client */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('Resource subscriptions', () => {
+  let events: EventEmitter;
+  let ctx: ToolContext;
+
+  beforeEach(() => {
+    events = new EventEmitter();
+    ctx = { ...createTestContext(), changes: new LocalChangeFeed(events) };
+  });
+
+  it('should notify subscribed resources affected by a change', async () => {
+    const { client, updates } = await connect(ctx);
+    await client.subscribeResource({ uri: 'canvas://project/proj-123/board' });
+
+    const change: CanvasChange = { table: 'tasks', type: 'UPDATE', id: 'task-2', projectId: 'proj-123', workspaceId: 'ws-123' };
+    events.emit(CHANGE_EVENT, change);
+    await flush();
+
+    expect(updates).toEqual(['canvas://project/proj-123/board']);
+    await client.close();
+  });
+
+  it('should ignore changes in other workspaces and after unsubscribing', async () => {
+    const { client, updates } = await connect(ctx);
+    await client.subscribeResource({ uri: 'canvas://task/task-2' });
+
+    events.emit(CHANGE_EVENT, { table: 'tasks', type: 'UPDATE', id: 'task-2', projectId: 'proj-123', workspaceId: 'ws-other' });
+    await client.unsubscribeResource({ uri: 'canvas://task/task-2' });
+    events.emit(CHANGE_EVENT, { table: 'tasks', type: 'UPDATE', id: 'task-2', projectId: 'proj-123', workspaceId: 'ws-123' });
+    await flush();
+
+    expect(updates).toEqual([]);
+    expect(events.listenerCount(CHANGE_EVENT)).toBe(0);
+    await client.close();
+  });
+
+  it('should reject subscriptions to unknown resources', async () => {
+    const { client } = await connect(ctx);
+
+    await expect(client.subscribeResource({ uri: 'canvas://task/missing' })).rejects.toThrow('Resource not found');
+    await client.close();
+  });
+
+  it('should notify on writes to the local backend', async () => {
+    const repo = ctx.repo as LocalRepository;
+    const { client, updates } = await connect({ repo, changes: new LocalChangeFeed(repo.events) });
+    await client.subscribeResource({ uri: 'canvas://task/task-3' });
+
+    await updateTask(ctx, { task_id: 'task-3', priority: 'high' });
+    await flush();
+
+    expect(updates).toEqual(['canvas://task/task-3']);
+    await client.close();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Team Tool Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify team management and that task assignees are resolved
+ * against the workspace's team.
+ */
+
+import { addTeamMember, getTeamMember, listTeamMembers, updateTeamMember } from '../src/tools/team.js';
+import { createTask, getTask, updateTask } from '../src/tools/tasks.js';
+import { bulkUpdateTasks } from '../src/tools/bulk.js';
+import type { ToolContext } from '../src/tools/context.js';
+import { createTestContext, expectSuccess } from './fixtures.js';
+
+describe('Team', () => {
+  let ctx: ToolContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  it('should add team members and refuse a second use of an email', async () => {
+    const member = expectSuccess(await addTeamMember(ctx, {
+      workspace_id: 'ws-123',
+      name: 'Alex Kim',
+      email: 'alex@example.com',
+    }));
+
+    expect(member).toMatchObject({ role: 'member', status: 'active' });
+    expect(expectSuccess(await listTeamMembers(ctx, 'ws-123')).map((m) => m.name)).toEqual(['Alex Kim', 'Jane', 'John']);
+
+    const again = await addTeamMember(ctx, { workspace_id: 'ws-123', name: 'Alex', email: 'ALEX@example.com' });
+    expect(again).toMatchObject({ success: false, code: 'EMAIL_TAKEN' });
+  });
+
+  it('should resolve assignees by name or email and store the member ID', async () => {
+    const byName = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'Login copy', assignee: 'jane' }));
+    const byEmail = expectSuccess(await updateTask(ctx, { task_id: 'task-3', assignee: 'JOHN@example.com' }));
+
+    expect(byName).toMatchObject({ assignee: 'Jane', assignee_id: 'member-2' });
+    expect(byEmail).toMatchObject({ assignee: 'John', assignee_id: 'member-1' });
+
+    const unassigned = expectSuccess(await updateTask(ctx, { task_id: 'task-3', assignee: '' }));
+    expect(unassigned).toMatchObject({ assignee: null, assignee_id: null });
+  });
+
+  it('should refuse unknown and ambiguous assignees', async () => {
+    await addTeamMember(ctx, { workspace_id: 'ws-123', name: 'John Smith', email: 'jsmith@example.com' });
+    await addTeamMember(ctx, { workspace_id: 'ws-123', name: 'Sam Lee', email: 'sam@example.com' });
+    await addTeamMember(ctx, { workspace_id: 'ws-123', name: 'Sam Park', email: 'spark@example.com' });
+
+    const unknown = await createTask(ctx, { project_id: 'proj-123', title: 'Docs', assignee: 'J. Smith' });
+    const ambiguous = await updateTask(ctx, { task_id: 'task-3', assignee: 'sam' });
+    // An exact full name wins over another member's first name
+    const exact = expectSuccess(await updateTask(ctx, { task_id: 'task-1', assignee: 'john' }));
+
+    expect(unknown).toMatchObject({ success: false, code: 'ASSIGNEE_NOT_FOUND' });
+    expect(ambiguous).toMatchObject({ success: false, code: 'AMBIGUOUS_ASSIGNEE' });
+    expect(exact.assignee_id).toBe('member-1');
+
+    const bulk = expectSuccess(await bulkUpdateTasks(ctx, {
+      tasks: [
+        { task_id: 'task-2', assignee: 'Sam Park' },
+        { task_id: 'task-3', assignee: 'Nobody' },
+      ],
+    }));
+    expect(bulk.map((r) => r.success)).toEqual([true, false]);
+  });
+
+  it('should show a renamed member on their tasks', async () => {
+    const result = await updateTeamMember(ctx, { member_id: 'member-2', name: 'Jane Doe' });
+
+    expect(expectSuccess(result).name).toBe('Jane Doe');
+    expect(expectSuccess(await getTask(ctx, 'task-2')).assignee).toBe('Jane Doe');
+
+    const member = expectSuccess(await getTeamMember(ctx, 'member-2'));
+    expect(member.open_tasks.map((t) => t.id)).toEqual(['task-2']);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Time Tracking Tool Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify that timers follow the task through the board and
+ * how time reports are broken down.
+ */
+
+import { getTimeReport, logTime } from '../src/tools/time.js';
+import { completeTask, deleteTask, moveTask, restoreTask, startTask, updateTask } from '../src/tools/tasks.js';
+import type { ToolContext } from '../src/tools/context.js';
+import type { TimeEntryRow } from '../src/types/index.js';
+import { createTestContext, expectSuccess } from './fixtures.js';
+
+describe('Time Tracking', () => {
+  let ctx: ToolContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  async function timeEntries(taskId: string, running?: boolean): Promise<TimeEntryRow[]> {
+    const { data } = await ctx.repo.listTimeEntries({ taskIds: [taskId], running });
+    return data ?? [];
+  }
+
+  /** Pretend the task's running timer was started `minutes` ago */
+  async function backdateTimer(taskId: string, minutes: number): Promise<void> {
+    const [timer] = await timeEntries(taskId, true);
+    const startedAt = new Date(Date.now() - minutes * 60 * 1000).toISOString();
+    await ctx.repo.updateTimeEntry(timer.id, { started_at: startedAt });
+  }
+
+  it('should run a timer from start_task until complete_task', async () => {
+    await startTask(ctx, 'task-3');
+    await startTask(ctx, 'task-3'); // already running, no second timer
+    await backdateTimer('task-3', 90);
+
+    expect(await timeEntries('task-3')).toHaveLength(1);
+
+    await completeTask(ctx, 'task-3');
+    const [entry] = await timeEntries('task-3');
+
+    expect(entry).toMatchObject({ source: 'timer', minutes: 90, author: 'service' });
+    expect(entry.ended_at).not.toBeNull();
+  });
+
+  it('should stop the timer on any move out of in-progress', async () => {
+    await moveTask(ctx, { task_id: 'task-3', new_status: 'in-progress' });
+    await updateTask(ctx, { task_id: 'task-3', status: 'todo' });
+
+    expect(await timeEntries('task-3', true)).toHaveLength(0);
+  });
+
+  it('should stop the timer in the trash and restart it on restore', async () => {
+    await startTask(ctx, 'task-3');
+    expectSuccess(await deleteTask(ctx, 'task-3'));
+
+    expect(await timeEntries('task-3', true)).toHaveLength(0);
+
+    expectSuccess(await restoreTask(ctx, 'task-3'));
+
+    expect(await timeEntries('task-3', true)).toHaveLength(1);
+  });
+
+  it('should report time by task, assignee and day', async () => {
+    await logTime(ctx, { task_id: 'task-1', minutes: 45, note: 'Login form' });
+    await logTime(ctx, { task_id: 'task-2', minutes: 30 });
+    await logTime(ctx, { task_id: 'task-2', minutes: 60 });
+    await updateTask(ctx, { task_id: 'task-2', assignee: 'John' });
+    await startTask(ctx, 'task-3'); // still running, not counted
+
+    const report = expectSuccess(await getTimeReport(ctx, { project_id: 'proj-123' }));
+
+    expect(report).toMatchObject({ total_minutes: 135, entries: 3, running: 1, estimated_hours: 100 });
+    expect(report.by_task).toEqual([
+      { task_id: 'task-2', title: 'Add dashboard', minutes: 90 },
+      { task_id: 'task-1', title: 'Implement login', minutes: 45 },
+    ]);
+    // Time logged before the reassignment stays with Jane
+    expect(report.by_assignee).toEqual([
+      { assignee: 'Jane', minutes: 90 },
+      { assignee: 'John', minutes: 45 },
+    ]);
+    expect(report.by_day.reduce((sum, day) => sum + day.minutes, 0)).toBe(135);
+  });
+
+  it('should limit the report to the given date range', async () => {
+    await logTime(ctx, { task_id: 'task-1', minutes: 45 });
+    const today = new Date().toISOString().slice(0, 10);
+
+    const upToToday = expectSuccess(await getTimeReport(ctx, { workspace_id: 'ws-123', to: today }));
+    const beforeToday = expectSuccess(await getTimeReport(ctx, { workspace_id: 'ws-123', from: '2024-01-01', to: '2024-12-31' }));
+
+    expect(upToToday.total_minutes).toBe(45);
+    expect(beforeToday.total_minutes).toBe(0);
+  });
+});
@@ -2,190 +2,481 @@
  * Tool Function Tests for Limitless Canvas MCP Server
  *
  * These tests verify the business logic of our tool functions.
- * They use mocked Supabase responses.
+ * They run the real tool functions against the local in-memory backend.
  */
 
-import type { ToolResult, TaskRow, ProjectRow } from '../src/types/index.js';
-
-// Mock data for testing
-const mockWorkspace = {
-  id: 'ws-123',
-  name: 'Test Workspace',
-  color: '#8B5CF6',
-  logo: null,
-  owner_id: 'user-123',
-  created_at: '2024-01-01T00:00:00.000Z',
-  updated_at: '2024-01-01T00:00:00.000Z',
-};
-
-const mockProject: ProjectRow = {
-  id: 'proj-123',
-  workspace_id: 'ws-123',
-  name: 'Test Project',
-  description: 'A test project',
-  status: 'active',
-  priority: 'medium',
-  progress: 25,
-  budget: 10000,
-  spent: 2500,
-  due_date: '2024-12-31',
-  client_id: null,
-  team_size: 3,
-  item_type: 'project',
-  estimated_duration_hours: 100,
-  created_at: '2024-01-01T00:00:00.000Z',
-  updated_at: '2024-01-15T00:00:00.000Z',
-};
-
-const mockTasks: TaskRow[] = [
-  {
-    id: 'task-1',
-    project_id: 'proj-123',
-    title: 'Implement login',
-    description: 'Add user authentication',
-    status: 'done',
-    priority: 'high',
-    assignee: 'John',
-    due_date: '2024-01-10',
-    tags: ['auth', 'frontend'],
-    order: 0,
-    created_at: '2024-01-01T00:00:00.000Z',
-    updated_at: '2024-01-10T00:00:00.000Z',
-  },
-  {
-    id: 'task-2',
-    project_id: 'proj-123',
-    title: 'Add dashboard',
-    description: 'Create main dashboard view',
-    status: 'in-progress',
-    priority: 'medium',
-    assignee: 'Jane',
-    due_date: '2024-01-20',
-    tags: ['frontend', 'ui'],
-    order: 1,
-    created_at: '2024-01-05T00:00:00.000Z',
-    updated_at: '2024-01-15T00:00:00.000Z',
-  },
-  {
-    id: 'task-3',
-    project_id: 'proj-123',
-    title: 'API integration',
-    description: 'Connect to backend API',
-    status: 'todo',
-    priority: 'high',
-    assignee: null,
-    due_date: null,
-    tags: ['backend', 'api'],
-    order: 2,
-    created_at: '2024-01-10T00:00:00.000Z',
-    updated_at: '2024-01-10T00:00:00.000Z',
-  },
-];
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { LocalRepository } from '../src/repository/index.js';
+import { TOOL_SCHEMAS } from '../src/server/schemas.js';
+import {
+  getProject,
+  calculateProjectProgress,
+  updateProjectProgress,
+  createProject,
+  updateProject,
+} from '../src/tools/projects.js';
+import {
+  createTask,
+  createSubtask,
+  toggleChecklistItem,
+  getTask,
+  updateTask,
+  moveTask,
+  reorderTask,
+  searchTasks,
+  deleteTask,
+  restoreTask,
+  listTrash,
+  purgeTrash,
+  listProjectTasks,
+} from '../src/tools/tasks.js';
+import { bulkUpdateTasks } from '../src/tools/bulk.js';
+import { getWorkspaceSummary, getWorkInProgress } from '../src/tools/workspaces.js';
+import { getActivityFeed, getTaskHistory } from '../src/tools/activity.js';
+import { addTaskComment } from '../src/tools/comments.js';
+import type { ToolContext } from '../src/tools/context.js';
+import type { ToolResult, ProjectRow, TaskStatus } from '../src/types/index.js';
+import { mockProject, createTestContext, expectSuccess } from './fixtures.js';
 
 describe('Tool Business Logic', () => {
-  describe('Task Status Calculations', () => {
-    it('should correctly calculate task counts by status', () => {
-      const taskCounts = {
-        total: mockTasks.length,
-        backlog: mockTasks.filter(t => t.status === 'backlog').length,
-        todo: mockTasks.filter(t => t.status === 'todo').length,
-        'in-progress': mockTasks.filter(t => t.status === 'in-progress').length,
-        review: mockTasks.filter(t => t.status === 'review').length,
-        done: mockTasks.filter(t => t.status === 'done').length,
-      };
+  let ctx: ToolContext;
 
-      expect(taskCounts.total).toBe(3);
-      expect(taskCounts.backlog).toBe(0);
-      expect(taskCounts.todo).toBe(1);
-      expect(taskCounts['in-progress']).toBe(1);
-      expect(taskCounts.review).toBe(0);
-      expect(taskCounts.done).toBe(1);
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  describe('Task Status Calculations', () => {
+    it('should correctly calculate task counts by status', async () => {
+      const project = expectSuccess(await getProject(ctx, { project_id: 'proj-123' }));
+      if (!('task_counts' in project)) throw new Error('Expected task counts');
+
+      expect(project.task_counts.total).toBe(3);
+      expect(project.task_counts.backlog).toBe(0);
+      expect(project.task_counts.todo).toBe(1);
+      expect(project.task_counts['in-progress']).toBe(1);
+      expect(project.task_counts.review).toBe(0);
+      expect(project.task_counts.done).toBe(1);
     });
 
-    it('should calculate project progress from completed tasks', () => {
-      const completedTasks = mockTasks.filter(t => t.status === 'done').length;
-      const totalTasks = mockTasks.length;
-      const progress = Math.round((completedTasks / totalTasks) * 100);
+    it('should calculate project progress from completed tasks', async () => {
+      const progress = expectSuccess(await calculateProjectProgress(ctx, 'proj-123'));
 
       expect(progress).toBe(33); // 1 out of 3 tasks done
     });
+
+    it('should sync project progress when a task is completed', async () => {
+      expectSuccess(await moveTask(ctx, { task_id: 'task-2', new_status: 'done' }));
+      const project = expectSuccess(await getProject(ctx, { project_id: 'proj-123', include_tasks: false }));
+
+      expect(project.progress).toBe(67); // 2 out of 3 tasks done
+    });
   });
 
   describe('Task Ordering', () => {
-    it('should maintain task order', () => {
-      const sortedTasks = [...mockTasks].sort((a, b) => a.order - b.order);
+    const column = async (status: TaskStatus) =>
+      expectSuccess(await listProjectTasks(ctx, 'proj-123', status)).map((t) => [t.id, t.order]);
+
+    it('should list tasks grouped by column in board order', async () => {
+      const tasks = expectSuccess(await listProjectTasks(ctx, 'proj-123'));
 
-      expect(sortedTasks[0].order).toBe(0);
-      expect(sortedTasks[1].order).toBe(1);
-      expect(sortedTasks[2].order).toBe(2);
+      expect(tasks.map(t => t.id)).toEqual(['task-3', 'task-2', 'task-1']);
     });
 
-    it('should calculate next task order', () => {
-      const maxOrder = Math.max(...mockTasks.map(t => t.order));
-      const nextOrder = maxOrder + 1;
+    it('should calculate next task order', async () => {
+      const task = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'Write tests' }));
 
-      expect(nextOrder).toBe(3);
+      expect(task.order).toBe(3);
+      expect(task.status).toBe('todo');
+    });
+
+    it('should move a task to the bottom of its new column and close the gap', async () => {
+      const first = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'First' }));
+      await moveTask(ctx, { task_id: 'task-3', new_status: 'in-progress' });
+
+      expect(await column('in-progress')).toEqual([['task-2', 0], ['task-3', 1]]);
+      expect(await column('todo')).toEqual([[first.id, 0]]);
+    });
+
+    it('should close the gap when update_task changes the column', async () => {
+      const first = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'First' }));
+      await updateTask(ctx, { task_id: 'task-3', status: 'in-progress', priority: 'low' });
+
+      expect(await column('in-progress')).toEqual([['task-2', 0], ['task-3', 1]]);
+      expect(await column('todo')).toEqual([[first.id, 0]]);
+      expect(expectSuccess(await getTask(ctx, 'task-3')).priority).toBe('low');
+    });
+
+    it('should move a task to a given position in its new column', async () => {
+      const moved = expectSuccess(await moveTask(ctx, { task_id: 'task-3', new_status: 'in-progress', position: 0 }));
+
+      expect(moved.order).toBe(0);
+      expect(await column('in-progress')).toEqual([['task-3', 0], ['task-2', 1]]);
+    });
+
+    it('should reorder a task relative to another task in its column', async () => {
+      const a = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'A' }));
+      const b = expectSuccess(await createTask(ctx, { project_id: 'proj-123', title: 'B' }));
+
+      expectSuccess(await reorderTask(ctx, { task_id: b.id, before_task_id: 'task-3' }));
+      expect(await column('todo')).toEqual([[b.id, 0], ['task-3', 1], [a.id, 2]]);
+
+      expectSuccess(await reorderTask(ctx, { task_id: b.id, after_task_id: a.id }));
+      expect(await column('todo')).toEqual([['task-3', 0], [a.id, 1], [b.id, 2]]);
+    });
+
+    it('should refuse to reorder next to a task in another column', async () => {
+      const result = await reorderTask(ctx, { task_id: 'task-3', after_task_id: 'task-1' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.code).toBe('TASK_NOT_IN_COLUMN');
+      }
     });
   });
 
   describe('Status Validation', () => {
-    it('should validate task statuses', () => {
-      const validStatuses = ['backlog', 'todo', 'in-progress', 'review', 'done'];
+    it('should validate task statuses', async () => {
+      const result = await moveTask(ctx, { task_id: 'task-3', new_status: 'invalid' as TaskStatus });
 
-      expect(validStatuses.includes('todo')).toBe(true);
-      expect(validStatuses.includes('in-progress')).toBe(true);
-      expect(validStatuses.includes('invalid')).toBe(false);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.code).toBe('INVALID_STATUS');
+      }
+      expect(expectSuccess(await moveTask(ctx, { task_id: 'task-3', new_status: 'in-progress' })).status)
+        .toBe('in-progress');
     });
 
     it('should validate project statuses', () => {
-      const validStatuses = ['active', 'completed', 'on-hold', 'planning'];
-
-      expect(validStatuses.includes('active')).toBe(true);
-      expect(validStatuses.includes('planning')).toBe(true);
-      expect(validStatuses.includes('invalid')).toBe(false);
+      expect(TOOL_SCHEMAS.list_projects.safeParse({ status: 'active' }).success).toBe(true);
+      expect(TOOL_SCHEMAS.list_projects.safeParse({ status: 'planning' }).success).toBe(true);
+      expect(TOOL_SCHEMAS.list_projects.safeParse({ status: 'invalid' }).success).toBe(false);
     });
   });
 
   describe('Progress Clamping', () => {
-    it('should clamp progress to 0-100 range', () => {
-      const clampProgress = (value: number) => Math.min(100, Math.max(0, value));
-
-      expect(clampProgress(-10)).toBe(0);
-      expect(clampProgress(50)).toBe(50);
-      expect(clampProgress(150)).toBe(100);
+    it('should clamp progress to 0-100 range', async () => {
+      expect(expectSuccess(await updateProjectProgress(ctx, 'proj-123', -10)).progress).toBe(0);
+      expect(expectSuccess(await updateProjectProgress(ctx, 'proj-123', 50)).progress).toBe(50);
+      expect(expectSuccess(await updateProjectProgress(ctx, 'proj-123', 150)).progress).toBe(100);
     });
   });
 
   describe('Search Logic', () => {
-    it('should search tasks by title', () => {
-      const query = 'login';
-      const results = mockTasks.filter(t =>
-        t.title.toLowerCase().includes(query.toLowerCase())
-      );
+    it('should search tasks by title', async () => {
+      const results = expectSuccess(await searchTasks(ctx, { query: 'login' }));
 
       expect(results.length).toBe(1);
       expect(results[0].title).toBe('Implement login');
+      expect(results[0].project.name).toBe('Test Project');
     });
 
-    it('should search tasks by description', () => {
-      const query = 'dashboard';
-      const results = mockTasks.filter(t =>
-        t.description?.toLowerCase().includes(query.toLowerCase())
-      );
+    it('should search tasks by description', async () => {
+      const results = expectSuccess(await searchTasks(ctx, { query: 'dashboard' }));
 
       expect(results.length).toBe(1);
       expect(results[0].title).toBe('Add dashboard');
     });
 
-    it('should return empty for non-matching query', () => {
-      const query = 'nonexistent';
-      const results = mockTasks.filter(t =>
-        t.title.toLowerCase().includes(query.toLowerCase()) ||
-        t.description?.toLowerCase().includes(query.toLowerCase())
-      );
+    it('should return empty for non-matching query', async () => {
+      const results = expectSuccess(await searchTasks(ctx, { query: 'nonexistent' }));
 
       expect(results.length).toBe(0);
     });
+
+    it('should filter search results by workspace', async () => {
+      expect(expectSuccess(await searchTasks(ctx, { query: 'a', workspace_id: 'ws-123' })).length).toBe(3);
+      expect(expectSuccess(await searchTasks(ctx, { query: 'a', workspace_id: 'ws-other' })).length).toBe(0);
+    });
+
+    it('should rank matches and highlight them, including comments', async () => {
+      expectSuccess(await addTaskComment(ctx, { task_id: 'task-3', body: 'Blocked until the dashboard ships' }));
+
+      const results = expectSuccess(await searchTasks(ctx, { query: 'dashboard' }));
+
+      expect(results.map((t) => t.id)).toEqual(['task-2', 'task-3']);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+      expect(results[0].highlights).toEqual([
+        { field: 'title', snippet: 'Add **dashboard**' },
+        { field: 'description', snippet: 'Create main **dashboard** view' },
+      ]);
+      expect(results[1].highlights).toEqual([{ field: 'comments', snippet: 'Blocked until the **dashboard** ships' }]);
+    });
+
+    it('should treat punctuation in the query as plain word breaks', async () => {
+      const results = expectSuccess(await searchTasks(ctx, { query: 'login,(auth)%' }));
+
+      expect(results.map((t) => t.id)).toEqual(['task-1']);
+      expect(results[0].highlights.map((h) => h.snippet)).toEqual([
+        'Implement **login**',
+        '**auth** frontend',
+        'Add user **authentication**',
+      ]);
+      expect(expectSuccess(await searchTasks(ctx, { query: '%,()' }))).toEqual([]);
+    });
+
+    it('should search tags', async () => {
+      const results = expectSuccess(await searchTasks(ctx, { query: 'frontend', limit: 1 }));
+
+      // Both tagged tasks score the same; the more recently updated comes first
+      expect(results).toHaveLength(1);
+      expect(results[0].id).toBe('task-2');
+      expect(results[0].highlights).toEqual([{ field: 'tags', snippet: '**frontend** ui' }]);
+    });
+  });
+
+  describe('Task Lifecycle', () => {
+    it('should return the task with its project', async () => {
+      const task = expectSuccess(await getTask(ctx, 'task-1'));
+
+      expect(task.project).toEqual({ id: 'proj-123', name: 'Test Project', workspace_id: 'ws-123' });
+    });
+
+    it('should report missing tasks', async () => {
+      const result = await getTask(ctx, 'missing');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.code).toBe('TASK_NOT_FOUND');
+      }
+    });
+
+    it('should move a deleted task to the trash and resync progress', async () => {
+      expectSuccess(await deleteTask(ctx, 'task-3'));
+      const project = expectSuccess(await getProject(ctx, { project_id: 'proj-123', include_tasks: false }));
+
+      expect(expectSuccess(await getTask(ctx, 'task-3')).deleted_at).not.toBeNull();
+      expect(project.progress).toBe(50); // 1 out of 2 tasks done
+    });
+  });
+
+  describe('Subtasks', () => {
+    it('should list subtasks and their completion on the parent', async () => {
+      const first = expectSuccess(await createSubtask(ctx, { parent_task_id: 'task-3', title: 'Define endpoints' }));
+      // Subtasks are listed by creation time, so let the clock tick between them
+      await new Promise((resolve) => setTimeout(resolve, 2));
+      await createSubtask(ctx, { parent_task_id: 'task-3', title: 'Write client' });
+
+      expectSuccess(await toggleChecklistItem(ctx, { task_id: first.id }));
+      const parent = expectSuccess(await getTask(ctx, 'task-3'));
+
+      expect(first).toMatchObject({ project_id: 'proj-123', parent_task_id: 'task-3', status: 'todo' });
+      expect(parent.subtasks.map((t) => [t.title, t.status])).toEqual([
+        ['Define endpoints', 'done'],
+        ['Write client', 'todo'],
+      ]);
+      expect(parent.completion).toEqual({ done: 1, total: 2, ratio: 0.5 });
+    });
+
+    it('should reopen a checked subtask and refuse other tasks', async () => {
+      const subtask = expectSuccess(await createSubtask(ctx, { parent_task_id: 'task-3', title: 'Step' }));
+      await toggleChecklistItem(ctx, { task_id: subtask.id, done: true });
+
+      expect(expectSuccess(await toggleChecklistItem(ctx, { task_id: subtask.id })).status).toBe('todo');
+
+      const notSubtask = await toggleChecklistItem(ctx, { task_id: 'task-3' });
+      const nested = await createSubtask(ctx, { parent_task_id: subtask.id, title: 'Too deep' });
+      expect(notSubtask).toMatchObject({ success: false, code: 'NOT_A_SUBTASK' });
+      expect(nested).toMatchObject({ success: false, code: 'SUBTASK_NESTING' });
+    });
+
+    it('should optionally weight parents by their finished subtasks', async () => {
+      const first = expectSuccess(await createSubtask(ctx, { parent_task_id: 'task-3', title: 'Half' }));
+      await createSubtask(ctx, { parent_task_id: 'task-3', title: 'Other half' });
+      await toggleChecklistItem(ctx, { task_id: first.id });
+
+      // task-1 done, task-2 open, task-3 half done through its subtasks
+      expect(expectSuccess(await calculateProjectProgress(ctx, 'proj-123', { weightSubtasks: true }))).toBe(50);
+      expect(expectSuccess(await calculateProjectProgress(ctx, 'proj-123', { weightSubtasks: false }))).toBe(40);
+    });
+  });
+
+  describe('Estimates and Progress Modes', () => {
+    beforeEach(async () => {
+      await updateTask(ctx, { task_id: 'task-1', estimate: 8 });
+      await updateTask(ctx, { task_id: 'task-2', estimate: 2 });
+    });
+
+    it('should weight progress by estimate once the project asks for it', async () => {
+      const project = expectSuccess(await updateProject(ctx, { project_id: 'proj-123', progress_mode: 'estimate' }));
+
+      // task-3 has no estimate, so it counts as the average (5): 8 of 15 done
+      expect(project.progress).toBe(53);
+
+      await moveTask(ctx, { task_id: 'task-2', new_status: 'done' });
+      const synced = expectSuccess(await getProject(ctx, { project_id: 'proj-123', include_tasks: false }));
+      expect(synced.progress).toBe(67);
+    });
+
+    it('should keep estimate-weighted progress in step with estimate changes', async () => {
+      expectSuccess(await updateProject(ctx, { project_id: 'proj-123', progress_mode: 'estimate' }));
+
+      // 8 of 8 + 2 + 10 done
+      await updateTask(ctx, { task_id: 'task-3', estimate: 10 });
+      const synced = expectSuccess(await getProject(ctx, { project_id: 'proj-123', include_tasks: false }));
+      expect(synced.progress).toBe(40);
+    });
+
+    it('should keep priority-weighted progress in step with priority changes', async () => {
+      expectSuccess(await updateProject(ctx, { project_id: 'proj-123', progress_mode: 'priority' }));
+
+      // task-1 high (3) done, task-2 now critical (5) and task-3 high (3) open
+      expectSuccess(await bulkUpdateTasks(ctx, { tasks: [{ task_id: 'task-2', priority: 'critical' }] }));
+      const synced = expectSuccess(await getProject(ctx, { project_id: 'proj-123', include_tasks: false }));
+      expect(synced.progress).toBe(27);
+    });
+
+    it('should weight progress by priority', async () => {
+      // task-1 high (3) done, task-2 medium (2) and task-3 high (3) open
+      expect(expectSuccess(await calculateProjectProgress(ctx, 'proj-123', { mode: 'priority' }))).toBe(38);
+      expect(expectSuccess(await calculateProjectProgress(ctx, 'proj-123', { mode: 'count' }))).toBe(33);
+    });
+
+    it('should report remaining estimated work', async () => {
+      const result = await getProject(ctx, { project_id: 'proj-123', include_tasks: false });
+
+      expect(expectSuccess(result).estimates).toEqual({ total: 10, remaining: 2, unestimated: 1 });
+      expect(result.success && result.message).toBe('Project "Test Project", 2 of 10 estimated left');
+    });
+  });
+
+  describe('Trash', () => {
+    beforeEach(async () => {
+      expectSuccess(await deleteTask(ctx, 'task-3'));
+    });
+
+    it('should hide trashed tasks from lists and search', async () => {
+      const tasks = expectSuccess(await listProjectTasks(ctx, 'proj-123'));
+      const results = expectSuccess(await searchTasks(ctx, { query: 'API' }));
+
+      expect(tasks.map((t) => t.id)).not.toContain('task-3');
+      expect(results).toHaveLength(0);
+    });
+
+    it('should list and restore trashed tasks', async () => {
+      const trash = expectSuccess(await listTrash(ctx, { workspace_id: 'ws-123' }));
+      expect(trash.map((t) => t.id)).toEqual(['task-3']);
+
+      const restored = expectSuccess(await restoreTask(ctx, 'task-3'));
+      const project = expectSuccess(await getProject(ctx, { project_id: 'proj-123', include_tasks: false }));
+
+      expect(restored).toMatchObject({ deleted_at: null, status: 'todo', order: 0 });
+      expect(project.progress).toBe(33);
+      expect(expectSuccess(await listTrash(ctx, { project_id: 'proj-123' }))).toHaveLength(0);
+    });
+
+    it('should refuse to change a trashed task until it is restored', async () => {
+      const results = [
+        await updateTask(ctx, { task_id: 'task-3', title: 'Renamed' }),
+        await moveTask(ctx, { task_id: 'task-3', new_status: 'done' }),
+        await reorderTask(ctx, { task_id: 'task-3', position: 0 }),
+        await createSubtask(ctx, { parent_task_id: 'task-3', title: 'Step' }),
+      ];
+
+      expect(results.map((r) => !r.success && r.code)).toEqual(Array(4).fill('TASK_IN_TRASH'));
+      expect(expectSuccess(await getTask(ctx, 'task-3')).title).toBe('API integration');
+    });
+
+    it('should refuse to restore a task that is not in the trash', async () => {
+      const result = await restoreTask(ctx, 'task-1');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.code).toBe('TASK_NOT_IN_TRASH');
+      }
+    });
+
+    it('should only purge tasks trashed longer ago than the given age', async () => {
+      const kept = expectSuccess(await purgeTrash(ctx, { workspace_id: 'ws-123', older_than_days: 1 }));
+      expect(kept.purged).toBe(0);
+
+      const purged = expectSuccess(await purgeTrash(ctx, { workspace_id: 'ws-123', older_than_days: 0 }));
+      expect(purged.task_ids).toEqual(['task-3']);
+      expect((await getTask(ctx, 'task-3')).success).toBe(false);
+    });
+  });
+
+  describe('Activity Log', () => {
+    it('should record the tool, actor and changed fields', async () => {
+      await moveTask({ ...ctx, toolName: 'complete_task' }, { task_id: 'task-3', new_status: 'done' });
+      const [entry] = expectSuccess(await getTaskHistory(ctx, 'task-3'));
+
+      expect(entry).toMatchObject({
+        action: 'update',
+        tool: 'complete_task',
+        actor: 'service',
+        actor_id: null,
+        workspace_id: 'ws-123',
+        before: { status: 'todo' },
+        after: { status: 'done' },
+      });
+    });
+
+    it('should record the user behind a session', async () => {
+      const userCtx = { ...ctx, user: { id: 'user-1', email: 'dev@example.com' } };
+      await createTask(userCtx, { project_id: 'proj-123', title: 'Audited', status: 'done' });
+      const [progress, created] = expectSuccess(await getActivityFeed(ctx, { workspace_id: 'ws-123' }));
+
+      expect(created).toMatchObject({ action: 'create', tool: 'create_task', actor: 'dev@example.com', before: null });
+      expect(created.after).toMatchObject({ title: 'Audited', status: 'done' });
+      expect(progress).toMatchObject({ entity_type: 'project', before: { progress: 25 }, after: { progress: 50 } });
+    });
+
+    it('should keep the history of purged tasks', async () => {
+      await deleteTask(ctx, 'task-3');
+      await purgeTrash(ctx, { workspace_id: 'ws-123', older_than_days: 0 });
+      const [purged, trashed] = expectSuccess(await getTaskHistory(ctx, 'task-3'));
+
+      expect(trashed).toMatchObject({ action: 'trash', before: { deleted_at: null } });
+      expect(purged).toMatchObject({ action: 'delete', tool: 'purge_trash', after: null });
+      expect(purged.before).toMatchObject({ title: 'API integration' });
+      expect((await getTaskHistory(ctx, 'missing')).success).toBe(false);
+    });
+
+    it('should only return changes since the given time', async () => {
+      await moveTask(ctx, { task_id: 'task-2', new_status: 'review' });
+      const feed = expectSuccess(await getActivityFeed(ctx, { workspace_id: 'ws-123', since: '2999-01-01' }));
+
+      expect(feed).toEqual([]);
+    });
+  });
+
+  describe('Workspace Summary', () => {
+    it('should summarize projects and tasks', async () => {
+      const summary = expectSuccess(await getWorkspaceSummary(ctx, 'ws-123'));
+
+      expect(summary.projects.total).toBe(1);
+      expect(summary.projects.active).toBe(1);
+      expect(summary.tasks.total).toBe(3);
+      expect(summary.recent_projects.map(p => p.id)).toEqual(['proj-123']);
+    });
+
+    it('should list work in progress', async () => {
+      const tasks = expectSuccess(await getWorkInProgress(ctx, 'ws-123'));
+
+      expect(tasks.map(t => t.id)).toEqual(['task-2']);
+    });
+  });
+
+  describe('Local Persistence', () => {
+    it('should persist changes to the data file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'canvas-'));
+      const filePath = join(dir, 'data.json');
+
+      try {
+        const created = expectSuccess(
+          await createProject(createTestContext(filePath), { workspace_id: 'ws-123', name: 'Persisted' })
+        );
+        const reloaded = new LocalRepository({ filePath });
+        const { data } = await reloaded.getProject(created.id);
+
+        expect(data?.name).toBe('Persisted');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('Result Formatting', () => {
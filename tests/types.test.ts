@@ -57,11 +57,16 @@ describe('Type Definitions', () => {
         status: 'todo',
         priority: 'medium',
         assignee: null,
+        assignee_id: null,
         due_date: null,
         tags: null,
+        estimate: null,
         order: 0,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
+        parent_task_id: null,
+        deleted_at: null,
+        sprint_id: null,
       };
 
       expect(task.id).toBeDefined();
@@ -89,6 +94,7 @@ describe('Type Definitions', () => {
         team_size: null,
         item_type: 'project',
         estimated_duration_hours: null,
+        progress_mode: 'count',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
@@ -109,6 +115,7 @@ describe('Type Definitions', () => {
         color: '#8B5CF6',
         logo: null,
         owner_id: null,
+        time_zone: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
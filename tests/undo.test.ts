@@ -0,0 +1,143 @@
+/**
+ * Undo Tests for Limitless Canvas MCP Server
+ *
+ * These tests run tool calls through handleToolCall, as the MCP server
+ * does, and verify that each kind of change can be reverted.
+ */
+
+import { handleToolCall } from '../src/server/createMCPServer.js';
+import { getTask } from '../src/tools/tasks.js';
+import { getProject } from '../src/tools/projects.js';
+import type { ToolContext } from '../src/tools/context.js';
+import type { ToolResult } from '../src/types/index.js';
+import { createTestContext, expectSuccess } from './fixtures.js';
+
+describe('Undo', () => {
+  let ctx: ToolContext;
+
+  const call = (name: string, args: Record<string, unknown> = {}) => handleToolCall(name, args, ctx);
+
+  const actionId = (result: ToolResult) => {
+    if (!result.success || !result.action_id) {
+      throw new Error('Expected a successful call with an action_id');
+    }
+    return result.action_id;
+  };
+
+  beforeEach(() => {
+    ctx = { ...createTestContext(), history: [] };
+  });
+
+  it('should move a task back and recompute progress', async () => {
+    await call('complete_task', { task_id: 'task-3' });
+    expectSuccess(await call('undo_last_action'));
+
+    const task = expectSuccess(await getTask(ctx, 'task-3'));
+    const project = expectSuccess(await getProject(ctx, { project_id: 'proj-123', include_tasks: false }));
+    expect(task.status).toBe('todo');
+    expect(project.progress).toBe(33);
+  });
+
+  it('should restore previous fields after an update', async () => {
+    await call('update_task', { task_id: 'task-2', title: 'Renamed', priority: 'low' });
+    expectSuccess(await call('undo_last_action'));
+
+    const task = expectSuccess(await getTask(ctx, 'task-2'));
+    expect(task).toMatchObject({ title: 'Add dashboard', priority: 'medium' });
+  });
+
+  it('should move a created task to the trash and close its gap', async () => {
+    const created = await call('create_task', { project_id: 'proj-123', title: 'Misfiled' });
+    const taskId = (expectSuccess(created) as { id: string }).id;
+    const later = expectSuccess(await call('create_task', { project_id: 'proj-123', title: 'Keep' })) as { id: string };
+
+    expectSuccess(await call('undo_action', { action_id: actionId(created) }));
+
+    expect(expectSuccess(await getTask(ctx, taskId)).deleted_at).not.toBeNull();
+    expect(expectSuccess(await getTask(ctx, later.id)).order).toBe(1);
+  });
+
+  it('should take a deleted task back out of the trash', async () => {
+    const before = expectSuccess(await getTask(ctx, 'task-1'));
+    await call('delete_task', { task_id: 'task-1' });
+    expectSuccess(await call('undo_last_action'));
+
+    const restored = expectSuccess(await getTask(ctx, 'task-1'));
+    expect(restored).toMatchObject({ order: before.order, tags: before.tags, status: before.status, deleted_at: null });
+  });
+
+  it('should refuse to overwrite later changes', async () => {
+    const moved = await call('move_task', { task_id: 'task-3', new_status: 'review' });
+    await call('update_task', { task_id: 'task-3', status: 'done' });
+
+    const result = await call('undo_action', { action_id: actionId(moved) });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.code).toBe('UNDO_CONFLICT');
+    }
+  });
+
+  it('should only undo actions from this session once', async () => {
+    const moved = await call('start_task', { task_id: 'task-3' });
+    expectSuccess(await call('undo_action', { action_id: actionId(moved) }));
+
+    const again = await call('undo_action', { action_id: actionId(moved) });
+    const unknown = await call('undo_action', { action_id: 'not-in-session' });
+    const nothing = await call('undo_last_action');
+
+    expect(again.success === false && again.code).toBe('ALREADY_UNDONE');
+    expect(unknown.success === false && unknown.code).toBe('ACTION_NOT_FOUND');
+    expect(nothing.success === false && nothing.code).toBe('NOTHING_TO_UNDO');
+  });
+
+  it('should refuse to undo closing a sprint', async () => {
+    const sprint = expectSuccess(
+      await call('create_sprint', { project_id: 'proj-123', name: 'Sprint 1', start_date: '2026-10-05', end_date: '2026-10-16' })
+    ) as { id: string };
+    await call('update_task', { task_id: 'task-2', title: 'Renamed' });
+    expectSuccess(await call('close_sprint', { sprint_id: sprint.id }));
+
+    const result = await call('undo_last_action');
+
+    expect(result.success === false && result.code).toBe('NOT_UNDOABLE');
+    expect(expectSuccess(await getTask(ctx, 'task-2')).title).toBe('Renamed');
+  });
+
+  it('should stop the timer of a task moved back out of in-progress', async () => {
+    await call('start_task', { task_id: 'task-3' });
+    expectSuccess(await call('undo_last_action'));
+
+    const { data: running } = await ctx.repo.listTimeEntries({ taskIds: ['task-3'], running: true });
+    expect(expectSuccess(await getTask(ctx, 'task-3')).status).toBe('todo');
+    expect(running).toEqual([]);
+  });
+
+  it('should refuse to undo a completion that left a note', async () => {
+    await call('complete_task', { task_id: 'task-3', note: 'Shipped behind a flag' });
+
+    const result = await call('undo_last_action');
+
+    expect(result.success === false && result.code).toBe('NOT_UNDOABLE');
+    expect(expectSuccess(await getTask(ctx, 'task-3')).status).toBe('done');
+  });
+
+  it('should refuse to undo renaming a team member', async () => {
+    expectSuccess(await call('update_team_member', { member_id: 'member-2', name: 'Jane Doe' }));
+
+    const result = await call('undo_last_action');
+
+    expect(result.success === false && result.code).toBe('NOT_UNDOABLE');
+    expect(expectSuccess(await getTask(ctx, 'task-2')).assignee).toBe('Jane Doe');
+  });
+
+  it('should not skip past a change it cannot undo', async () => {
+    await call('move_task', { task_id: 'task-3', new_status: 'review' });
+    expectSuccess(await call('add_task_comment', { task_id: 'task-3', body: 'Ready for a look' }));
+
+    const result = await call('undo_last_action');
+
+    expect(result.success === false && result.code).toBe('NOT_UNDOABLE');
+    expect(expectSuccess(await getTask(ctx, 'task-3')).status).toBe('review');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Workload Tool Tests for Limitless Canvas MCP Server
+ *
+ * These tests verify the per-person workload report and the assignee
+ * suggested for unassigned high-priority tasks.
+ */
+
+import { getWorkload } from '../src/tools/workload.js';
+import { createTask, startTask, updateTask } from '../src/tools/tasks.js';
+import { bulkCreateTasks } from '../src/tools/bulk.js';
+import { todayIn } from '../src/tools/dates.js';
+import { LocalRepository } from '../src/repository/index.js';
+import type { ToolContext } from '../src/tools/context.js';
+import { createTestContext, expectSuccess, mockProject, mockTasks, mockTeamMembers, mockWorkspace } from './fixtures.js';
+
+describe('Workload', () => {
+  let ctx: ToolContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  it("should report each member's open work, lightest load first", async () => {
+    const report = expectSuccess(await getWorkload(ctx, { workspace_id: 'ws-123' }));
+
+    expect(report.members.map((m) => m.name)).toEqual(['John', 'Jane']);
+    expect(report.members[1]).toMatchObject({
+      open_tasks: 1,
+      in_progress: 1,
+      overdue: 1,
+      by_priority: { medium: 1, high: 0 },
+      by_status: { 'in-progress': 1, todo: 0 },
+    });
+    expect(report.unassigned).toEqual({ open_tasks: 1, high_priority: 1 });
+    expect(report.suggested_assignee?.name).toBe('John');
+  });
+
+  it('should flag members over the WIP limit', async () => {
+    await updateTask(ctx, { task_id: 'task-3', assignee: 'Jane', estimate: 5 });
+    await startTask(ctx, 'task-3');
+
+    const report = expectSuccess(await getWorkload(ctx, { workspace_id: 'ws-123', wip_limit: 1 }));
+    const jane = report.members.find((m) => m.name === 'Jane');
+
+    expect(jane).toMatchObject({ wip: 2, remaining_estimate: 5, over_wip_limit: true });
+    expect(report.overloaded).toEqual(['Jane']);
+  });
+
+  it('should suggest an assignee for unassigned high-priority tasks', async () => {
+    const urgent = await createTask(ctx, { project_id: 'proj-123', title: 'Fix outage', priority: 'critical' });
+    const assigned = await createTask(ctx, { project_id: 'proj-123', title: 'Fix typo', priority: 'high', assignee: 'Jane' });
+    const routine = await createTask(ctx, { project_id: 'proj-123', title: 'Tidy docs' });
+
+    expect(urgent.success && urgent.message).toContain('John has the lightest load');
+    expect(assigned.success && assigned.message).not.toContain('lightest load');
+    expect(routine.success && routine.message).not.toContain('lightest load');
+  });
+
+  it('should suggest assignees for unassigned high-priority tasks created in bulk', async () => {
+    const results = expectSuccess(await bulkCreateTasks(ctx, {
+      tasks: [
+        { project_id: 'proj-123', title: 'Fix outage', priority: 'critical' },
+        { project_id: 'proj-123', title: 'Tidy docs' },
+      ],
+    }));
+
+    expect(results[0].success && results[0].message).toContain('John has the lightest load');
+    expect(results[1].success && results[1].message).not.toContain('lightest load');
+  });
+
+  it("should count overdue work in the workspace's time zone", async () => {
+    // UTC+14 is always at least a day ahead of UTC-12
+    ctx = {
+      repo: new LocalRepository({
+        seed: {
+          workspaces: [{ ...mockWorkspace, time_zone: 'Etc/GMT-14' }],
+          projects: [mockProject],
+          tasks: mockTasks,
+          team_members: mockTeamMembers,
+        },
+      }),
+    };
+    await updateTask(ctx, { task_id: 'task-3', assignee: 'John', due_date: todayIn('Etc/GMT+12') });
+
+    const report = expectSuccess(await getWorkload(ctx, { workspace_id: 'ws-123' }));
+
+    expect(report.members.find((m) => m.name === 'John')?.overdue).toBe(1);
+  });
+});